@@ -1,5 +1,10 @@
 const CACHE_NAME = 'pwa-cache-v2';
 const OFFLINE_MODE_CACHE = 'pwa-offline-mode-cache';
+// Notice attachments never change once uploaded, so they are kept across app updates
+const ATTACHMENT_CACHE = 'pwa-attachments-v1';
+// The last push this device received, shown on the notice diagnostics page
+const DIAGNOSTICS_CACHE = 'pwa-diagnostics';
+const LAST_PUSH_KEY = '/__diagnostics/last-push';
 
 const urlsToCache = [
   '/',
@@ -21,6 +26,105 @@ const urlsToCache = [
   '/api/profile'  // Cache profile data for offline use
 ];
 
+// Endpoints that must always hit the network, a cached answer would show a stale badge.
+// The live updates stream never finishes, so it can't be cached either. A cached public key
+// would hide a key rotation from the app, and a cached device list a rename or removal.
+const uncachedApiPaths = [
+  '/api/notifications/unread-count',
+  '/api/live',
+  '/api/push/public-key',
+  '/api/me/devices'
+];
+
+// Answers that change while the app is open ask the network first and only fall back to the
+// cached copy offline: a notice can be edited or recalled, and the app refetches the lists
+// right after a push or live update, which must not get the old list back. Active alerts
+// especially, a new emergency would otherwise wait for the next poll.
+const networkFirstApiPaths = [
+  /^\/api\/notifications$/,
+  /^\/api\/notifications\/\d+$/,
+  /^\/api\/notifications\/critical\/active$/,
+  /^\/api\/notifications\/scheduled$/,
+  /^\/api\/notifications\/acknowledgements$/,
+  /^\/api\/push\/analytics$/
+];
+
+// Unread count for the logged-in user, the same number the app shows
+async function fetchUnreadCount() {
+  const response = await fetch('/api/notifications/unread-count', {
+    credentials: 'include',
+    cache: 'no-store'
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch unread count: ${response.status}`);
+  }
+  const data = await response.json();
+  return typeof data.count === 'number' ? data.count : 0;
+}
+
+async function fetchNetworkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    } else if (response.status === 404) {
+      // Recalled, or no longer for this user
+      await cache.delete(request);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+// Kept in the Cache API, service workers have no localStorage
+async function recordLastPush(notificationData) {
+  const cache = await caches.open(DIAGNOSTICS_CACHE);
+  await cache.put(LAST_PUSH_KEY, new Response(JSON.stringify({
+    receivedAt: new Date().toISOString(),
+    title: notificationData.title || null,
+    tag: notificationData.tag || null,
+    type: notificationData.type || null
+  }), { headers: { 'Content-Type': 'application/json' } }));
+}
+
+async function readLastPush() {
+  const cache = await caches.open(DIAGNOSTICS_CACHE);
+  const response = await cache.match(LAST_PUSH_KEY);
+  return response ? response.json() : null;
+}
+
+// Attachments and API answers are served from the cache without asking the server, so they
+// must not outlive the session: the next person on a shared device could open them
+async function clearUserData() {
+  await Promise.all([caches.delete(ATTACHMENT_CACHE), caches.delete(OFFLINE_MODE_CACHE)]);
+  const cache = await caches.open(CACHE_NAME);
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter(request => new URL(request.url).pathname.startsWith('/api/'))
+    .map(request => cache.delete(request)));
+}
+
+// Cache first, an attachment opened once can be opened again without a connection
+async function fetchAttachment(request) {
+  const cache = await caches.open(ATTACHMENT_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
 self.addEventListener('install', event => {
   console.log('Service Worker installing...');
   event.waitUntil(
@@ -55,7 +159,7 @@ self.addEventListener('activate', event => {
       caches.keys().then(cacheNames => {
         return Promise.all(
           cacheNames.map(cacheName => {
-            if (cacheName !== CACHE_NAME && cacheName !== OFFLINE_MODE_CACHE) {
+            if (![CACHE_NAME, OFFLINE_MODE_CACHE, ATTACHMENT_CACHE, DIAGNOSTICS_CACHE].includes(cacheName)) {
               console.log('Deleting old cache:', cacheName);
               return caches.delete(cacheName);
             }
@@ -75,6 +179,20 @@ self.addEventListener('fetch', event => {
 
   const isApiRequest = event.request.url.includes('/api/');
 
+  if (uncachedApiPaths.includes(new URL(event.request.url).pathname)) {
+    return;
+  }
+
+  if (new URL(event.request.url).pathname.startsWith('/api/attachments/')) {
+    event.respondWith(fetchAttachment(event.request));
+    return;
+  }
+
+  if (networkFirstApiPaths.some(path => path.test(new URL(event.request.url).pathname))) {
+    event.respondWith(fetchNetworkFirst(event.request));
+    return;
+  }
+
   event.respondWith(
     caches.match(event.request)
       .then(response => {
@@ -170,6 +288,38 @@ self.addEventListener('message', event => {
       .catch(error => console.error('Error notifying clients about badge clearing:', error));
   }
 
+  // The notice list asks for its attachments to be fetched ahead, so they open offline too
+  if (event.data && event.data.type === 'CACHE_ATTACHMENTS' && Array.isArray(event.data.urls)) {
+    event.waitUntil(
+      Promise.all(event.data.urls.map(url => fetchAttachment(new Request(url, { credentials: 'include' }))
+        .catch(error => console.error(`Failed to cache attachment ${url}:`, error))))
+    );
+  }
+
+  // The diagnostics page asks over a MessageChannel and waits for the answer on its port
+  if (event.data && event.data.type === 'GET_DIAGNOSTICS' && event.ports[0]) {
+    const port = event.ports[0];
+    event.waitUntil(
+      readLastPush()
+        .catch(error => {
+          console.error('Failed to read last push:', error);
+          return null;
+        })
+        .then(lastPush => port.postMessage({
+          version: CACHE_NAME,
+          scope: self.registration.scope,
+          badgeSupported: 'setAppBadge' in self.navigator,
+          lastPush
+        }))
+    );
+    return;
+  }
+
+  // Sent on logout, see clearCachedUserData in client/src/lib/notifications.ts
+  if (event.data && event.data.type === 'CLEAR_USER_DATA') {
+    event.waitUntil(clearUserData().catch(error => console.error('Failed to clear user data:', error)));
+  }
+
   // Handle offline mode enabling
   if (event.data && event.data.type === 'ENABLE_OFFLINE_MODE') {
     console.log('Enabling offline mode');
@@ -240,55 +390,103 @@ self.addEventListener('push', event => {
     }
   }
 
+  event.waitUntil(recordLastPush(notificationData).catch(error => console.error('Failed to record push:', error)));
+
+  // The board recalled a notice: close it wherever it is still shown instead of showing anything new
+  if (notificationData.type === 'recall') {
+    // Only the recalled notice's files, the other notices' stay available offline
+    const attachmentUrls = Array.isArray(notificationData.attachmentUrls) ? notificationData.attachmentUrls : [];
+    event.waitUntil(caches.open(ATTACHMENT_CACHE)
+      .then(cache => Promise.all(attachmentUrls.map(url => cache.delete(url))))
+      .catch(error => console.error('Failed to clear attachments:', error)));
+    event.waitUntil((async () => {
+      const shown = await self.registration.getNotifications();
+      const matching = shown.filter(notification =>
+        notification.tag === notificationData.tag || notification.data?.notificationId === notificationData.id
+      );
+      matching.forEach(notification => notification.close());
+      console.log(`Closed ${matching.length} notifications for recalled notice ${notificationData.id}`);
+
+      // Browsers expect every push to show something, fall back to a short note if nothing was open
+      if (matching.length === 0) {
+        await self.registration.showNotification('Notisen har återkallats', {
+          body: 'Styrelsen har dragit tillbaka ett tidigare utskick.',
+          icon: '/icons/Icon-192.png',
+          badge: '/icons/Icon-72.png',
+          tag: notificationData.tag,
+          silent: true,
+          data: { url: '/notifications', notificationId: null }
+        });
+      }
+
+      if ('setAppBadge' in self.navigator) {
+        try {
+          await self.navigator.setAppBadge(await fetchUnreadCount());
+        } catch (err) {
+          console.error('Failed to update badge after recall:', err);
+        }
+      }
+      await wakeClients();
+    })());
+    return;
+  }
+
   // Define unique tag for this notification to avoid duplicates
   const uniqueTag = `notification-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+  // Emergency alerts (fire, flooding, elevator entrapment) stay on screen until dismissed
+  // and vibrate long enough to be noticed in a pocket
+  const isCritical = notificationData.critical === true;
+  const criticalTag = `critical-${notificationData.id || uniqueTag}`;
+  const criticalVibrate = [500, 200, 500, 200, 500, 200, 1000];
+
   // Enhanced notification options with special attention to iOS support
   const options = {
     body: notificationData.body || 'Ny notis från Bergakungen',
     icon: '/icons/Icon-192.png',
     badge: '/icons/Icon-72.png',
     // Vibration pattern (not supported on iOS but used on Android)
-    vibrate: [100, 50, 100],
+    vibrate: isCritical ? criticalVibrate : [100, 50, 100],
     // Ensure sound is enabled
     silent: false,
     // Allow multiple notifications with same tag to be shown
     renotify: true,
     // Each notification gets a unique tag to avoid collapsing
-    tag: notificationData.tag || uniqueTag,
-    // Make sure notification is shown in foreground
-    requireInteraction: true,
+    tag: isCritical ? criticalTag : (notificationData.tag || uniqueTag),
+    // Only emergency alerts stay until the resident interacts with them
+    requireInteraction: isCritical,
     // Data to pass to notification click handler
     data: {
       url: notificationData.url || '/',
       link: notificationData.link || null, // Include the link if it exists
       dateOfArrival: Date.now(),
-      notificationId: notificationData.id || 1,
+      notificationId: notificationData.id || null,
+      critical: isCritical,
       isiOS: /iPad|iPhone|iPod/.test(navigator.userAgent) && !self.MSStream
     },
-    // Action buttons
-    actions: [
-      {
-        action: 'view',
-        title: 'Visa'
-      }
-    ]
+    // Action buttons chosen by the board, see shared/push.ts. Older payloads get a plain "Visa".
+    actions: Array.isArray(notificationData.actions) && notificationData.actions.length > 0
+      ? notificationData.actions.slice(0, 2)
+      : [
+        {
+          action: 'view',
+          title: 'Visa'
+        }
+      ]
   };
 
+  // Hero image shown in the expanded notification where supported
+  if (notificationData.image) {
+    options.image = notificationData.image;
+  }
+
   console.log('Showing notification with options:', options);
 
   // Handle badge updates - both on service worker and clients
   const updateBadge = async () => {
     try {
-      // First try to get all notifications
-      const response = await fetch('/api/notifications');
-      if (!response.ok) {
-        throw new Error('Failed to fetch notifications');
-      }
-      
-      const notificationsData = await response.json();
-      // Make sure we always have at least 1 for a new notification, if API fails
-      const count = Array.isArray(notificationsData) ? notificationsData.length : 1;
+      // The server knows which notices this user has already read
+      const count = await fetchUnreadCount();
       
       console.log(`Setting badge count to ${count}`);
       
@@ -362,7 +560,8 @@ self.addEventListener('push', event => {
           // iOS Safari might not support these, but include them anyway
           icon: options.icon,
           badge: options.badge,
-          vibrate: [200, 100, 200] // Simple vibration pattern that works on iOS
+          requireInteraction: isCritical,
+          vibrate: isCritical ? criticalVibrate : [200, 100, 200] // Simple vibration pattern that works on iOS
         };
         
         console.log('Using iOS-optimized notification options:', JSON.stringify(iosSafeOptions));
@@ -378,7 +577,7 @@ self.addEventListener('push', event => {
           try {
             const minimalOptions = {
               body: options.body,
-              tag: 'bergakungen-notification'
+              tag: isCritical ? criticalTag : 'bergakungen-notification'
             };
             await self.registration.showNotification(notificationData.title || 'Bergakungen', minimalOptions);
             console.log('iOS notification shown successfully with minimal options');
@@ -411,16 +610,94 @@ self.addEventListener('push', event => {
     }
   };
 
+  // Open pages show the alert banner straight away instead of at their next poll
+  const announceCritical = async () => {
+    if (!isCritical) {
+      return;
+    }
+    const allClients = await self.clients.matchAll({ type: 'window' });
+    allClients.forEach(client => {
+      client.postMessage({
+        type: 'CRITICAL_ALERT',
+        notificationId: notificationData.id,
+        timestamp: Date.now()
+      });
+    });
+  };
+
   // Ensure event.waitUntil gets a proper promise chain
   event.waitUntil(
     Promise.all([
       wakeClients(),
+      announceCritical(),
       showNotification(),
       updateBadge()
     ]).catch(err => console.error('Push handling failed:', err))
   );
 });
 
+// base64url, the format the server hands out VAPID public keys in
+function urlBase64ToUint8Array(base64String) {
+  const padding = '='.repeat((4 - base64String.length % 4) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = atob(base64);
+  return Uint8Array.from(rawData, char => char.charCodeAt(0));
+}
+
+// The browser replaced or expired the push subscription on its own. Subscribe again here,
+// since the app may not be opened for days, and tell the server which row to move over.
+self.addEventListener('pushsubscriptionchange', event => {
+  console.log('Push subscription changed:', event);
+
+  event.waitUntil((async () => {
+    const oldSubscription = event.oldSubscription;
+    let subscription = event.newSubscription;
+
+    if (!subscription) {
+      // Reuse the key the old subscription was made with, or ask the server for the current one
+      let applicationServerKey = oldSubscription?.options?.applicationServerKey;
+      if (!applicationServerKey) {
+        const response = await fetch('/api/push/public-key', { credentials: 'include', cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error(`Public key unavailable: ${response.status}`);
+        }
+        applicationServerKey = urlBase64ToUint8Array((await response.json()).publicKey);
+      }
+      subscription = await self.registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey
+      });
+    }
+
+    if (!oldSubscription) {
+      // Without the old endpoint the server can't tell which device this is, the app
+      // registers the subscription the next time it is opened
+      console.log('No old subscription to replace, leaving registration to the app');
+      return;
+    }
+
+    const response = await fetch('/api/push/subscription-change', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        oldEndpoint: oldSubscription.endpoint,
+        subscription: subscription.toJSON()
+      })
+    });
+    if (response.status === 410) {
+      // The resident removed this device or turned notices off, the new subscription isn't wanted
+      await subscription.unsubscribe();
+      console.log('Push subscription was removed on the server, not resubscribing');
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(`Server refused subscription change: ${response.status}`);
+    }
+    console.log('Push subscription replaced on the server');
+  })().catch(error => console.error('Resubscribing after pushsubscriptionchange failed:', error)));
+});
+
 // Handle notification actions 
 self.addEventListener('notificationclick', event => {
   console.log('Notification clicked:', event);
@@ -428,18 +705,54 @@ self.addEventListener('notificationclick', event => {
   // Close the notification
   event.notification.close();
 
-  // Get the notification data
-  // First check if there's a link in the notification data
-  const notificationLink = event.notification.data?.link;
-  // If we have a link in the notification data, use it, otherwise fallback to the default URL or notifications page
-  const url = notificationLink || event.notification.data?.url || '/notifications';
-  const isIOS = event.notification.data?.isiOS || false;
-  
-  // Check if a specific action was clicked
-  let actionUrl = url;
-  if (event.action === 'view') {
-    actionUrl = url; // Use the default URL for 'view' action
-  }
+  // Tapping the push opens the notice in the app (/notifications/:id), only "Öppna länk" goes
+  // straight to the external link. Pushes sent before the details page fall back to the list.
+  const data = event.notification.data || {};
+  // Same check as isSafeLink in shared/markdown.ts, older pushes may carry unchecked links
+  const notificationLink = typeof data.link === 'string' && /^(https?:\/\/|mailto:|tel:)/i.test(data.link.trim())
+    ? data.link
+    : null;
+  const url = data.url && data.url !== '/' ? data.url : '/notifications';
+  const actionUrl = event.action === 'open_link' && notificationLink ? notificationLink : url;
+
+  const notificationId = event.notification.data?.notificationId;
+
+  // Opening a notice from the push counts as reading it
+  const markAsRead = async () => {
+    if (!notificationId) {
+      return;
+    }
+    try {
+      await fetch(`/api/notifications/${notificationId}/read`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+    }
+  };
+
+  // Counts towards the notice's open rate in the admin statistics, test pushes have no id
+  const reportOpened = async () => {
+    if (!notificationId) {
+      return;
+    }
+    try {
+      const subscription = await self.registration.pushManager.getSubscription();
+      if (!subscription) {
+        return;
+      }
+      await fetch(`/api/notifications/${notificationId}/opened`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        keepalive: true,
+        body: JSON.stringify({ endpoint: subscription.endpoint })
+      });
+    } catch (error) {
+      console.error('Failed to report notification opened:', error);
+    }
+  };
 
   // Clear or update the badge when notification is clicked
   const updateBadge = async () => {
@@ -448,17 +761,9 @@ self.addEventListener('notificationclick', event => {
       let count = 0;
       
       try {
-        // Try to fetch notifications from the API
-        const response = await fetch('/api/notifications');
-        if (response.ok) {
-          const notificationsData = await response.json();
-          count = Array.isArray(notificationsData) ? notificationsData.length : 0;
-          console.log(`Fetched ${count} notifications for badge update`);
-        } else {
-          console.warn('Could not fetch notifications for badge, falling back to notification count');
-          const notifications = await self.registration.getNotifications();
-          count = notifications.length;
-        }
+        await markAsRead();
+        count = await fetchUnreadCount();
+        console.log(`Fetched unread count ${count} for badge update`);
       } catch (error) {
         console.error('Error fetching notifications for badge update:', error);
         // Fallback to notification count if API fetch failed
@@ -508,71 +813,40 @@ self.addEventListener('notificationclick', event => {
     }
   };
 
-  // Special handling to open URL with iOS-specific optimizations
+  // Reuses an open app window when there is one: it's focused and navigates itself, so the
+  // app doesn't reload. Otherwise a new window is opened on the notice.
   const openUrl = async () => {
     try {
-      console.log(`Attempting to open URL: ${actionUrl}`);
-      
-      // Get all open windows/tabs
-      const windowClients = await clients.matchAll({ type: 'window' });
+      const target = new URL(actionUrl, self.location.origin);
+      console.log(`Attempting to open URL: ${target.href}`);
+
+      if (target.origin !== self.location.origin) {
+        return clients.openWindow ? clients.openWindow(target.href) : undefined;
+      }
+
+      const windowClients = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const appClient = windowClients.find(client => new URL(client.url).origin === self.location.origin);
       console.log(`Found ${windowClients.length} window clients`);
-      
-      // Also send notification to all clients about the notification click
-      // This ensures we have a fallback for iOS if the service worker can't open a window
-      windowClients.forEach(client => {
-        client.postMessage({
+
+      if (appClient) {
+        console.log(`Focusing existing client window: ${appClient.url}`);
+        const focused = 'focus' in appClient ? await appClient.focus() : appClient;
+        (focused || appClient).postMessage({
           type: 'NOTIFICATION_CLICKED',
-          url: actionUrl,
+          url: target.pathname + target.search,
           timestamp: Date.now()
         });
-      });
-      
-      // Check if there is already a window/tab open with the target URL
-      for (let i = 0; i < windowClients.length; i++) {
-        const client = windowClients[i];
-        // Match on base URL to handle different routes
-        const clientBasePath = new URL(client.url).pathname.split('/')[1];
-        const actionBasePath = new URL(actionUrl, self.location.origin).pathname.split('/')[1];
-        
-        if ((clientBasePath === actionBasePath || actionUrl === '/') && 'focus' in client) {
-          console.log(`Focusing existing client window: ${client.url}`);
-          return client.focus();
-        }
-      }
-      
-      // If no matching window/tab is found or it's an iOS device (which requires special handling)
-      if (isIOS) {
-        console.log('iOS device detected, using special handling for opening URL');
-        
-        // For iOS, ask all clients to handle the navigation
-        const iosHandled = windowClients.some(client => {
-          client.postMessage({
-            type: 'IOS_OPEN_URL',
-            url: actionUrl,
-            timestamp: Date.now()
-          });
-          return true; // Mark as handled if we sent the message
-        });
-        
-        // If we couldn't message any clients (unlikely), still try the normal approach
-        if (!iosHandled && clients.openWindow) {
-          console.log('No iOS clients available, falling back to clients.openWindow API');
-          return clients.openWindow(actionUrl);
-        }
-        
-        return; // We've messaged iOS clients, they'll handle navigation
+        return;
       }
-      
-      // For non-iOS, standard approach
+
       if (clients.openWindow) {
-        console.log(`Opening new window for URL: ${actionUrl}`);
-        return clients.openWindow(actionUrl);
+        console.log(`Opening new window for URL: ${target.href}`);
+        return clients.openWindow(target.href);
       }
-      
     } catch (error) {
       console.error('Error opening URL:', error);
-      
-      // Even if normal opening fails, still try to message clients as fallback
+
+      // Older iOS versions can refuse to focus or open windows, let an open page navigate instead
       try {
         const fallbackClients = await clients.matchAll({ type: 'window' });
         fallbackClients.forEach(client => {
@@ -588,11 +862,18 @@ self.addEventListener('notificationclick', event => {
     }
   };
 
-  // Execute both tasks in parallel
+  // "Markera som läst" only updates the read state and badge, it doesn't open the app
+  if (event.action === 'mark_read') {
+    event.waitUntil(Promise.all([updateBadge(), reportOpened()]));
+    return;
+  }
+
+  // Execute all tasks in parallel
   event.waitUntil(
     Promise.all([
       openUrl(),
-      updateBadge()
+      updateBadge(),
+      reportOpened()
     ])
   );
 });
\ No newline at end of file
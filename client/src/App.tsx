@@ -6,10 +6,14 @@ import MobileLayout from "./components/layouts/mobile-layout";
 import { ProtectedRoute } from "./lib/protected-route";
 import Home from "./pages/home";
 import Notifications from "./pages/notifications";
+import NotificationDetails from "./pages/notification";
+import Digest from "./pages/digest";
 import Profile from "./pages/profile";
 import Settings from "./pages/settings";
+import Diagnostics from "./pages/diagnostics";
 import Browser from "./pages/browser";
 import Admin from "./pages/admin";
+import InvitationsPrint from "./pages/invitations-print";
 import Auth from "./pages/auth";
 import NotFound from "./pages/not-found";
 import React from "react";
@@ -20,10 +24,15 @@ function Router() {
       <Switch>
         <Route path="/" component={Home} />
         <ProtectedRoute path="/notifications" component={Notifications} />
+        <ProtectedRoute path="/notifications/:id" component={NotificationDetails} />
+        <ProtectedRoute path="/digests" component={Digest} />
+        <ProtectedRoute path="/digests/:id" component={Digest} />
         <ProtectedRoute path="/profile" component={Profile} />
         <ProtectedRoute path="/settings" component={Settings} />
+        <ProtectedRoute path="/settings/diagnostics" component={Diagnostics} />
         <Route path="/browser" component={Browser} />
         <Route path="/admin" component={Admin} />
+        <Route path="/admin/invitations/print" component={InvitationsPrint} />
         <Route path="/auth" component={Auth} />
         <Route component={NotFound} />
       </Switch>
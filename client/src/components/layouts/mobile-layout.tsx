@@ -1,18 +1,34 @@
 import BottomNav from "../navigation/bottom-nav";
 import Header from "./header";
+import CriticalAlertBanner from "../notifications/critical-alert-banner";
+import { useEffect } from "react";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { renewPushSubscription } from "@/lib/notifications";
 
 interface MobileLayoutProps {
   children: React.ReactNode;
 }
 
 export default function MobileLayout({ children }: MobileLayoutProps) {
+  const { isLoggedIn } = useAdminAuth();
+  useLiveUpdates();
+
+  // Renews the push subscription after a key rotation or before it expires
+  useEffect(() => {
+    if (isLoggedIn) {
+      renewPushSubscription().catch(error => console.error('Failed to renew push subscription:', error));
+    }
+  }, [isLoggedIn]);
+
   return (
     <div className="min-h-screen pb-16">
       <Header />
+      <CriticalAlertBanner />
       <main className="container px-4 py-4">
         {children}
       </main>
       <BottomNav />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -12,7 +12,7 @@ export default function BottomNav() {
   const [location] = useLocation();
 
   return (
-    <nav className="fixed bottom-0 left-0 right-0 bg-background border-t">
+    <nav className="print:hidden fixed bottom-0 left-0 right-0 bg-background border-t">
       <div className="grid grid-cols-4 h-16">
         {navItems.map(({ icon: Icon, label, href }) => {
           const isActive = location === href;
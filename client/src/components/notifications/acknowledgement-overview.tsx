@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { AcknowledgementSummary } from "@shared/schema";
+
+interface AcknowledgementOverviewProps {
+  // Opens the full report of a notice
+  onSelect: (notificationId: number) => void;
+}
+
+export default function AcknowledgementOverview({ onSelect }: AcknowledgementOverviewProps) {
+  const { data: summaries = [] } = useQuery<AcknowledgementSummary[]>({
+    queryKey: ['/api/notifications/acknowledgements'],
+    refetchInterval: 60000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bekräftelser</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {summaries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Inga notiser som kräver bekräftelse de senaste 30 dagarna</p>
+        ) : (
+          <div className="space-y-2">
+            {summaries.map(({ notification, apartments, confirmed }) => (
+              <button
+                key={notification.id}
+                type="button"
+                className="w-full space-y-2 rounded-lg bg-accent p-3 text-left hover:bg-accent/80"
+                onClick={() => onSelect(notification.id)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{notification.title}</p>
+                    {notification.critical && <Badge variant="destructive" className="shrink-0">Larm</Badge>}
+                  </div>
+                  <span className="shrink-0 text-sm">
+                    {confirmed} av {apartments}
+                  </span>
+                </div>
+                <Progress value={apartments > 0 ? (confirmed / apartments) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  {apartments - confirmed} lägenheter har inte bekräftat
+                  {" · "}
+                  {new Date(notification.sentAt ?? notification.createdAt).toLocaleString('sv-SE')}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
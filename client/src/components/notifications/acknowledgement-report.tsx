@@ -0,0 +1,130 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { AcknowledgementReport as Report } from "@shared/schema";
+import { BellRing } from "lucide-react";
+
+interface AcknowledgementReportProps {
+  // The dialog is open while a notice is selected
+  notificationId: number | null;
+  onClose: () => void;
+}
+
+export default function AcknowledgementReport({ notificationId, onClose }: AcknowledgementReportProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: report, isLoading } = useQuery<Report>({
+    queryKey: [`/api/notifications/${notificationId}/acknowledgements`],
+    enabled: notificationId !== null,
+    refetchInterval: 15000,
+  });
+
+  const remind = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/notifications/${notificationId}/remind`);
+      return response.json() as Promise<{ devices: number; sent: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/notifications/${notificationId}/acknowledgements`] });
+      toast({
+        title: "Klart",
+        description: result.devices === 0
+          ? "Ingen av de som inte bekräftat har pushnotiser påslagna"
+          : `Påminnelsen skickades till ${result.sent} av ${result.devices} enheter`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att skicka påminnelsen"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registeredUnconfirmed = report?.unconfirmed.filter(apartment => apartment.registered).length ?? 0;
+
+  return (
+    <Dialog open={notificationId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bekräftelser</DialogTitle>
+          <DialogDescription>
+            En lägenhet räknas som bekräftad när någon som bor där har bekräftat notisen.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !report ? (
+          <p className="text-sm text-muted-foreground">Hämtar bekräftelser...</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {report.confirmed.length} av {report.apartments} lägenheter har bekräftat.
+            </p>
+
+            {report.unconfirmed.length > 0 && (
+              <div className="space-y-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => remind.mutate()}
+                  disabled={remind.isPending || registeredUnconfirmed === 0}
+                >
+                  <BellRing className="mr-2 h-4 w-4" />
+                  Påminn de som inte bekräftat
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  {report.remindedAt
+                    ? `Senaste påminnelsen skickades ${new Date(report.remindedAt).toLocaleString('sv-SE')}`
+                    : "Notisen pushas igen, bara till lägenheter som inte bekräftat."}
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="font-medium text-red-600">Ej bekräftat ({report.unconfirmed.length})</p>
+              {report.unconfirmed.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Alla lägenheter har bekräftat</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {report.unconfirmed.map(({ apartmentNumber, registered }) => (
+                      <span
+                        key={apartmentNumber}
+                        title={registered ? undefined : "Ingen registrerad i appen"}
+                        className={registered
+                          ? "rounded-md border border-red-200 px-2 py-1 text-sm"
+                          : "rounded-md border border-dashed px-2 py-1 text-sm text-muted-foreground"}
+                      >
+                        {apartmentNumber}
+                      </span>
+                    ))}
+                  </div>
+                  {registeredUnconfirmed < report.unconfirmed.length && (
+                    <p className="text-xs text-muted-foreground">
+                      Streckade lägenheter har ingen registrerad i appen och kan inte påminnas här.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="font-medium">Bekräftat ({report.confirmed.length})</p>
+              {report.confirmed.map(({ apartmentNumber, acknowledgedAt }) => (
+                <div key={apartmentNumber} className="flex justify-between text-sm">
+                  <span>Lgh {apartmentNumber}</span>
+                  <span className="text-muted-foreground">
+                    {new Date(acknowledgedAt).toLocaleString('sv-SE')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
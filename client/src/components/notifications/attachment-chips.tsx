@@ -0,0 +1,49 @@
+import { FileText, Image, X } from "lucide-react";
+import type { AttachmentInfo } from "@shared/schema";
+import { attachmentUrl, formatFileSize } from "@shared/attachments";
+
+interface AttachmentChipsProps {
+  attachments: AttachmentInfo[];
+  // Shows a remove button on each chip, used while composing a notice
+  onRemove?: (attachment: AttachmentInfo) => void;
+}
+
+export default function AttachmentChips({ attachments, onRemove }: AttachmentChipsProps) {
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(attachment => {
+        const Icon = attachment.mimeType.startsWith("image/") ? Image : FileText;
+        return (
+          <span key={attachment.id} className="inline-flex items-center gap-1 rounded-full border bg-background px-3 py-1 text-sm">
+            <a
+              href={attachmentUrl(attachment.id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 hover:underline"
+              // Chips sit inside clickable notice rows
+              onClick={(e) => e.stopPropagation()}
+            >
+              <Icon className="h-4 w-4 shrink-0" />
+              <span className="max-w-[180px] truncate">{attachment.fileName}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+            </a>
+            {onRemove && (
+              <button
+                type="button"
+                aria-label={`Ta bort ${attachment.fileName}`}
+                className="ml-1 text-muted-foreground hover:text-foreground"
+                onClick={() => onRemove(attachment)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
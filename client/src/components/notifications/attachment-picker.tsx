@@ -0,0 +1,108 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, uploadFile } from "@/lib/queryClient";
+import AttachmentChips from "@/components/notifications/attachment-chips";
+import type { AttachmentInfo } from "@shared/schema";
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_NOTICE,
+  attachmentMimeTypes,
+  formatFileSize,
+  isAttachmentMimeType,
+} from "@shared/attachments";
+import { Paperclip } from "lucide-react";
+
+interface AttachmentPickerProps {
+  value: AttachmentInfo[];
+  onChange: (value: AttachmentInfo[]) => void;
+}
+
+/**
+ * Uploads files right away and keeps their ids, they are linked to the notice when it is sent.
+ */
+export default function AttachmentPicker({ value, onChange }: AttachmentPickerProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const showError = (description: string) => {
+    toast({ title: "Fel", description, variant: "destructive" });
+  };
+
+  const upload = async (files: FileList) => {
+    const room = MAX_ATTACHMENTS_PER_NOTICE - value.length;
+    if (files.length > room) {
+      showError(`Högst ${MAX_ATTACHMENTS_PER_NOTICE} bilagor per notis`);
+      return;
+    }
+
+    setUploading(true);
+    const uploaded: AttachmentInfo[] = [];
+    try {
+      for (const file of Array.from(files)) {
+        // Checked here too so the board doesn't wait for a large upload to be refused
+        if (!isAttachmentMimeType(file.type)) {
+          showError(`${file.name}: bara PDF-filer och bilder kan bifogas`);
+          continue;
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+          showError(`${file.name} är större än ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+          continue;
+        }
+
+        try {
+          const response = await uploadFile("/api/attachments", file);
+          uploaded.push(await response.json());
+        } catch (error) {
+          showError(getApiErrorMessage(error, `Det gick inte att ladda upp ${file.name}`));
+        }
+      }
+    } finally {
+      onChange([...value, ...uploaded]);
+      setUploading(false);
+      if (inputRef.current) {
+        inputRef.current.value = "";
+      }
+    }
+  };
+
+  const remove = async (attachment: AttachmentInfo) => {
+    onChange(value.filter(existing => existing.id !== attachment.id));
+    try {
+      await apiRequest("DELETE", `/api/attachments/${attachment.id}`);
+    } catch (error) {
+      // Left behind as an unused upload, it isn't shown anywhere
+      console.error('Failed to delete attachment:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Bilagor (valfritt)</Label>
+      <AttachmentChips attachments={value} onRemove={remove} />
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={attachmentMimeTypes.join(",")}
+        className="hidden"
+        onChange={(e) => e.target.files && upload(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading || value.length >= MAX_ATTACHMENTS_PER_NOTICE}
+      >
+        <Paperclip className="mr-2 h-4 w-4" />
+        {uploading ? "Laddar upp..." : "Bifoga fil"}
+      </Button>
+      <p className="text-sm text-muted-foreground">
+        PDF eller bild, högst {formatFileSize(MAX_ATTACHMENT_BYTES)} per fil. Bilagorna går att öppna i appen även utan nät.
+      </p>
+    </div>
+  );
+}
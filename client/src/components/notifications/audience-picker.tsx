@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { parseApartmentList, type NotificationAudience } from "@shared/audience";
+import { userRoles, type UserRole, type NotificationCategory } from "@shared/schema";
+import { Users } from "lucide-react";
+
+type AudienceType = NotificationAudience["type"];
+
+const typeLabels: Record<AudienceType, string> = {
+  all: "Alla boende",
+  port: "En eller flera portar",
+  apartments: "Lägenheter",
+  role: "Roll",
+};
+
+const roleLabels: Record<UserRole, string> = {
+  resident: "Boende",
+  board: "Styrelse",
+  admin: "Administratörer",
+};
+
+interface AudiencePickerProps {
+  // Called with null while the current selection is incomplete or invalid
+  onChange: (audience: NotificationAudience | null) => void;
+  // Changing this key resets the picker, e.g. after a notice has been sent
+  resetKey?: number;
+  // Residents who have muted this category are not counted as devices
+  category?: NotificationCategory;
+}
+
+export default function AudiencePicker({ onChange, resetKey, category }: AudiencePickerProps) {
+  const [type, setType] = useState<AudienceType>("all");
+  const [ports, setPorts] = useState<string[]>([]);
+  const [apartmentText, setApartmentText] = useState("");
+  const [roles, setRoles] = useState<UserRole[]>(["board"]);
+
+  useEffect(() => {
+    setType("all");
+    setPorts([]);
+    setApartmentText("");
+    setRoles(["board"]);
+  }, [resetKey]);
+
+  const { data: options } = useQuery<{ ports: string[] }>({
+    queryKey: ['/api/notifications/audience-options'],
+  });
+
+  const apartments = type === "apartments" ? parseApartmentList(apartmentText) : null;
+
+  let audience: NotificationAudience | null = null;
+  if (type === "all") {
+    audience = { type: "all" };
+  } else if (type === "port" && ports.length > 0) {
+    audience = { type: "port", ports };
+  } else if (type === "apartments" && apartments && apartments.length > 0) {
+    audience = { type: "apartments", apartments };
+  } else if (type === "role" && roles.length > 0) {
+    audience = { type: "role", roles };
+  }
+
+  const audienceKey = JSON.stringify(audience);
+
+  useEffect(() => {
+    onChange(audience);
+  }, [audienceKey]);
+
+  const { data: recipients, isFetching } = useQuery<{ users: number; devices: number }>({
+    queryKey: ['/api/notifications/recipients', audienceKey, category],
+    queryFn: async () => {
+      const query = category ? `?category=${category}` : "";
+      const response = await apiRequest("POST", `/api/notifications/recipients${query}`, audience);
+      return response.json();
+    },
+    enabled: audience !== null,
+    staleTime: 10000,
+  });
+
+  const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter(item => item !== value);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Mottagare</Label>
+        <Select value={type} onValueChange={(value) => setType(value as AudienceType)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(typeLabels) as AudienceType[]).map(key => (
+              <SelectItem key={key} value={key}>{typeLabels[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {type === "port" && (
+        options?.ports.length ? (
+          <div className="grid grid-cols-3 gap-2">
+            {options.ports.map(port => (
+              <label key={port} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={ports.includes(port)}
+                  onCheckedChange={(checked) => setPorts(toggle(ports, port, checked === true))}
+                />
+                Port {port}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Inga boende har angett port i sin profil än.</p>
+        )
+      )}
+
+      {type === "apartments" && (
+        <div className="space-y-1">
+          <Input
+            placeholder="t.ex. 1-12, 40, 101-104"
+            value={apartmentText}
+            onChange={(e) => setApartmentText(e.target.value)}
+          />
+          {apartmentText && !apartments && (
+            <p className="text-sm font-medium text-destructive">
+              Ange lägenhetsnummer mellan 1 och 165, separerade med komma
+            </p>
+          )}
+        </div>
+      )}
+
+      {type === "role" && (
+        <div className="flex flex-wrap gap-4">
+          {userRoles.map(role => (
+            <label key={role} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={roles.includes(role)}
+                onCheckedChange={(checked) => setRoles(toggle(roles, role, checked === true))}
+              />
+              {roleLabels[role]}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Users className="h-4 w-4" />
+        {audience === null
+          ? "Välj mottagare"
+          : recipients && !isFetching
+            ? `${recipients.users} boende, ${recipients.devices} enheter med push-notiser`
+            : "Räknar mottagare..."}
+      </p>
+    </div>
+  );
+}
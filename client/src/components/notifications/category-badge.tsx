@@ -0,0 +1,11 @@
+import { Badge } from "@/components/ui/badge";
+import { categoryLabels } from "@shared/categories";
+import type { NotificationCategory } from "@shared/schema";
+
+export default function CategoryBadge({ category }: { category: NotificationCategory }) {
+  return (
+    <Badge variant={category === "urgent" ? "destructive" : "outline"} className="shrink-0">
+      {categoryLabels[category]}
+    </Badge>
+  );
+}
@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, getQueryFn } from "@/lib/queryClient";
+import { categoryDescriptions, categoryLabels, isMutableCategory } from "@shared/categories";
+import { notificationCategories, type NotificationCategory, type NotificationPreferences } from "@shared/schema";
+
+export default function CategoryPreferences() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery<NotificationPreferences | null>({
+    queryKey: ['/api/notifications/preferences'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const updatePreference = useMutation({
+    mutationFn: async ({ category, enabled }: { category: NotificationCategory; enabled: boolean }) => {
+      const response = await apiRequest("PUT", "/api/notifications/preferences", { [category]: enabled });
+      return response.json() as Promise<NotificationPreferences>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/notifications/preferences'], updated);
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att spara inställningen"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Preferences belong to an account, there is nothing to show when logged out
+  if (!preferences) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notiskategorier</CardTitle>
+        <CardDescription>
+          Välj vilka typer av notiser du vill få som push-notis. Alla notiser syns fortfarande under Notiser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {notificationCategories.map(category => (
+          <div key={category} className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label>{categoryLabels[category]}</Label>
+              <p className="text-sm text-muted-foreground">
+                {isMutableCategory(category)
+                  ? categoryDescriptions[category]
+                  : `${categoryDescriptions[category]}. Kan inte stängas av.`}
+              </p>
+            </div>
+            <Switch
+              checked={preferences[category]}
+              onCheckedChange={(enabled) => updatePreference.mutate({ category, enabled })}
+              disabled={!isMutableCategory(category) || updatePreference.isPending}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, getQueryFn } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+import { Siren } from "lucide-react";
+import Markdown from "@/components/notifications/markdown";
+
+/**
+ * Pins unacknowledged emergency alerts to the top of every page. The banner only goes
+ * away once the resident confirms, which is recorded for the board.
+ */
+export default function CriticalAlertBanner() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: alerts } = useQuery<Notification[] | null>({
+    queryKey: ['/api/notifications/critical/active'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    refetchInterval: 30000,
+    refetchOnWindowFocus: true,
+  });
+
+  // The service worker announces new alerts as soon as the push arrives
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'CRITICAL_ALERT') {
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications/critical/active'] });
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [queryClient]);
+
+  const acknowledge = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/notifications/${id}/acknowledge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/critical/active'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'], exact: true });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att bekräfta larmet"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!alerts || alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="print:hidden sticky top-14 z-40 space-y-px" role="alert">
+      {alerts.map(alert => (
+        <div key={alert.id} className="bg-red-600 text-white">
+          <div className="container px-4 py-3 space-y-2">
+            <div className="flex items-start gap-2">
+              <Siren className="h-5 w-5 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-semibold">{alert.title}</p>
+                {alert.body && <Markdown source={alert.body} className="text-sm" />}
+                <p className="text-xs opacity-80 mt-1">
+                  {new Date(alert.sentAt ?? alert.createdAt).toLocaleString('sv-SE')}
+                </p>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="w-full"
+              onClick={() => acknowledge.mutate(alert.id)}
+              disabled={acknowledge.isPending}
+            >
+              Jag har sett larmet
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { pushPlatformLabels } from "@shared/push";
+import { deliveryStatuses, type DeliveryReport as Report, type DeliveryStatus } from "@shared/schema";
+
+const statusLabels: Record<DeliveryStatus, string> = {
+  pending: "Väntar",
+  delivered: "Levererade",
+  failed: "Misslyckade",
+  expired: "Utgångna",
+};
+
+interface DeliveryReportProps {
+  // The dialog is open while a notice is selected
+  notificationId: number | null;
+  onClose: () => void;
+}
+
+export default function DeliveryReport({ notificationId, onClose }: DeliveryReportProps) {
+  const { data: report, isLoading } = useQuery<Report>({
+    queryKey: [`/api/notifications/${notificationId}/deliveries`],
+    enabled: notificationId !== null,
+    // Pending deliveries are still being worked through
+    refetchInterval: (query) => (query.state.data?.counts.pending ? 5000 : false),
+  });
+
+  return (
+    <Dialog open={notificationId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Leveransrapport</DialogTitle>
+          <DialogDescription>
+            Utgångna prenumerationer har avregistrerats och får inga fler notiser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !report ? (
+          <p className="text-sm text-muted-foreground">Hämtar rapport...</p>
+        ) : report.total === 0 ? (
+          <p className="text-sm text-muted-foreground">Notisen skickades inte till några enheter eller e-postadresser.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plattform</TableHead>
+                {deliveryStatuses.map(status => (
+                  <TableHead key={status} className="text-right">{statusLabels[status]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.platforms.map(row => (
+                <TableRow key={row.platform}>
+                  <TableCell>{pushPlatformLabels[row.platform]}</TableCell>
+                  {deliveryStatuses.map(status => (
+                    <TableCell key={status} className="text-right">{row[status]}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              {deliveryStatuses.some(status => report.email[status] > 0) && (
+                <TableRow>
+                  <TableCell>E-post</TableCell>
+                  {deliveryStatuses.map(status => (
+                    <TableCell key={status} className="text-right">{report.email[status]}</TableCell>
+                  ))}
+                </TableRow>
+              )}
+              {deliveryStatuses.some(status => report.sms[status] > 0) && (
+                <TableRow>
+                  <TableCell>SMS</TableCell>
+                  {deliveryStatuses.map(status => (
+                    <TableCell key={status} className="text-right">{report.sms[status]}</TableCell>
+                  ))}
+                </TableRow>
+              )}
+              <TableRow className="font-medium">
+                <TableCell>Totalt ({report.total})</TableCell>
+                {deliveryStatuses.map(status => (
+                  <TableCell key={status} className="text-right">{report.counts[status]}</TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
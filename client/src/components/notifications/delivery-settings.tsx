@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, getQueryFn } from "@/lib/queryClient";
+import {
+  deliveryModes,
+  emailDeliveryModes,
+  type DeliveryMode,
+  type EmailDeliveryMode,
+  type NotificationSettings,
+  type UpdateNotificationSettings,
+} from "@shared/schema";
+
+const deliveryModeLabels: Record<DeliveryMode, string> = {
+  immediate: "Direkt",
+  daily: "Daglig sammanfattning",
+  weekly: "Veckosammanfattning",
+};
+
+const emailDeliveryLabels: Record<EmailDeliveryMode, string> = {
+  off: "Aldrig",
+  fallback: "När push-notiser inte fungerar",
+  always: "Alltid",
+};
+
+// Monday first, values follow Date.getDay()
+const weekdays = [
+  { value: 1, label: "Måndag" },
+  { value: 2, label: "Tisdag" },
+  { value: 3, label: "Onsdag" },
+  { value: 4, label: "Torsdag" },
+  { value: 5, label: "Fredag" },
+  { value: 6, label: "Lördag" },
+  { value: 0, label: "Söndag" },
+];
+
+export default function DeliverySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<UpdateNotificationSettings | null>(null);
+
+  const { data: settings } = useQuery<NotificationSettings | null>({
+    queryKey: ['/api/notifications/settings'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  useEffect(() => {
+    if (settings) {
+      const { userId, lastDigestAt, smsConsentAt, ...editable } = settings;
+      setDraft(editable);
+    }
+  }, [settings]);
+
+  const save = useMutation({
+    mutationFn: async (data: UpdateNotificationSettings) => {
+      const response = await apiRequest("PUT", "/api/notifications/settings", data);
+      return response.json() as Promise<NotificationSettings>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/notifications/settings'], updated);
+      toast({
+        title: "Sparat",
+        description: "Dina leveransinställningar har sparats",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att spara inställningarna"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!settings || !draft) {
+    return null;
+  }
+
+  const update = (changes: Partial<UpdateNotificationSettings>) => setDraft({ ...draft, ...changes });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leverans av notiser</CardTitle>
+        <CardDescription>
+          Bestäm när push-notiserna ska komma. Akuta notiser skickas alltid direkt och larm går fram även under tysta timmar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label>Tysta timmar</Label>
+            <p className="text-sm text-muted-foreground">
+              Notiser som kommer under tysta timmar skickas när de är slut
+            </p>
+          </div>
+          <Switch
+            checked={draft.quietHoursEnabled}
+            onCheckedChange={(quietHoursEnabled) => update({ quietHoursEnabled })}
+          />
+        </div>
+
+        {draft.quietHoursEnabled && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Från</Label>
+              <Input
+                type="time"
+                value={draft.quietHoursStart}
+                onChange={(e) => update({ quietHoursStart: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Till</Label>
+              <Input
+                type="time"
+                value={draft.quietHoursEnd}
+                onChange={(e) => update({ quietHoursEnd: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Skicka notiser</Label>
+          <Select value={draft.deliveryMode} onValueChange={(value) => update({ deliveryMode: value as DeliveryMode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {deliveryModes.map(mode => (
+                <SelectItem key={mode} value={mode}>{deliveryModeLabels[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {draft.deliveryMode !== "immediate" && (
+            <p className="text-sm text-muted-foreground">
+              Du får en push-notis med en sammanfattning i stället för en per notis.{" "}
+              <Link href="/digests" className="text-primary underline">Tidigare sammanfattningar</Link>
+            </p>
+          )}
+        </div>
+
+        {draft.deliveryMode !== "immediate" && (
+          <div className="grid grid-cols-2 gap-3">
+            {draft.deliveryMode === "weekly" && (
+              <div className="space-y-2">
+                <Label>Dag</Label>
+                <Select value={String(draft.digestDay)} onValueChange={(value) => update({ digestDay: Number(value) })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {weekdays.map(day => (
+                      <SelectItem key={day.value} value={String(day.value)}>{day.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Klockan</Label>
+              <Input
+                type="time"
+                value={draft.digestTime}
+                onChange={(e) => update({ digestTime: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>E-post</Label>
+          <Select value={draft.emailDelivery} onValueChange={(value) => update({ emailDelivery: value as EmailDeliveryMode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {emailDeliveryModes.map(mode => (
+                <SelectItem key={mode} value={mode}>{emailDeliveryLabels[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Notiser skickas till e-postadressen du loggar in med.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label>SMS vid larm</Label>
+            <p className="text-sm text-muted-foreground">
+              Får du inga push-notiser skickar vi kritiska larm som SMS till mobilnumret i din{" "}
+              <Link href="/profile" className="text-primary underline">profil</Link>
+            </p>
+          </div>
+          <Switch
+            checked={draft.smsConsent}
+            onCheckedChange={(smsConsent) => update({ smsConsent })}
+          />
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={() => save.mutate(draft)}
+          disabled={save.isPending}
+        >
+          {save.isPending ? "Sparar..." : "Spara"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
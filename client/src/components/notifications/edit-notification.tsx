@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import MarkdownEditor from "@/components/notifications/markdown-editor";
+import type { Notification, NotificationAuditAction, NotificationAuditEntry } from "@shared/schema";
+import { markdownToPlainText } from "@shared/markdown";
+
+const auditActionLabels: Record<NotificationAuditAction, string> = {
+  edited: "Redigerad",
+  corrected: "Rättelse skickad",
+  recalled: "Återkallad",
+};
+
+interface EditNotificationProps {
+  // The dialog is open while a notice is selected
+  notification: Notification | null;
+  onClose: () => void;
+}
+
+export default function EditNotification({ notification, onClose }: EditNotificationProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [link, setLink] = useState("");
+  const [correction, setCorrection] = useState(false);
+
+  useEffect(() => {
+    if (notification) {
+      setTitle(notification.title);
+      setBody(notification.body || "");
+      setLink(notification.link || "");
+      setCorrection(false);
+    }
+  }, [notification]);
+
+  const { data: history = [] } = useQuery<NotificationAuditEntry[]>({
+    queryKey: [`/api/notifications/${notification?.id}/history`],
+    enabled: notification !== null,
+  });
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/notifications/${notification!.id}`, {
+        title,
+        body,
+        link: link || null,
+        correction,
+      });
+      return response.json() as Promise<{ queued: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/all'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/notifications/${notification!.id}/history`] });
+      onClose();
+      toast({
+        title: "Klart",
+        description: correction
+          ? `Rättelsen skickas till ${result.queued} enheter`
+          : "Notisen har uppdaterats",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att spara ändringarna"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={notification !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Redigera notis</DialogTitle>
+          <DialogDescription>
+            Ändringen syns direkt i appen. Pushnotiser som redan visats ändras bara om du skickar en rättelse.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>Titel</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Meddelande</Label>
+            <MarkdownEditor value={body} onChange={setBody} />
+          </div>
+          <div className="space-y-2">
+            <Label>Länk (valfritt)</Label>
+            <Input value={link} placeholder="https://..." onChange={(e) => setLink(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="send-correction"
+              checked={correction}
+              onCheckedChange={(checked) => setCorrection(checked === true)}
+            />
+            <Label htmlFor="send-correction">Skicka som rättelse</Label>
+          </div>
+          {correction && (
+            <p className="text-sm text-muted-foreground">
+              Notisen pushas igen märkt "Rättelse" och ersätter den gamla på låsskärmen.
+            </p>
+          )}
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <p className="font-medium">Historik</p>
+            {history.map(entry => (
+              <div key={entry.id} className="rounded-md border p-2 text-sm">
+                <div className="flex justify-between">
+                  <span>{auditActionLabels[entry.action]}{entry.actorName && ` av ${entry.actorName}`}</span>
+                  <span className="text-muted-foreground">{new Date(entry.createdAt).toLocaleString('sv-SE')}</span>
+                </div>
+                {entry.previous && (
+                  <p className="text-muted-foreground mt-1">
+                    Tidigare: {entry.previous.title}{entry.previous.body && ` – ${markdownToPlainText(entry.previous.body)}`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Stäng
+          </Button>
+          <Button onClick={() => save.mutate()} disabled={!title || !body || save.isPending}>
+            {correction ? "Skicka rättelse" : "Spara"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
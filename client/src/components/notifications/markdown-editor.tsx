@@ -0,0 +1,42 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import Markdown from "@/components/notifications/markdown";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+/**
+ * Textarea for notice bodies with a preview of how residents will see the formatting.
+ */
+export default function MarkdownEditor({ value, onChange, placeholder }: MarkdownEditorProps) {
+  return (
+    <Tabs defaultValue="write">
+      <TabsList>
+        <TabsTrigger value="write">Skriv</TabsTrigger>
+        <TabsTrigger value="preview">Förhandsgranska</TabsTrigger>
+      </TabsList>
+      <TabsContent value="write" className="space-y-1">
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={5}
+        />
+        <p className="text-xs text-muted-foreground">
+          **fetstil**, rader som börjar med "- " eller "1. " blir listor, [text](https://...) blir en länk.
+          Pushnotisen visar texten utan formatering.
+        </p>
+      </TabsContent>
+      <TabsContent value="preview">
+        <div className="min-h-[120px] rounded-md border p-3 text-sm">
+          {value.trim()
+            ? <Markdown source={value} />
+            : <p className="text-muted-foreground">Inget att visa ännu</p>}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
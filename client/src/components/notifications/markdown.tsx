@@ -0,0 +1,68 @@
+import { Fragment } from "react";
+import { parseMarkdown, type MarkdownInline } from "@shared/markdown";
+import { cn } from "@/lib/utils";
+
+function Inline({ parts }: { parts: MarkdownInline[] }) {
+  return (
+    <>
+      {parts.map((part, index) => {
+        switch (part.type) {
+          case "bold":
+            return <strong key={index}>{part.text}</strong>;
+          case "link":
+            return (
+              <a
+                key={index}
+                href={part.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-500 hover:underline"
+                // Links sit inside clickable notice rows
+                onClick={(e) => e.stopPropagation()}
+              >
+                {part.text}
+              </a>
+            );
+          default:
+            return <Fragment key={index}>{part.text}</Fragment>;
+        }
+      })}
+    </>
+  );
+}
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+// Renders a notice body, see shared/markdown.ts for the supported subset
+export default function Markdown({ source, className }: MarkdownProps) {
+  return (
+    <div className={cn("space-y-2", className)}>
+      {parseMarkdown(source).map((block, index) => {
+        if (block.type === "paragraph") {
+          return (
+            <p key={index}>
+              {block.lines.map((line, lineIndex) => (
+                <Fragment key={lineIndex}>
+                  {lineIndex > 0 && <br />}
+                  <Inline parts={line} />
+                </Fragment>
+              ))}
+            </p>
+          );
+        }
+
+        const List = block.ordered ? "ol" : "ul";
+        return (
+          <List key={index} className={cn("pl-5", block.ordered ? "list-decimal" : "list-disc")}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}><Inline parts={item} /></li>
+            ))}
+          </List>
+        );
+      })}
+    </div>
+  );
+}
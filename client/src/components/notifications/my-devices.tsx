@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { getCurrentPushSubscription, unsubscribeFromNotifications } from "@/lib/notifications";
+import { pushPlatformLabels } from "@shared/push";
+import type { PushDevice } from "@shared/schema";
+import { BellRing, Pencil, Trash2 } from "lucide-react";
+
+function formatTime(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleString('sv-SE', { dateStyle: "short", timeStyle: "short" }) : fallback;
+}
+
+interface MyDevicesProps {
+  // Lets the settings page turn its push switch off when this device is removed here
+  onCurrentDeviceRemoved?: () => void;
+}
+
+/**
+ * The devices the resident gets push notices on. Each one can be renamed, sent a test
+ * push or removed, e.g. an old phone that was sold.
+ */
+export default function MyDevices({ onCurrentDeviceRemoved }: MyDevicesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<PushDevice | null>(null);
+  const [name, setName] = useState("");
+
+  const { data: devices } = useQuery<PushDevice[]>({
+    queryKey: ['/api/me/devices'],
+  });
+
+  useEffect(() => {
+    getCurrentPushSubscription()
+      .then(subscription => setCurrentEndpoint(subscription?.endpoint ?? null))
+      .catch(error => console.error('Failed to read push subscription:', error));
+  }, [devices]);
+
+  const rename = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      await apiRequest("PATCH", `/api/me/devices/${id}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/me/devices'] });
+      setRenaming(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att byta namn på enheten"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const test = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/me/devices/${id}/test`);
+      return response.json() as Promise<{ delivered: boolean }>;
+    },
+    onSuccess: ({ delivered }) => {
+      // A refused push deactivates the subscription, so the device may be gone from the list
+      queryClient.invalidateQueries({ queryKey: ['/api/me/devices'] });
+      toast(delivered
+        ? { title: "Klart", description: "En testnotis är skickad. Den bör synas på enheten inom någon minut." }
+        : {
+          title: "Fel",
+          description: "Testnotisen kom inte fram. Slå på notiser igen på enheten.",
+          variant: "destructive",
+        });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att skicka en testnotis"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (device: PushDevice) => {
+      // The browser's own subscription goes too, otherwise the app would register it again
+      if (device.endpoint && device.endpoint === currentEndpoint) {
+        await unsubscribeFromNotifications();
+        return true;
+      }
+      await apiRequest("DELETE", `/api/me/devices/${device.id}`);
+      return false;
+    },
+    onSuccess: (wasCurrent) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/me/devices'] });
+      if (wasCurrent) {
+        onCurrentDeviceRemoved?.();
+      }
+      toast({ title: "Klart", description: "Enheten får inte längre notiser" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att ta bort enheten"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startRename = (device: PushDevice) => {
+    setRenaming(device);
+    setName(device.named ? device.name : "");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mina enheter</CardTitle>
+        <CardDescription>Enheterna som får push-notiser från Bergakungen</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!devices ? (
+          <p className="text-sm text-muted-foreground">Hämtar enheter...</p>
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Inga enheter får push-notiser. Slå på push-notiser ovan för att lägga till den här.
+          </p>
+        ) : (
+          devices.map(device => (
+            <div key={device.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-medium break-words">{device.name}</p>
+                  {device.endpoint && device.endpoint === currentEndpoint && (
+                    <Badge variant="secondary">Den här enheten</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {[device.browser, device.os].filter(Boolean).join(", ") || pushPlatformLabels[device.platform]}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Senast levererad: {formatTime(device.lastDeliveredAt, "Aldrig")}
+                  {device.expiresAt && ` · Gäller till ${formatTime(device.expiresAt, "")}`}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Byt namn"
+                  onClick={() => startRename(device)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Skicka testnotis"
+                  onClick={() => test.mutate(device.id)}
+                  disabled={test.isPending}
+                >
+                  <BellRing className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Ta bort"
+                  onClick={() => remove.mutate(device)}
+                  disabled={remove.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <Dialog open={renaming !== null} onOpenChange={open => !open && setRenaming(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Byt namn på enheten</DialogTitle>
+            </DialogHeader>
+            <form
+              className="space-y-4"
+              onSubmit={event => {
+                event.preventDefault();
+                if (renaming) {
+                  rename.mutate({ id: renaming.id, name });
+                }
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="device-name">Namn</Label>
+                <Input
+                  id="device-name"
+                  value={name}
+                  maxLength={60}
+                  placeholder={renaming?.named ? undefined : renaming?.name}
+                  onChange={event => setName(event.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Lämna tomt för att använda webbläsarens namn</p>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                  Avbryt
+                </Button>
+                <Button type="submit" disabled={rename.isPending}>
+                  Spara
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,171 @@
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { deviceClassLabels, type DeviceClass } from "@shared/push";
+import type { PushAnalytics as Analytics } from "@shared/schema";
+
+const subscribersConfig = {
+  count: { label: "Prenumeranter", color: "hsl(221 83% 53%)" },
+} satisfies ChartConfig;
+
+const deviceClassConfig = {
+  ios: { label: deviceClassLabels.ios, color: "hsl(221 83% 53%)" },
+  android: { label: deviceClassLabels.android, color: "hsl(142 71% 45%)" },
+  desktop: { label: deviceClassLabels.desktop, color: "hsl(38 92% 50%)" },
+  unknown: { label: deviceClassLabels.unknown, color: "hsl(215 16% 65%)" },
+} satisfies Record<DeviceClass, ChartConfig[string]>;
+
+const ratesConfig = {
+  deliveryRate: { label: "Levererade", color: "hsl(221 83% 53%)" },
+  openRate: { label: "Öppnade", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+function percent(part: number, whole: number) {
+  return whole === 0 ? 0 : Math.round((part / whole) * 100);
+}
+
+function shortDate(value: string) {
+  return new Date(value).toLocaleDateString('sv-SE', { day: "numeric", month: "short" });
+}
+
+/**
+ * How far the notices reach: devices subscribed over time, what kind of devices they are,
+ * how many pushes arrive and get opened, and how many apartments have signed up
+ */
+export default function PushAnalytics() {
+  const { data: analytics } = useQuery<Analytics>({
+    queryKey: ['/api/push/analytics'],
+  });
+
+  if (!analytics) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Statistik</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">Hämtar statistik...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { apartments } = analytics;
+  const deviceClasses = analytics.deviceClasses.filter(row => row.count > 0);
+  // Oldest first so the chart reads left to right, notices nobody got a push for are left out
+  const rates = analytics.notices
+    .filter(notice => notice.devices > 0)
+    .reverse()
+    .map(notice => ({
+      title: notice.title,
+      date: shortDate(notice.sentAt),
+      deliveryRate: percent(notice.delivered, notice.devices),
+      openRate: percent(notice.opened, notice.delivered),
+    }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Statistik</CardTitle>
+        <CardDescription>Hur många som nås av notiserna</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium">Lägenheter</h3>
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>Registrerade</span>
+              <span>{apartments.registered} av {apartments.total}</span>
+            </div>
+            <Progress value={percent(apartments.registered, apartments.total)} className="h-2" />
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>Med push-notiser</span>
+              <span>{apartments.withPush} av {apartments.total}</span>
+            </div>
+            <Progress value={percent(apartments.withPush, apartments.total)} className="h-2" />
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium">Aktiva prenumeranter</h3>
+          <ChartContainer config={subscribersConfig} className="aspect-auto h-48 w-full">
+            <AreaChart data={analytics.subscribers} margin={{ left: 0, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={shortDate} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDate} />} />
+              <Area
+                dataKey="count"
+                type="stepAfter"
+                fill="var(--color-count)"
+                fillOpacity={0.2}
+                stroke="var(--color-count)"
+              />
+            </AreaChart>
+          </ChartContainer>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium">Enheter</h3>
+          {deviceClasses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Inga enheter prenumererar än</p>
+          ) : (
+            <ChartContainer config={deviceClassConfig} className="mx-auto aspect-square h-56">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="deviceClass" hideLabel />} />
+                <Pie data={deviceClasses} dataKey="count" nameKey="deviceClass" innerRadius={50}>
+                  {deviceClasses.map(row => (
+                    <Cell key={row.deviceClass} fill={`var(--color-${row.deviceClass})`} />
+                  ))}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="deviceClass" />} />
+              </PieChart>
+            </ChartContainer>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium">Leverans och öppning per notis (%)</h3>
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Inga pushnotiser skickade än</p>
+          ) : (
+            <ChartContainer config={ratesConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={rates} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => payload[0]?.payload.title}
+                      formatter={(value, name) => (
+                        <span>{ratesConfig[name as keyof typeof ratesConfig].label}: {value} %</span>
+                      )}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="deliveryRate" fill="var(--color-deliveryRate)" radius={2} />
+                <Bar dataKey="openRate" fill="var(--color-openRate)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Öppnade räknas av de levererade, när någon trycker på pushnotisen.
+          </p>
+        </section>
+      </CardContent>
+    </Card>
+  );
+}
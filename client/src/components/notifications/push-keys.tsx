@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { KeyRound } from "lucide-react";
+
+interface PushKeyStatus {
+  publicKey: string | null;
+  source: "database" | "environment" | null;
+  createdAt: string | null;
+}
+
+/**
+ * The VAPID keys pushes are signed with. Admins generate the first pair here, or a new one
+ * if the private key may have leaked.
+ */
+export default function PushKeys() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirming, setConfirming] = useState(false);
+
+  const { data: status } = useQuery<PushKeyStatus>({
+    queryKey: ['/api/push/keys'],
+  });
+
+  const rotate = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/push/keys/rotate");
+      return response.json() as Promise<PushKeyStatus>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/push/keys'], result);
+      setConfirming(false);
+      toast({
+        title: "Klart",
+        description: "Nya nycklar är skapade. Enheterna prenumererar på nytt nästa gång appen öppnas.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att skapa nya nycklar"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const configured = !!status?.publicKey;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pushnycklar</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!status ? (
+          <p className="text-sm text-muted-foreground">Hämtar nycklar...</p>
+        ) : configured ? (
+          <div className="space-y-1 text-sm">
+            <p className="break-all font-mono text-xs">{status.publicKey}</p>
+            <p className="text-muted-foreground">
+              {status.source === "environment"
+                ? "Från serverns miljövariabler"
+                : `Skapade ${new Date(status.createdAt!).toLocaleString('sv-SE')}`}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Inga nycklar finns, så inga pushnotiser kan skickas. Notiserna syns ändå i appen.
+          </p>
+        )}
+
+        <Button
+          variant={configured ? "outline" : "default"}
+          onClick={() => configured ? setConfirming(true) : rotate.mutate()}
+          disabled={rotate.isPending}
+        >
+          <KeyRound className="mr-2 h-4 w-4" />
+          {configured ? "Byt nycklar" : "Skapa nycklar"}
+        </Button>
+
+        <AlertDialog open={confirming} onOpenChange={setConfirming}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Byta pushnycklar?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Alla enheter slutar få pushnotiser tills de öppnat appen igen och prenumererat med de nya nycklarna.
+                Gör bara detta om den privata nyckeln kan ha kommit ut.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Avbryt</AlertDialogCancel>
+              <AlertDialogAction onClick={() => rotate.mutate()}>
+                Byt nycklar
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_PUSH_TTL,
+  MAX_PUSH_ACTIONS,
+  pushActionLabels,
+  pushActions,
+  pushTtlOptions,
+  pushUrgencies,
+  pushUrgencyLabels,
+  type PushAction,
+  type PushUrgency,
+} from "@shared/push";
+
+export interface PushOptions {
+  imageUrl: string;
+  actions: PushAction[];
+  ttlSeconds: number;
+  urgency: PushUrgency;
+  topic: string;
+}
+
+export const defaultPushOptions: PushOptions = {
+  imageUrl: "",
+  actions: [],
+  ttlSeconds: DEFAULT_PUSH_TTL,
+  urgency: "normal",
+  topic: "",
+};
+
+// Request body fields for /api/notifications/send, empty inputs are left out
+export function buildPushOptions(options: PushOptions) {
+  return {
+    imageUrl: options.imageUrl.trim() || null,
+    actions: options.actions,
+    ttlSeconds: options.ttlSeconds,
+    urgency: options.urgency,
+    topic: options.topic.trim() || null,
+  };
+}
+
+interface PushOptionsFieldsProps {
+  value: PushOptions;
+  onChange: (value: PushOptions) => void;
+  hasLink: boolean;
+  // Critical alerts are always sent with high urgency
+  critical: boolean;
+}
+
+export default function PushOptionsFields({ value, onChange, hasLink, critical }: PushOptionsFieldsProps) {
+  const update = (changes: Partial<PushOptions>) => onChange({ ...value, ...changes });
+
+  const toggleAction = (action: PushAction, checked: boolean) => {
+    update({
+      actions: checked
+        ? [...value.actions, action].slice(0, MAX_PUSH_ACTIONS)
+        : value.actions.filter(existing => existing !== action),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Bild (valfritt)</Label>
+        <Input
+          placeholder="https://..."
+          value={value.imageUrl}
+          onChange={(e) => update({ imageUrl: e.target.value })}
+        />
+        <p className="text-sm text-muted-foreground">
+          Visas stort i notisen på Android och datorer, inte på iPhone.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Knappar</Label>
+        {pushActions.map(action => {
+          const disabled = action === "open_link" && !hasLink;
+          return (
+            <div key={action} className="flex items-center gap-2">
+              <Checkbox
+                id={`push-action-${action}`}
+                checked={value.actions.includes(action)}
+                onCheckedChange={(checked) => toggleAction(action, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`push-action-${action}`} className={disabled ? "text-muted-foreground" : undefined}>
+                {pushActionLabels[action]}
+                {disabled && " (kräver en länk)"}
+              </Label>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Giltig i</Label>
+          <Select value={String(value.ttlSeconds)} onValueChange={(ttl) => update({ ttlSeconds: Number(ttl) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pushTtlOptions.map(option => (
+                <SelectItem key={option.seconds} value={String(option.seconds)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!critical && (
+          <div className="space-y-2">
+            <Label>Prioritet</Label>
+            <Select value={value.urgency} onValueChange={(urgency) => update({ urgency: urgency as PushUrgency })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pushUrgencies.map(urgency => (
+                  <SelectItem key={urgency} value={urgency}>{pushUrgencyLabels[urgency]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Telefoner som är avstängda längre än giltighetstiden får aldrig notisen.
+      </p>
+
+      <div className="space-y-2">
+        <Label>Ämne (valfritt)</Label>
+        <Input
+          placeholder="exempelvis vattenavstangning"
+          value={value.topic}
+          onChange={(e) => update({ topic: e.target.value })}
+        />
+        <p className="text-sm text-muted-foreground">
+          En ny notis med samma ämne ersätter den förra på låsskärmen, t.ex. för en rättelse.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { recurrencePresets, type RecurrencePreset } from "@/lib/schedule";
+
+interface ScheduleFieldsProps {
+  scheduledAt: string;
+  onScheduledAtChange: (value: string) => void;
+  preset: RecurrencePreset;
+  onPresetChange: (value: RecurrencePreset) => void;
+  until: string;
+  onUntilChange: (value: string) => void;
+}
+
+export default function ScheduleFields({
+  scheduledAt,
+  onScheduledAtChange,
+  preset,
+  onPresetChange,
+  until,
+  onUntilChange,
+}: ScheduleFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Skickas</Label>
+        <Input
+          type="datetime-local"
+          value={scheduledAt}
+          onChange={(e) => onScheduledAtChange(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Upprepning</Label>
+        <Select value={preset} onValueChange={(value) => onPresetChange(value as RecurrencePreset)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(recurrencePresets) as RecurrencePreset[]).map(key => (
+              <SelectItem key={key} value={key}>{recurrencePresets[key].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {preset !== "none" && (
+        <div className="space-y-2">
+          <Label>Sista datum (valfritt)</Label>
+          <Input
+            type="date"
+            value={until}
+            onChange={(e) => onUntilChange(e.target.value)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
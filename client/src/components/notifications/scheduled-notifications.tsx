@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import MarkdownEditor from "@/components/notifications/markdown-editor";
+import ScheduleFields from "@/components/notifications/schedule-fields";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import {
+  buildSchedule,
+  describeRecurrence,
+  presetFromRecurrence,
+  toDateInput,
+  toDateTimeLocal,
+  type RecurrencePreset,
+} from "@/lib/schedule";
+import { describeAudience } from "@shared/audience";
+import CategoryBadge from "@/components/notifications/category-badge";
+import Markdown from "@/components/notifications/markdown";
+import type { Notification } from "@shared/schema";
+import { CalendarClock, Pencil, XCircle } from "lucide-react";
+
+interface EditState {
+  id: number;
+  title: string;
+  body: string;
+  link: string;
+  scheduledAt: string;
+  preset: RecurrencePreset;
+  until: string;
+}
+
+export default function ScheduledNotifications() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<EditState | null>(null);
+
+  const { data: scheduled = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications/scheduled'],
+    refetchInterval: 60000,
+  });
+
+  const saveEdit = useMutation({
+    mutationFn: async (state: EditState) => {
+      const schedule = buildSchedule(state.scheduledAt, state.preset, state.until);
+      await apiRequest("PATCH", `/api/notifications/scheduled/${state.id}`, {
+        title: state.title,
+        body: state.body,
+        link: state.link || null,
+        ...schedule,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/scheduled'] });
+      setEditing(null);
+      toast({
+        title: "Klart",
+        description: "Den schemalagda notisen har uppdaterats",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att spara ändringarna"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancel = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/notifications/scheduled/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/scheduled'] });
+      toast({
+        title: "Klart",
+        description: "Utskicket har avbrutits",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att avbryta utskicket"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (notification: Notification) => {
+    setEditing({
+      id: notification.id,
+      title: notification.title,
+      body: notification.body || "",
+      link: notification.link || "",
+      scheduledAt: notification.scheduledAt ? toDateTimeLocal(notification.scheduledAt) : "",
+      preset: presetFromRecurrence(notification.recurrence),
+      until: notification.recurrence?.until ? toDateInput(notification.recurrence.until) : "",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Schemalagda notiser</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {scheduled.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Inga schemalagda utskick</p>
+        ) : (
+          <div className="space-y-2">
+            {scheduled.map(notification => (
+              <div
+                key={notification.id}
+                className="flex justify-between p-3 rounded-lg bg-accent"
+              >
+                <div className="flex-grow mr-4">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{notification.title}</p>
+                    <CategoryBadge category={notification.category} />
+                  </div>
+                  {notification.body && (
+                    <Markdown source={notification.body} className="text-sm mt-1" />
+                  )}
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                    <CalendarClock className="h-3 w-3" />
+                    {notification.scheduledAt && new Date(notification.scheduledAt).toLocaleString('sv-SE')}
+                    {" · "}
+                    {describeRecurrence(notification.recurrence)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeAudience(notification.audience)}
+                  </p>
+                </div>
+                <div className="flex flex-col gap-2 items-end">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Redigera"
+                    onClick={() => startEditing(notification)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Avbryt utskick"
+                    onClick={() => cancel.mutate(notification.id)}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    <XCircle className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Redigera schemalagd notis</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label>Titel</Label>
+                <Input
+                  value={editing.title}
+                  onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Meddelande</Label>
+                <MarkdownEditor
+                  value={editing.body}
+                  onChange={(body) => setEditing({ ...editing, body })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Länk (valfritt)</Label>
+                <Input
+                  value={editing.link}
+                  placeholder="https://..."
+                  onChange={(e) => setEditing({ ...editing, link: e.target.value })}
+                />
+              </div>
+              <ScheduleFields
+                scheduledAt={editing.scheduledAt}
+                onScheduledAtChange={(scheduledAt) => setEditing({ ...editing, scheduledAt })}
+                preset={editing.preset}
+                onPresetChange={(preset) => setEditing({ ...editing, preset })}
+                until={editing.until}
+                onUntilChange={(until) => setEditing({ ...editing, until })}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Stäng
+            </Button>
+            <Button
+              onClick={() => editing && saveEdit.mutate(editing)}
+              disabled={!editing?.title || !editing?.body || !editing?.scheduledAt || saveEdit.isPending}
+            >
+              Spara
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,51 +1,38 @@
-import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import type { UserRole } from "@shared/schema";
 
-interface AdminAuthState {
-  isAuthenticated: boolean;
-  login: (password: string) => boolean;
-  logout: () => void;
-  resetAuth: () => void;
+export interface CurrentUser {
+  email: string;
+  displayName: string | null;
+  apartmentNumber: string | null;
+  port: string | null;
+  phoneNumber: string | null;
+  role: UserRole;
 }
 
-// In a real application, this would be properly hashed and stored securely
-// IMPORTANT: The admin password is 'Bergakungen2025'
-const ADMIN_PASSWORD = 'Bergakungen2025';
+// Admin access used to be a client-side password persisted under this key
+if (typeof window !== 'undefined') {
+  localStorage.removeItem('admin-auth');
+}
+
+/**
+ * Derives admin access from the server session. The server enforces the
+ * same roles on every protected route, this only decides what to render.
+ */
+export function useAdminAuth() {
+  const { data: user, isLoading } = useQuery<CurrentUser | null>({
+    queryKey: ['/api/profile'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
-export const useAdminAuth = create<AdminAuthState>()(
-  persist(
-    (set) => ({
-      isAuthenticated: false,
-      login: (password: string) => {
-        console.log('Attempting login with password:', password);
-        // Trim any whitespace from the password
-        const trimmedPassword = password.trim();
-        const isValid = trimmedPassword === ADMIN_PASSWORD;
-        console.log('Password valid:', isValid);
-        
-        if (isValid) {
-          set({ isAuthenticated: true });
-        }
-        return isValid;
-      },
-      logout: () => set({ isAuthenticated: false }),
-      resetAuth: () => {
-        // Reset authentication state and clear storage
-        set({ isAuthenticated: false });
-        if (typeof window !== 'undefined') {
-          localStorage.removeItem('admin-auth');
-        }
-      },
-    }),
-    {
-      name: 'admin-auth',
-      // Make sure we use a custom merge strategy
-      merge: (persistedState: any, currentState) => {
-        return {
-          ...currentState,
-          ...persistedState,
-        };
-      }
-    }
-  )
-);
\ No newline at end of file
+  const role = user?.role;
+
+  return {
+    user: user ?? null,
+    isLoading,
+    isLoggedIn: !!user,
+    isBoard: role === "board" || role === "admin",
+    isAdmin: role === "admin",
+  };
+}
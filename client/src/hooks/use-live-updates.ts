@@ -0,0 +1,140 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import type { Notification, NotificationWithReadState } from "@shared/schema";
+import type { LiveUpdate } from "@shared/live-updates";
+
+// Used when the browser gave up on the stream, e.g. after a server restart
+const RECONNECT_MIN_MS = 2000;
+const RECONNECT_MAX_MS = 60000;
+
+function updateList<T extends { id: number }>(queryKey: string, update: (list: T[]) => T[]) {
+  queryClient.setQueryData<T[]>([queryKey], list => list && update(list));
+}
+
+function applyUpdate(update: LiveUpdate) {
+  switch (update.type) {
+    case "notification.created": {
+      const { notification, listed } = update;
+      if (listed) {
+        updateList<NotificationWithReadState>('/api/notifications', list =>
+          list.some(existing => existing.id === notification.id) ? list : [notification, ...list]);
+        if (notification.critical) {
+          queryClient.invalidateQueries({ queryKey: ['/api/notifications/critical/active'] });
+        }
+      }
+      const { read, acknowledged, attachments, ...plain } = notification;
+      updateList<Notification>('/api/notifications/all', list =>
+        list.some(existing => existing.id === plain.id) ? list : [plain, ...list]);
+      break;
+    }
+
+    case "notification.updated": {
+      const { notification, listed } = update;
+      // Read state and attachments don't change when a notice is edited
+      if (listed) {
+        updateList<NotificationWithReadState>('/api/notifications', list =>
+          list.map(existing => existing.id === notification.id ? { ...existing, ...notification } : existing));
+        queryClient.setQueryData<NotificationWithReadState>([`/api/notifications/${notification.id}`], existing =>
+          existing && { ...existing, ...notification });
+      }
+      updateList<Notification>('/api/notifications/all', list =>
+        list.map(existing => existing.id === notification.id ? notification : existing));
+      break;
+    }
+
+    case "notification.removed": {
+      if (update.listed) {
+        updateList<NotificationWithReadState>('/api/notifications', list => list.filter(existing => existing.id !== update.id));
+        updateList<Notification>('/api/notifications/critical/active', list => list.filter(existing => existing.id !== update.id));
+        // The details page shows that the notice was recalled
+        queryClient.invalidateQueries({ queryKey: [`/api/notifications/${update.id}`] });
+      }
+      updateList<Notification>('/api/notifications/all', list => list.filter(existing => existing.id !== update.id));
+      break;
+    }
+
+    case "notification.acknowledged": {
+      updateList<NotificationWithReadState>('/api/notifications', list =>
+        list.map(existing => existing.id === update.id ? { ...existing, acknowledged: true } : existing));
+      updateList<Notification>('/api/notifications/critical/active', list => list.filter(existing => existing.id !== update.id));
+      queryClient.setQueryData<NotificationWithReadState>([`/api/notifications/${update.id}`], existing =>
+        existing && { ...existing, acknowledged: true });
+      break;
+    }
+
+    case "unread-count": {
+      queryClient.setQueryData(['/api/notifications/unread-count'], { count: update.count });
+      const read = update.read;
+      if (read) {
+        updateList<NotificationWithReadState>('/api/notifications', list =>
+          list.map(existing => read === "all" || read.includes(existing.id) ? { ...existing, read: true } : existing));
+      }
+      break;
+    }
+
+    case "resync": {
+      queryClient.invalidateQueries({
+        predicate: query => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith('/api/notifications'),
+      });
+      break;
+    }
+  }
+}
+
+/**
+ * Keeps the notice lists, unread count and alerts of an open tab in step with the server
+ * over /api/live, without polling. Missed events are replayed from the last event id after
+ * a reconnect.
+ */
+export function useLiveUpdates() {
+  const { isLoggedIn } = useAdminAuth();
+
+  useEffect(() => {
+    if (!isLoggedIn || typeof EventSource === "undefined") {
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let lastEventId = "";
+    let retryDelay = RECONNECT_MIN_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      // A new EventSource can't set Last-Event-ID itself, the server also reads it from the URL
+      const url = lastEventId ? `/api/live?lastEventId=${encodeURIComponent(lastEventId)}` : '/api/live';
+      source = new EventSource(url, { withCredentials: true });
+
+      source.onopen = () => {
+        retryDelay = RECONNECT_MIN_MS;
+      };
+
+      source.onmessage = (event) => {
+        lastEventId = event.lastEventId || lastEventId;
+        try {
+          applyUpdate(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Failed to apply live update:', error);
+        }
+      };
+
+      source.onerror = () => {
+        // The browser retries dropped connections itself, but not refused ones
+        if (source?.readyState !== EventSource.CLOSED || stopped) {
+          return;
+        }
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [isLoggedIn]);
+}
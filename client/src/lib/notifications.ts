@@ -123,6 +123,44 @@ export async function clearAppBadge(): Promise<void> {
   }
 }
 
+/**
+ * Asks the service worker to drop cached attachments and API answers, so the next person
+ * to log in on this device can't open them
+ */
+export async function clearCachedUserData(): Promise<void> {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: 'CLEAR_USER_DATA' });
+}
+
+/**
+ * Fetches the logged-in user's unread count, which is the only source for the badge number
+ */
+export async function fetchUnreadCount(): Promise<number> {
+  const response = await fetch('/api/notifications/unread-count', {
+    credentials: 'include',
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch unread count: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return typeof data.count === 'number' ? data.count : 0;
+}
+
+/**
+ * Sets the app badge to the server's unread count, clearing it at zero
+ * @returns The unread count the badge was set to
+ */
+export async function syncAppBadge(): Promise<number> {
+  const count = await fetchUnreadCount();
+  await setAppBadge(count);
+  return count;
+}
+
 /**
  * Detects if we're running on iOS and provides detailed version information
  */
@@ -269,17 +307,29 @@ export async function requestNotificationPermission() {
   }
 }
 
-export async function subscribeToNotifications() {
-  // Check if VAPID public key is configured
-  if (!import.meta.env.VITE_VAPID_PUBLIC_KEY) {
-    console.error("VAPID_PUBLIC_KEY saknas");
+/**
+ * The server's current VAPID public key. Fetched when needed rather than built into the
+ * app, so the keys can be rotated without a new release.
+ */
+export async function fetchVapidPublicKey(): Promise<string> {
+  const response = await fetch("/api/push/public-key", {
+    credentials: "include",
+    cache: "no-store",
+  });
+
+  if (response.status === 503) {
     throw new Error("Push-notiser är inte konfigurerade på servern.");
   }
+  if (!response.ok) {
+    throw new Error(`Det gick inte att hämta servernyckeln: ${response.status} ${response.statusText}`);
+  }
 
-  // Log VAPID key (masked for security) to confirm it's available
-  const vapidKeyStart = import.meta.env.VITE_VAPID_PUBLIC_KEY.substring(0, 6);
-  const vapidKeyEnd = import.meta.env.VITE_VAPID_PUBLIC_KEY.substring(import.meta.env.VITE_VAPID_PUBLIC_KEY.length - 6);
-  console.log(`VAPID nyckel är tillgänglig: ${vapidKeyStart}...${vapidKeyEnd}`);
+  const { publicKey } = await response.json();
+  return publicKey;
+}
+
+export async function subscribeToNotifications() {
+  const vapidPublicKey = await fetchVapidPublicKey();
 
   // Verify device support first
   if (!isPushNotificationSupported()) {
@@ -318,16 +368,18 @@ export async function subscribeToNotifications() {
     const registration = await navigator.serviceWorker.ready;
     console.log('Service Worker är redo');
 
-    // Check for existing subscription to avoid re-subscribing
+    // Check for existing subscription to avoid re-subscribing. It is still sent to the
+    // server so the device is tied to whoever is logged in now.
     const existingSubscription = await registration.pushManager.getSubscription();
     if (existingSubscription) {
       console.log('Använder befintlig push-prenumeration');
+      await registerSubscription(existingSubscription);
       return existingSubscription;
     }
 
     // Create new subscription with properly formatted application server key
     console.log("Skapar ny push-prenumeration...");
-    const applicationServerKey = urlBase64ToUint8Array(import.meta.env.VITE_VAPID_PUBLIC_KEY);
+    const applicationServerKey = urlBase64ToUint8Array(vapidPublicKey);
     
     const subscription = await registration.pushManager.subscribe({
       userVisibleOnly: true,
@@ -336,27 +388,7 @@ export async function subscribeToNotifications() {
 
     console.log('Push-prenumeration skapad:', subscription);
 
-    // Use a hardcoded ID for now to simplify testing
-    // Note: In a real app, this would use the logged-in user's ID
-    const userId = 1;
-
-    console.log("Registrerar prenumerationen på servern...");
-    const response = await fetch("/api/notifications/subscribe", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        userId: userId,
-        subscription: subscription.toJSON(),
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Serverfel:", errorText);
-      throw new Error(`Det gick inte att registrera push-notiser: ${response.status} ${response.statusText}`);
-    }
+    await registerSubscription(subscription);
 
     console.log("Push-notiser aktiverade framgångsrikt!");
     return subscription;
@@ -364,4 +396,145 @@ export async function subscribeToNotifications() {
     console.error('Prenumerationsfel:', error);
     throw new Error("Det gick inte att prenumerera på push-notiser: " + (error.message || error));
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Stores the subscription on the server for the logged-in user. Sending the same
+ * subscription again is harmless, the server keys it on the endpoint.
+ */
+export async function registerSubscription(subscription: PushSubscription): Promise<void> {
+  console.log("Registrerar prenumerationen på servern...");
+  const response = await fetch("/api/notifications/subscribe", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({
+      subscription: subscription.toJSON(),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Serverfel:", errorText);
+    if (response.status === 401) {
+      throw new Error("Du måste vara inloggad för att aktivera push-notiser");
+    }
+    throw new Error(`Det gick inte att registrera push-notiser: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Returns this browser's push subscription, if it has one
+ */
+export async function getCurrentPushSubscription(): Promise<PushSubscription | null> {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+    return null;
+  }
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Stops push notices to this device, both on the server and in the browser
+ */
+export async function unsubscribeFromNotifications(): Promise<void> {
+  const subscription = await getCurrentPushSubscription();
+  if (!subscription) {
+    return;
+  }
+
+  const response = await fetch("/api/notifications/subscribe", {
+    method: "DELETE",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+
+  // 404 means the server had already dropped it, the browser side still needs cleaning up
+  if (!response.ok && response.status !== 404) {
+    const errorText = await response.text();
+    console.error("Serverfel:", errorText);
+    throw new Error(`Det gick inte att avsluta push-notiser: ${response.status} ${response.statusText}`);
+  }
+
+  await subscription.unsubscribe();
+  console.log("Push-notiser avaktiverade");
+}
+
+// Browsers that don't expose the key the subscription was made with are left alone
+export function subscribedWithKey(subscription: PushSubscription, publicKey: string): boolean {
+  const current = subscription.options.applicationServerKey;
+  if (!current) {
+    return true;
+  }
+
+  const subscribed = new Uint8Array(current);
+  const expected = urlBase64ToUint8Array(publicKey);
+  return subscribed.length === expected.length && subscribed.every((byte, i) => byte === expected[i]);
+}
+
+// Renewed ahead of time, like the server's expiry warning in server/subscription-expiry.ts
+const RENEW_BEFORE_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Tells the server which subscription replaces an old one, the device keeps its row there
+ */
+async function reportSubscriptionChange(oldEndpoint: string, subscription: PushSubscription): Promise<void> {
+  const response = await fetch("/api/push/subscription-change", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({
+      oldEndpoint,
+      subscription: subscription.toJSON(),
+    }),
+  });
+
+  // The server never had the old one, store the new one as a fresh device
+  if (response.status === 404) {
+    await registerSubscription(subscription);
+    return;
+  }
+  if (!response.ok) {
+    throw new Error(`Det gick inte att förnya push-notiser: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Run when the app starts. Subscribes this device again when the server's VAPID keys were
+ * rotated since it subscribed, or when the subscription is about to expire, and otherwise
+ * makes sure the server has the subscription the browser holds now. Returns whether the
+ * device was resubscribed.
+ */
+export async function renewPushSubscription(): Promise<boolean> {
+  const subscription = await getCurrentPushSubscription();
+  if (!subscription || Notification.permission !== "granted") {
+    return false;
+  }
+
+  const publicKey = await fetchVapidPublicKey();
+  const expiring = subscription.expirationTime !== null && subscription.expirationTime - Date.now() < RENEW_BEFORE_MS;
+  if (subscribedWithKey(subscription, publicKey) && !expiring) {
+    // Cheap, and picks up a subscription the service worker couldn't report
+    await registerSubscription(subscription);
+    return false;
+  }
+
+  console.log(expiring ? "Prenumerationen går snart ut, förnyar..." : "Servernyckeln har bytts, prenumererar på nytt...");
+  const oldEndpoint = subscription.endpoint;
+  // A subscription with another key can't be replaced in place, the old one has to go first
+  await subscription.unsubscribe();
+  const registration = await navigator.serviceWorker.ready;
+  const fresh = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey),
+  });
+  await reportSubscriptionChange(oldEndpoint, fresh);
+  return true;
+}
@@ -22,8 +22,10 @@ export function ProtectedRoute({
         return res.json();
       })
       .catch(() => {
-        // If there's an error or unauthorized, redirect to auth
-        setLocation("/auth");
+        // If there's an error or unauthorized, redirect to auth and come back here after login,
+        // so shared links to a notice still work for residents who aren't logged in
+        const next = window.location.pathname + window.location.search;
+        setLocation(`/auth?next=${encodeURIComponent(next)}`);
       });
   }, [setLocation]);
 
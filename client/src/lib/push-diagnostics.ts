@@ -0,0 +1,159 @@
+import { parseUserAgent } from "@shared/push";
+import type { PushDevice } from "@shared/schema";
+import { fetchVapidPublicKey, isBadgingSupported, isIOS, subscribedWithKey } from "@/lib/notifications";
+
+// An installing or broken service worker may never answer
+const WORKER_TIMEOUT_MS = 3000;
+
+interface WorkerDiagnostics {
+  version: string;
+  scope: string;
+  badgeSupported: boolean;
+  lastPush: { receivedAt: string; title: string | null; tag: string | null; type: string | null } | null;
+}
+
+export interface PushDiagnostics {
+  collectedAt: string;
+  userAgent: string;
+  browser: string | null;
+  os: string | null;
+  ios: boolean;
+  standalone: boolean;
+  online: boolean;
+  permission: NotificationPermission | "unsupported";
+  pushSupported: boolean;
+  badgeSupported: boolean;
+  workerBadgeSupported: boolean | null;
+  // null when no service worker is registered at all
+  worker: { state: string; controlling: boolean; updateWaiting: boolean; version: string | null; scope: string } | null;
+  subscription: { endpointHost: string; expiresAt: string | null; registered: boolean; keyMatches: boolean | null } | null;
+  serverKey: "configured" | "missing" | "unreachable";
+  lastPush: WorkerDiagnostics["lastPush"];
+}
+
+function askWorker(worker: ServiceWorker): Promise<WorkerDiagnostics | null> {
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(null), WORKER_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(event.data);
+    };
+    worker.postMessage({ type: 'GET_DIAGNOSTICS' }, [channel.port2]);
+  });
+}
+
+async function fetchServerKey(): Promise<{ status: PushDiagnostics["serverKey"]; publicKey: string | null }> {
+  try {
+    return { status: "configured", publicKey: await fetchVapidPublicKey() };
+  } catch (error) {
+    const missing = error instanceof Error && error.message.includes("inte konfigurerade");
+    return { status: missing ? "missing" : "unreachable", publicKey: null };
+  }
+}
+
+/**
+ * Everything that decides whether pushes reach this device, gathered without changing any
+ * of it. Reads the registration directly instead of waiting for navigator.serviceWorker.ready,
+ * which never settles when the worker failed to install.
+ */
+export async function collectPushDiagnostics(devices: PushDevice[] | undefined): Promise<PushDiagnostics> {
+  const { browser, os } = parseUserAgent(navigator.userAgent);
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  const active = registration?.active ?? null;
+  const fromWorker = active ? await askWorker(active) : null;
+
+  const subscription = registration && 'pushManager' in registration
+    ? await registration.pushManager.getSubscription()
+    : null;
+  const serverKey = await fetchServerKey();
+
+  return {
+    collectedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    browser,
+    os,
+    ios: isIOS(),
+    standalone: window.matchMedia('(display-mode: standalone)').matches || (navigator as any).standalone === true,
+    online: navigator.onLine,
+    permission: 'Notification' in window ? Notification.permission : "unsupported",
+    pushSupported: 'serviceWorker' in navigator && 'PushManager' in window,
+    badgeSupported: isBadgingSupported(),
+    workerBadgeSupported: fromWorker?.badgeSupported ?? null,
+    worker: registration ? {
+      state: active?.state ?? (registration.installing ? "installing" : "none"),
+      controlling: !!navigator.serviceWorker.controller,
+      updateWaiting: !!registration.waiting,
+      version: fromWorker?.version ?? null,
+      scope: registration.scope,
+    } : null,
+    subscription: subscription ? {
+      // The rest of the endpoint identifies the device, it stays out of the report
+      endpointHost: new URL(subscription.endpoint).host,
+      expiresAt: subscription.expirationTime ? new Date(subscription.expirationTime).toISOString() : null,
+      registered: !!devices?.some(device => device.endpoint === subscription.endpoint),
+      keyMatches: serverKey.publicKey ? subscribedWithKey(subscription, serverKey.publicKey) : null,
+    } : null,
+    serverKey: serverKey.status,
+    lastPush: fromWorker?.lastPush ?? null,
+  };
+}
+
+function yesNo(value: boolean | null) {
+  return value === null ? "okänt" : value ? "ja" : "nej";
+}
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString('sv-SE') : "aldrig";
+}
+
+const permissionLabels: Record<PushDiagnostics["permission"], string> = {
+  granted: "tillåten",
+  denied: "nekad",
+  default: "inte tillfrågad",
+  unsupported: "stöds inte",
+};
+
+const serverKeyLabels: Record<PushDiagnostics["serverKey"], string> = {
+  configured: "finns",
+  missing: "saknas",
+  unreachable: "kunde inte hämtas",
+};
+
+/**
+ * The rows shown on the diagnostics page, also used for the copyable report so both say
+ * the same thing
+ */
+export function diagnosticsRows(diagnostics: PushDiagnostics): Array<{ label: string; value: string; ok?: boolean }> {
+  const { worker, subscription } = diagnostics;
+  return [
+    { label: "Webbläsare", value: [diagnostics.browser, diagnostics.os].filter(Boolean).join(" på ") || "okänd" },
+    { label: "Installerad på hemskärmen", value: yesNo(diagnostics.standalone), ok: diagnostics.ios ? diagnostics.standalone : undefined },
+    { label: "Uppkopplad", value: yesNo(diagnostics.online), ok: diagnostics.online },
+    { label: "Behörighet för notiser", value: permissionLabels[diagnostics.permission], ok: diagnostics.permission === "granted" },
+    { label: "Stöd för push", value: yesNo(diagnostics.pushSupported), ok: diagnostics.pushSupported },
+    { label: "Service worker", value: worker ? worker.state : "saknas", ok: worker?.state === "activated" },
+    { label: "Service worker-version", value: worker?.version ?? "okänd" },
+    { label: "Styr sidan", value: yesNo(worker ? worker.controlling : null) },
+    { label: "Uppdatering väntar", value: yesNo(worker ? worker.updateWaiting : null) },
+    { label: "Prenumeration", value: subscription ? subscription.endpointHost : "saknas", ok: !!subscription },
+    { label: "Känd av servern", value: yesNo(subscription ? subscription.registered : null), ok: subscription?.registered },
+    { label: "Prenumerationen gäller till", value: subscription?.expiresAt ? formatTime(subscription.expiresAt) : "tills vidare" },
+    { label: "Serverns pushnycklar", value: serverKeyLabels[diagnostics.serverKey], ok: diagnostics.serverKey === "configured" },
+    { label: "Nycklarna stämmer", value: yesNo(subscription ? subscription.keyMatches : null), ok: subscription?.keyMatches ?? undefined },
+    { label: "Badge på appikonen", value: yesNo(diagnostics.badgeSupported || (diagnostics.workerBadgeSupported ?? false)) },
+    { label: "Senaste push", value: diagnostics.lastPush ? `${formatTime(diagnostics.lastPush.receivedAt)}${diagnostics.lastPush.title ? ` (${diagnostics.lastPush.title})` : ""}` : "aldrig" },
+  ];
+}
+
+/**
+ * Plain text for residents to paste into a message to the board
+ */
+export function formatDiagnosticsReport(diagnostics: PushDiagnostics): string {
+  return [
+    "Bergakungen, felsökning av notiser",
+    `Tid: ${formatTime(diagnostics.collectedAt)}`,
+    ...diagnosticsRows(diagnostics).map(row => `${row.label}: ${row.value}${row.ok === false ? " (!)" : ""}`),
+    `User agent: ${diagnostics.userAgent}`,
+  ].join("\n");
+}
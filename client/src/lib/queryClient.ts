@@ -7,6 +7,22 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest throws "<status>: <body>"; pull the server's message out of a JSON body
+export function getApiErrorMessage(error: unknown, fallback = "Något gick fel"): string {
+  const message = error instanceof Error ? error.message : "";
+  const match = /^\d+: ([\s\S]*)$/.exec(message);
+  if (!match) {
+    return message || fallback;
+  }
+
+  try {
+    const body = JSON.parse(match[1]);
+    return body.message || body.error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -23,6 +39,22 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as the raw request body, the endpoint reads its name from X-File-Name
+export async function uploadFile(url: string, file: File): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type,
+      "X-File-Name": encodeURIComponent(file.name),
+    },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
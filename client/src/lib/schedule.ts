@@ -0,0 +1,59 @@
+import type { Recurrence } from "@shared/schema";
+
+export type RecurrencePreset = "none" | "daily" | "weekly" | "biweekly" | "monthly";
+
+export const recurrencePresets: Record<RecurrencePreset, { label: string; value: Omit<Recurrence, "until"> | null }> = {
+  none: { label: "Skickas en gång", value: null },
+  daily: { label: "Varje dag", value: { frequency: "daily", interval: 1 } },
+  weekly: { label: "Varje vecka", value: { frequency: "weekly", interval: 1 } },
+  biweekly: { label: "Varannan vecka", value: { frequency: "weekly", interval: 2 } },
+  monthly: { label: "Varje månad", value: { frequency: "monthly", interval: 1 } },
+};
+
+export function presetFromRecurrence(recurrence: Recurrence | null | undefined): RecurrencePreset {
+  if (!recurrence) {
+    return "none";
+  }
+  const match = (Object.keys(recurrencePresets) as RecurrencePreset[]).find(key => {
+    const value = recurrencePresets[key].value;
+    return value && value.frequency === recurrence.frequency && value.interval === recurrence.interval;
+  });
+  return match ?? "none";
+}
+
+export function describeRecurrence(recurrence: Recurrence | null | undefined): string {
+  const preset = presetFromRecurrence(recurrence);
+  if (!recurrence || preset === "none") {
+    return recurrencePresets.none.label;
+  }
+
+  const label = recurrencePresets[preset].label;
+  return recurrence.until
+    ? `${label} t.o.m. ${new Date(recurrence.until).toLocaleDateString('sv-SE')}`
+    : label;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export function toDateTimeLocal(date: Date | string): string {
+  const d = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function toDateInput(date: Date | string): string {
+  return toDateTimeLocal(date).slice(0, 10);
+}
+
+/**
+ * Builds the scheduledAt/recurrence part of a send request from form values.
+ * The until date is inclusive, so it is sent as the end of that day.
+ */
+export function buildSchedule(scheduledAt: string, preset: RecurrencePreset, until: string) {
+  const recurrence = recurrencePresets[preset].value;
+  return {
+    scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+    recurrence: recurrence
+      ? { ...recurrence, ...(until ? { until: new Date(`${until}T23:59:59`).toISOString() } : {}) }
+      : null,
+  };
+}
@@ -5,6 +5,11 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Invitation codes are stored as 8 characters and printed as XXXX-XXXX
+export function formatInvitationCode(code: string) {
+  return code.length === 8 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
 export function isIOS() {
   try {
     return (
@@ -3,7 +3,11 @@ import { createRoot } from "react-dom/client";
 import { ThemeProvider } from "@/components/theme-provider";
 import App from "./App";
 import "./index.css";
-import { setAppBadge, clearAppBadge } from "@/lib/notifications";
+import { setAppBadge, clearAppBadge, syncAppBadge } from "@/lib/notifications";
+import { safeLink } from "@shared/markdown";
+import { navigate } from "wouter/use-browser-location";
+import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 
 const container = document.getElementById("root");
 if (!container) {
@@ -66,60 +70,25 @@ if ('serviceWorker' in navigator) {
     if (event.data.type === 'IOS_FALLBACK_NOTIFICATION') {
       console.log('Received iOS fallback notification:', event.data);
       
-      // Create an in-app notification element
-      const notification = document.createElement('div');
-      notification.className = 'fixed top-16 right-4 bg-white dark:bg-gray-800 shadow-lg rounded-lg p-4 w-80 z-50 border border-accent';
-      notification.innerHTML = `
-        <div class="font-medium text-lg">${event.data.title}</div>
-        <div class="text-sm mt-1">${event.data.body || ''}</div>
-        <div class="text-xs text-muted-foreground mt-2">${new Date().toLocaleString('sv-SE')}</div>
-        <button class="absolute top-2 right-2 text-muted-foreground hover:text-foreground">&times;</button>
-      `;
-      
-      // Add click handler to close
-      const closeButton = notification.querySelector('button');
-      if (closeButton) {
-        closeButton.addEventListener('click', () => {
-          if (document.body.contains(notification)) {
-            document.body.removeChild(notification);
-          }
-        });
-      }
-      
-      // Add click handler to the notification itself
-      notification.addEventListener('click', (e) => {
-        if (e.target !== closeButton) {
-          if (event.data.url) {
-            if (event.data.url.startsWith('http')) {
-              window.open(event.data.url, '_blank');
-            } else {
-              window.location.href = event.data.url;
-            }
-          }
-          
-          if (document.body.contains(notification)) {
-            document.body.removeChild(notification);
-          }
-        }
+      // Shown through the app's toasts, push data is never put into the page as HTML
+      const url: string | undefined = event.data.url;
+      toast({
+        title: event.data.title || 'Ny notis',
+        description: event.data.body || undefined,
+        duration: 10000,
+        action: url ? (
+          <ToastAction
+            altText="Visa notisen"
+            onClick={() => url.startsWith('http') ? window.open(url, '_blank') : navigate(url)}
+          >
+            Visa
+          </ToastAction>
+        ) : undefined,
       });
       
-      // Auto-remove after 10 seconds
-      document.body.appendChild(notification);
-      setTimeout(() => {
-        if (document.body.contains(notification)) {
-          document.body.removeChild(notification);
-        }
-      }, 10000);
-      
       // Also update the badge
       try {
-        const response = await fetch('/api/notifications');
-        if (response.ok) {
-          const notifications = await response.json();
-          if (Array.isArray(notifications) && notifications.length > 0) {
-            await setAppBadge(notifications.length);
-          }
-        }
+        await syncAppBadge();
       } catch (error) {
         console.error('Badge update failed for fallback notification:', error);
       }
@@ -131,20 +100,9 @@ if ('serviceWorker' in navigator) {
       
       // Sync badge state with the service worker
       try {
-        // Get notifications to set the correct badge count
-        const response = await fetch('/api/notifications');
-        if (response.ok) {
-          const notifications = await response.json();
-          if (Array.isArray(notifications) && notifications.length > 0) {
-            // Set badge based on notifications count
-            await setAppBadge(notifications.length);
-            console.log(`Badge count synchronized to ${notifications.length} after SW activation`);
-          } else {
-            // Clear badge if no notifications
-            await clearAppBadge();
-            console.log('Badge cleared during SW activation sync');
-          }
-        }
+        // Set the badge to the unread count, clearing it if everything is read
+        const count = await syncAppBadge();
+        console.log(`Badge count synchronized to ${count} after SW activation`);
       } catch (error) {
         console.error('Failed to sync badge state after SW activation:', error);
       }
@@ -190,15 +148,9 @@ if ('serviceWorker' in navigator) {
           // This is especially important for iOS where the service worker might not be able to do it
           if (isIOS && 'setAppBadge' in navigator) {
             try {
-              // Try to get current badge count from API
-              const response = await fetch('/api/notifications');
-              if (response.ok) {
-                const notifications = await response.json();
-                const count = Array.isArray(notifications) ? notifications.length : 1;
-                
-                await navigator.setAppBadge(count);
-                console.log(`Badge count set to ${count} after showing notification`);
-              }
+              // Try to get current unread count from API
+              const count = await syncAppBadge();
+              console.log(`Badge count set to ${count} after showing notification`);
             } catch (badgeError) {
               console.error('Failed to update badge:', badgeError);
             }
@@ -212,8 +164,8 @@ if ('serviceWorker' in navigator) {
             notification.close();
             
             // Check if there's a direct link to open instead of navigation within the app
-            const link = event.data.data?.link;
-            const url = link || event.data.data?.url || '/notifications';
+            const link = safeLink(event.data.data?.link);
+            const url = event.data.data?.url || '/notifications';
             
             window.focus();
             
@@ -264,9 +216,9 @@ if ('serviceWorker' in navigator) {
         // For external URLs, open in a new window/tab
         window.open(url, '_blank');
       } else {
-        // For app navigation, update location
+        // In-app routes go through the router so the page doesn't reload
         window.focus();
-        window.location.href = url;
+        navigate(url);
       }
     }
     
@@ -275,18 +227,8 @@ if ('serviceWorker' in navigator) {
       console.log('Received iOS badge sync request');
       
       try {
-        // Get notifications to set badge
-        const response = await fetch('/api/notifications');
-        if (response.ok) {
-          const notifications = await response.json();
-          if (Array.isArray(notifications) && notifications.length > 0) {
-            await setAppBadge(notifications.length);
-            console.log(`Badge synced to ${notifications.length} on iOS`);
-          } else {
-            await clearAppBadge();
-            console.log('Badge cleared during iOS sync');
-          }
-        }
+        const count = await syncAppBadge();
+        console.log(`Badge synced to ${count} on iOS`);
       } catch (error) {
         console.error('iOS badge sync failed:', error);
       }
@@ -302,18 +244,8 @@ if ('serviceWorker' in navigator) {
       try {
         console.log('Performing initial iOS badge sync');
         
-        const response = await fetch('/api/notifications');
-        if (response.ok) {
-          const notifications = await response.json();
-          
-          if (Array.isArray(notifications) && notifications.length > 0) {
-            await setAppBadge(notifications.length);
-            console.log(`Initial badge set to: ${notifications.length}`);
-          } else {
-            await clearAppBadge();
-            console.log('Initial badge cleared: no notifications');
-          }
-        }
+        const count = await syncAppBadge();
+        console.log(`Initial badge set to: ${count}`);
       } catch (error) {
         console.warn('Initial badge sync failed:', error);
       }
@@ -326,34 +258,9 @@ if ('serviceWorker' in navigator) {
         if (document.visibilityState === 'visible') {
           console.log('Performing periodic iOS badge sync');
           
-          const response = await fetch('/api/notifications');
-          if (response.ok) {
-            const notifications = await response.json();
-            
-            if (Array.isArray(notifications) && notifications.length > 0) {
-              // Try up to 3 times to ensure badge is set correctly
-              let success = false;
-              for (let attempt = 1; attempt <= 3; attempt++) {
-                try {
-                  await setAppBadge(notifications.length);
-                  console.log(`App badge set to ${notifications.length} (attempt ${attempt})`);
-                  success = true;
-                  break;
-                } catch (badgeError) {
-                  console.warn(`Badge set attempt ${attempt} failed:`, badgeError);
-                  // Wait briefly before retry
-                  await new Promise(resolve => setTimeout(resolve, 100));
-                }
-              }
-              
-              if (!success) {
-                console.error(`Failed to set badge after 3 attempts`);
-              }
-            } else {
-              await clearAppBadge();
-              console.log('Periodic badge clear: no notifications');
-            }
-          }
+          // setAppBadge already retries on iOS
+          const count = await syncAppBadge();
+          console.log(`Periodic badge sync: ${count} unread`);
         }
       } catch (error) {
         console.warn('Periodic badge sync failed:', error);
@@ -6,32 +6,107 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAdminAuth } from "@/hooks/use-admin-auth";
-import { isBadgingSupported, setAppBadge, clearAppBadge } from "@/lib/notifications";
-import type { Notification } from "@shared/schema";
+import { isBadgingSupported, syncAppBadge } from "@/lib/notifications";
+import {
+  userRoles,
+  notificationCategories,
+  generateInvitationsSchema,
+  DEFAULT_CATEGORY,
+  MAX_NOTICE_BODY_LENGTH,
+  type Notification,
+  type NotificationCategory,
+  type AttachmentInfo,
+  type UserRole,
+  type InvitationCode,
+} from "@shared/schema";
+import { categoryLabels } from "@shared/categories";
+import CategoryBadge from "@/components/notifications/category-badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link } from "wouter";
 import { z } from "zod";
-import { Trash2 } from "lucide-react";
+import { Undo2, Printer, Ban, BarChart3, ClipboardCheck, Pencil } from "lucide-react";
+import { formatInvitationCode } from "@/lib/utils";
+import AudiencePicker from "@/components/notifications/audience-picker";
+import { describeAudience, type NotificationAudience } from "@shared/audience";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import ScheduleFields from "@/components/notifications/schedule-fields";
+import PushOptionsFields, { buildPushOptions, defaultPushOptions, type PushOptions } from "@/components/notifications/push-options-fields";
+import ScheduledNotifications from "@/components/notifications/scheduled-notifications";
+import DeliveryReport from "@/components/notifications/delivery-report";
+import AcknowledgementReport from "@/components/notifications/acknowledgement-report";
+import AcknowledgementOverview from "@/components/notifications/acknowledgement-overview";
+import EditNotification from "@/components/notifications/edit-notification";
+import Markdown from "@/components/notifications/markdown";
+import { isSafeLink } from "@shared/markdown";
+import MarkdownEditor from "@/components/notifications/markdown-editor";
+import AttachmentPicker from "@/components/notifications/attachment-picker";
+import PushKeys from "@/components/notifications/push-keys";
+import PushAnalytics from "@/components/notifications/push-analytics";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { buildSchedule, type RecurrencePreset } from "@/lib/schedule";
 
 const notificationSchema = z.object({
   title: z.string().min(1, "Titel måste anges"),
-  body: z.string().min(1, "Meddelande måste anges"),
-  link: z.string().optional(),
-});
-
-const loginSchema = z.object({
-  password: z.string().min(1, "Lösenord måste anges"),
+  body: z.string()
+    .min(1, "Meddelande måste anges")
+    .max(MAX_NOTICE_BODY_LENGTH, `Meddelandet får vara högst ${MAX_NOTICE_BODY_LENGTH} tecken`),
+  link: z.string()
+    .refine(val => !val.trim() || isSafeLink(val), "Länken måste börja med https://, http://, mailto: eller tel:")
+    .optional(),
+  category: z.enum(notificationCategories),
 });
 
 type NotificationForm = z.infer<typeof notificationSchema>;
-type LoginForm = z.infer<typeof loginSchema>;
+type InvitationForm = z.input<typeof generateInvitationsSchema>;
+
+interface ManagedUser {
+  id: number;
+  email: string;
+  displayName: string | null;
+  apartmentNumber: string | null;
+  role: UserRole;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  resident: "Boende",
+  board: "Styrelse",
+  admin: "Administratör",
+};
 
 export default function Admin() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { isAuthenticated, login, logout, resetAuth } = useAdminAuth();
+  const { isLoading: authLoading, isLoggedIn, isBoard, isAdmin } = useAdminAuth();
   const [badgingSupported, setBadgingSupported] = useState(false);
+  const [audience, setAudience] = useState<NotificationAudience | null>({ type: "all" });
+  const [audienceResetKey, setAudienceResetKey] = useState(0);
+  const [sendLater, setSendLater] = useState(false);
+  const [critical, setCritical] = useState(false);
+  const [requiresAck, setRequiresAck] = useState(false);
+  const [customizePush, setCustomizePush] = useState(false);
+  const [pushOptions, setPushOptions] = useState<PushOptions>(defaultPushOptions);
+  const [attachments, setAttachments] = useState<AttachmentInfo[]>([]);
+  const [acknowledgementNotificationId, setAcknowledgementNotificationId] = useState<number | null>(null);
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [recurrencePreset, setRecurrencePreset] = useState<RecurrencePreset>("none");
+  const [recurrenceUntil, setRecurrenceUntil] = useState("");
+  const [reportNotificationId, setReportNotificationId] = useState<number | null>(null);
+  const [editingNotification, setEditingNotification] = useState<Notification | null>(null);
+  const [recallingNotification, setRecallingNotification] = useState<Notification | null>(null);
   
   // Check for badging support
   useEffect(() => {
@@ -44,62 +119,109 @@ export default function Admin() {
       title: "",
       body: "",
       link: "",
+      category: DEFAULT_CATEGORY,
     },
     mode: "onChange",
   });
 
-  const loginForm = useForm<LoginForm>({
-    resolver: zodResolver(loginSchema),
+  const invitationForm = useForm<InvitationForm>({
+    resolver: zodResolver(generateInvitationsSchema),
     defaultValues: {
-      password: "",
+      fromApartment: 1,
+      toApartment: 165,
     },
-    mode: "onChange",
   });
 
-  // Reset forms when authentication state changes
-  useEffect(() => {
-    if (isAuthenticated) {
-      notificationForm.reset({
-        title: "",
-        body: "",
-        link: "",
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications/all'],
+    enabled: isBoard,
+  });
+
+  const { data: invitations = [] } = useQuery<InvitationCode[]>({
+    queryKey: ['/api/invitations'],
+    enabled: isBoard,
+  });
+
+  const generateInvitations = useMutation({
+    mutationFn: async (data: InvitationForm) => {
+      const response = await apiRequest("POST", "/api/invitations", data);
+      return response.json() as Promise<InvitationCode[]>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+      toast({
+        title: "Klart",
+        description: `${created.length} inbjudningskoder har skapats`,
       });
-    } else {
-      // Only reset login form if not authenticated
-      loginForm.reset({
-        password: "",
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att skapa inbjudningskoder"),
+        variant: "destructive",
       });
-    }
-  }, [isAuthenticated, notificationForm, loginForm]);
+    },
+  });
 
-  const { data: notifications = [] } = useQuery<Notification[]>({
-    queryKey: ['/api/notifications'],
+  const revokeInvitation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att spärra koden"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unusedInvitations = invitations.filter(invitation => !invitation.usedAt && !invitation.revokedAt);
+
+  const { data: users = [] } = useQuery<ManagedUser[]>({
+    queryKey: ['/api/users'],
+    enabled: isAdmin,
   });
 
-  const deleteNotification = useMutation({
+  const updateRole = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Klart",
+        description: "Rollen har uppdaterats",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att ändra rollen"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recallNotification = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/notifications/${id}`);
     },
     onSuccess: async () => {
-      // Fetch new notifications count after deletion
+      setRecallingNotification(null);
+      // Fetch new notifications count after the recall
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/all'] });
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
       
       // Update the app badge if supported
       if (badgingSupported) {
         try {
-          // Get the updated notifications count
-          const response = await fetch("/api/notifications");
-          const notificationsData = await response.json();
-          const notificationsCount = Array.isArray(notificationsData) ? notificationsData.length : 0;
-          
-          // Update badge with new count, or clear if zero
-          if (notificationsCount > 0) {
-            await setAppBadge(notificationsCount);
-            console.log(`App badge updated to ${notificationsCount}`);
-          } else {
-            await clearAppBadge();
-            console.log('App badge cleared');
-          }
+          // Update badge with the new unread count, or clear if zero
+          const unreadCount = await syncAppBadge();
+          console.log(`App badge updated to ${unreadCount}`);
         } catch (badgeError) {
           console.error('Failed to update app badge:', badgeError);
         }
@@ -107,13 +229,13 @@ export default function Admin() {
       
       toast({
         title: "Klart",
-        description: "Notisen har tagits bort",
+        description: "Notisen har återkallats",
       });
     },
     onError: (error) => {
       toast({
         title: "Fel",
-        description: "Det gick inte att ta bort notisen",
+        description: getApiErrorMessage(error, "Det gick inte att återkalla notisen"),
         variant: "destructive",
       });
     },
@@ -121,117 +243,104 @@ export default function Admin() {
 
   const onSubmit = async (data: NotificationForm) => {
     try {
-      // Send the notification
-      await apiRequest("POST", "/api/notifications/send", data);
+      const schedule = sendLater && !critical
+        ? buildSchedule(scheduledAt, recurrencePreset, recurrenceUntil)
+        : {};
+
+      // Send the notification, or hand it to the scheduler
+      const response = await apiRequest("POST", "/api/notifications/send", {
+        ...data,
+        audience,
+        critical,
+        requiresAck,
+        ...schedule,
+        ...(customizePush ? buildPushOptions(pushOptions) : {}),
+        attachmentIds: attachments.map(attachment => attachment.id),
+      });
+      const result = await response.json();
+
+      const resetForm = () => {
+        notificationForm.reset({
+          title: "",
+          body: "",
+          link: "",
+          category: DEFAULT_CATEGORY,
+        });
+        setAudienceResetKey(key => key + 1);
+        setSendLater(false);
+        setCritical(false);
+        setRequiresAck(false);
+        setCustomizePush(false);
+        setPushOptions(defaultPushOptions);
+        setAttachments([]);
+        setScheduledAt("");
+        setRecurrencePreset("none");
+        setRecurrenceUntil("");
+      };
+
+      if (result.scheduled) {
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications/scheduled'] });
+        resetForm();
+        toast({
+          title: "Klart",
+          description: "Notisen har schemalagts",
+        });
+        return;
+      }
       
       // Get latest notifications count to update badge
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/all'] });
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
       
-      // Get the current notifications
-      const response = await fetch("/api/notifications");
-      const notificationsData = await response.json();
-      const notificationsCount = Array.isArray(notificationsData) ? notificationsData.length : 0;
-      
       // Update the app badge if supported
-      if (badgingSupported && notificationsCount > 0) {
+      if (badgingSupported) {
         try {
-          await setAppBadge(notificationsCount);
-          console.log(`App badge set to ${notificationsCount}`);
+          const unreadCount = await syncAppBadge();
+          console.log(`App badge set to ${unreadCount}`);
         } catch (badgeError) {
           console.error('Failed to set app badge:', badgeError);
         }
       }
       
-      // Reset the form
-      notificationForm.reset({
-        title: "",
-        body: "",
-        link: "",
-      });
+      resetForm();
       
       toast({
         title: "Klart",
-        description: "Notisen har skickats",
+        description: critical ? "Larmet har skickats" : "Notisen har skickats",
       });
     } catch (error) {
       console.error('Failed to send notification:', error);
       toast({
         title: "Fel",
-        description: "Det gick inte att skicka notisen",
+        description: getApiErrorMessage(error, "Det gick inte att skicka notisen"),
         variant: "destructive",
       });
     }
   };
 
-  const onLogin = (data: LoginForm) => {
-    const success = login(data.password);
-    
-    // Always reset the form to clear the password field
-    loginForm.reset();
-    
-    if (success) {
-      toast({
-        title: "Välkommen",
-        description: "Du är nu inloggad som administratör",
-      });
-    } else {
-      toast({
-        title: "Fel",
-        description: "Felaktigt lösenord",
-        variant: "destructive",
-      });
-    }
-  };
+  if (authLoading) {
+    return null;
+  }
 
-  if (!isAuthenticated) {
+  if (!isLoggedIn || !isBoard) {
     return (
       <div className="space-y-4">
-        <h1 className="text-2xl font-bold">Admin - Logga in</h1>
+        <h1 className="text-2xl font-bold">Admin</h1>
         <Card>
           <CardHeader>
-            <CardTitle>Logga in som administratör</CardTitle>
+            <CardTitle>{isLoggedIn ? "Behörighet saknas" : "Inloggning krävs"}</CardTitle>
           </CardHeader>
-          <CardContent>
-            <Form {...loginForm}>
-              <form key="login-form" onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
-                <FormField
-                  control={loginForm.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Lösenord</FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="password" 
-                          placeholder="Ange lösenord..." 
-                          autoComplete="current-password"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <div className="flex justify-between items-center gap-2">
-                  <Button type="submit" disabled={loginForm.formState.isSubmitting}>
-                    Logga in
-                  </Button>
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    onClick={() => {
-                      resetAuth();
-                      toast({
-                        title: "Återställd",
-                        description: "Inloggningsstatus har återställts",
-                      });
-                    }}
-                  >
-                    Återställ inloggning
-                  </Button>
-                </div>
-              </form>
-            </Form>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {isLoggedIn
+                ? "Endast styrelsemedlemmar kan skicka och ta bort notiser."
+                : "Logga in med ett konto som tillhör styrelsen för att hantera notiser."}
+            </p>
+            {!isLoggedIn && (
+              <Button asChild>
+                <Link href="/auth">Logga in</Link>
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -240,10 +349,7 @@ export default function Admin() {
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-between items-center">
-        <h1 className="text-2xl font-bold">Admin - Hantera notiser</h1>
-        <Button variant="outline" onClick={logout}>Logga ut</Button>
-      </div>
+      <h1 className="text-2xl font-bold">Admin - Hantera notiser</h1>
 
       <Card>
         <CardHeader>
@@ -273,7 +379,7 @@ export default function Admin() {
                   <FormItem>
                     <FormLabel>Meddelande</FormLabel>
                     <FormControl>
-                      <Input placeholder="Ange meddelande..." {...field} />
+                      <MarkdownEditor placeholder="Ange meddelande..." value={field.value} onChange={field.onChange} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -294,14 +400,121 @@ export default function Admin() {
                 )}
               />
 
-              <Button type="submit" disabled={notificationForm.formState.isSubmitting}>
-                Skicka notis
+              <AttachmentPicker value={attachments} onChange={setAttachments} />
+
+              <div className="flex items-center justify-between rounded-md border border-red-200 p-3">
+                <div className="space-y-1">
+                  <Label className="text-red-600">Kritiskt larm</Label>
+                  <p className="text-sm text-muted-foreground">
+                    För brand, översvämning eller fast hiss. Går fram till alla oavsett inställningar och
+                    visas tills de boende bekräftat.
+                  </p>
+                </div>
+                <Switch checked={critical} onCheckedChange={setCritical} />
+              </div>
+
+              {!critical && <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label>Kräver bekräftelse</Label>
+                  <p className="text-sm text-muted-foreground">
+                    De boende trycker "Jag har läst". Du ser vilka lägenheter som inte bekräftat och kan påminna dem.
+                  </p>
+                </div>
+                <Switch checked={requiresAck} onCheckedChange={setRequiresAck} />
+              </div>}
+
+              {!critical && <FormField
+                control={notificationForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Kategori</FormLabel>
+                    <Select value={field.value} onValueChange={(value) => field.onChange(value as NotificationCategory)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {notificationCategories.map(category => (
+                          <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {field.value === "urgent" && (
+                      <p className="text-sm text-muted-foreground">
+                        Akuta notiser går fram till alla, även de som stängt av andra kategorier.
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />}
+
+              <AudiencePicker
+                onChange={setAudience}
+                resetKey={audienceResetKey}
+                category={critical ? "urgent" : notificationForm.watch("category")}
+              />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label>Anpassa push-notisen</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Bild, knappar, giltighetstid och prioritet
+                  </p>
+                </div>
+                <Switch checked={customizePush} onCheckedChange={setCustomizePush} />
+              </div>
+
+              {customizePush && (
+                <PushOptionsFields
+                  value={pushOptions}
+                  onChange={setPushOptions}
+                  hasLink={!!notificationForm.watch("link")}
+                  critical={critical}
+                />
+              )}
+
+              {!critical && <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label>Skicka senare</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Schemalägg notisen eller upprepa den regelbundet
+                  </p>
+                </div>
+                <Switch checked={sendLater} onCheckedChange={setSendLater} />
+              </div>}
+
+              {sendLater && !critical && (
+                <ScheduleFields
+                  scheduledAt={scheduledAt}
+                  onScheduledAtChange={setScheduledAt}
+                  preset={recurrencePreset}
+                  onPresetChange={setRecurrencePreset}
+                  until={recurrenceUntil}
+                  onUntilChange={setRecurrenceUntil}
+                />
+              )}
+
+              <Button
+                type="submit"
+                variant={critical ? "destructive" : "default"}
+                disabled={notificationForm.formState.isSubmitting || audience === null || (sendLater && !critical && !scheduledAt)}
+              >
+                {critical ? "Skicka larm" : sendLater ? "Schemalägg notis" : "Skicka notis"}
               </Button>
             </form>
           </Form>
         </CardContent>
       </Card>
 
+      <ScheduledNotifications />
+
+      <AcknowledgementOverview onSelect={setAcknowledgementNotificationId} />
+
+      <PushAnalytics />
+
       <Card>
         <CardHeader>
           <CardTitle>Tidigare notiser</CardTitle>
@@ -317,16 +530,24 @@ export default function Admin() {
                   className="flex justify-between p-3 rounded-lg bg-accent"
                 >
                   <div className="flex-grow mr-4">
-                    <p className="font-medium">{notification.title}</p>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{notification.title}</p>
+                      {notification.critical
+                        ? <Badge variant="destructive" className="shrink-0">Larm</Badge>
+                        : <CategoryBadge category={notification.category} />}
+                    </div>
                     {notification.body && (
-                      <p className="text-sm mt-1">{notification.body}</p>
+                      <Markdown source={notification.body} className="text-sm mt-1" />
                     )}
                     <p className="text-xs text-muted-foreground mt-1">
-                      {new Date(notification.createdAt).toLocaleString('sv-SE')}
+                      {new Date(notification.sentAt ?? notification.createdAt).toLocaleString('sv-SE')}
+                      {" · "}
+                      {describeAudience(notification.audience)}
+                      {notification.editedAt && " · Redigerad"}
                     </p>
                   </div>
                   <div className="flex flex-col gap-2 items-end">
-                    {notification.link && (
+                    {notification.link && isSafeLink(notification.link) && (
                       <a
                         href={notification.link}
                         target="_blank"
@@ -336,13 +557,40 @@ export default function Admin() {
                         Öppna länk
                       </a>
                     )}
+                    {(notification.critical || notification.requiresAck) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Bekräftelser"
+                        onClick={() => setAcknowledgementNotificationId(notification.id)}
+                      >
+                        <ClipboardCheck className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Leveransrapport"
+                      onClick={() => setReportNotificationId(notification.id)}
+                    >
+                      <BarChart3 className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
-                      onClick={() => deleteNotification.mutate(notification.id)}
+                      title="Redigera"
+                      onClick={() => setEditingNotification(notification)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Återkalla"
+                      onClick={() => setRecallingNotification(notification)}
                       className="text-red-500 hover:text-red-700"
                     >
-                      <Trash2 className="h-4 w-4" />
+                      <Undo2 className="h-4 w-4" />
                     </Button>
                   </div>
                 </div>
@@ -351,6 +599,183 @@ export default function Admin() {
           )}
         </CardContent>
       </Card>
+
+      <DeliveryReport
+        notificationId={reportNotificationId}
+        onClose={() => setReportNotificationId(null)}
+      />
+
+      <AcknowledgementReport
+        notificationId={acknowledgementNotificationId}
+        onClose={() => setAcknowledgementNotificationId(null)}
+      />
+
+      <EditNotification
+        notification={editingNotification}
+        onClose={() => setEditingNotification(null)}
+      />
+
+      <AlertDialog open={recallingNotification !== null} onOpenChange={(open) => !open && setRecallingNotification(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Återkalla notisen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{recallingNotification?.title}" försvinner från appen och pushnotisen stängs på de enheter som redan fått den.
+              Utskick som inte har gått ut än stoppas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Avbryt</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => recallingNotification && recallNotification.mutate(recallingNotification.id)}
+              disabled={recallNotification.isPending}
+            >
+              Återkalla
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Inbjudningskoder</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Form {...invitationForm}>
+            <form
+              onSubmit={invitationForm.handleSubmit(data => generateInvitations.mutate(data))}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={invitationForm.control}
+                  name="fromApartment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Från lägenhet</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={165} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={invitationForm.control}
+                  name="toApartment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Till lägenhet</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={165} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                En ny engångskod skapas för varje lägenhet i intervallet. Tidigare koder fortsätter gälla tills de används eller spärras.
+              </p>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={generateInvitations.isPending}>
+                  Skapa koder
+                </Button>
+                <Button variant="outline" asChild disabled={unusedInvitations.length === 0}>
+                  <Link href="/admin/invitations/print">
+                    <Printer className="mr-2 h-4 w-4" />
+                    Skriv ut ({unusedInvitations.length})
+                  </Link>
+                </Button>
+              </div>
+            </form>
+          </Form>
+
+          {invitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Inga inbjudningskoder har skapats</p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {invitations.map(invitation => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between p-3 rounded-lg bg-accent"
+                >
+                  <div>
+                    <p className="font-mono font-medium">{formatInvitationCode(invitation.code)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Lgh {invitation.apartmentNumber}
+                      {" · "}
+                      {invitation.usedAt
+                        ? `Använd ${new Date(invitation.usedAt).toLocaleDateString('sv-SE')}`
+                        : invitation.revokedAt
+                          ? "Spärrad"
+                          : "Oanvänd"}
+                    </p>
+                  </div>
+                  {!invitation.usedAt && !invitation.revokedAt && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Spärra kod"
+                      onClick={() => revokeInvitation.mutate(invitation.id)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Användare och roller</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {users.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Inga användare att visa</p>
+            ) : (
+              <div className="space-y-2">
+                {users.map(user => (
+                  <div
+                    key={user.id}
+                    className="flex items-center justify-between gap-4 p-3 rounded-lg bg-accent"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{user.displayName || user.email}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {user.email}
+                        {user.apartmentNumber && ` · Lgh ${user.apartmentNumber}`}
+                      </p>
+                    </div>
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) => updateRole.mutate({ id: user.id, role: role as UserRole })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {userRoles.map(role => (
+                          <SelectItem key={role} value={role}>
+                            {roleLabels[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && <PushKeys />}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -5,165 +5,511 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { useState } from "react";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { z } from "zod";
 
-const DEFAULT_PASSWORD = "brf-docenten-2024";
+type AuthMode = "login" | "register" | "forgot" | "reset";
 
-const authSchema = z.object({
+const loginSchema = z.object({
   email: z.string().email("Ogiltig e-postadress"),
-  password: z.string(),
+  password: z.string().min(1, "Lösenord måste anges"),
 });
 
-type AuthForm = z.infer<typeof authSchema>;
+const registerSchema = z.object({
+  invitationCode: z.string().trim().min(1, "Inbjudningskod måste anges"),
+  email: z.string().email("Ogiltig e-postadress"),
+  password: z.string().min(8, "Lösenordet måste vara minst 8 tecken"),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Lösenorden matchar inte",
+  path: ["confirmPassword"],
+});
+
+const forgotSchema = z.object({
+  email: z.string().email("Ogiltig e-postadress"),
+});
+
+const resetSchema = z.object({
+  password: z.string().min(8, "Lösenordet måste vara minst 8 tecken"),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Lösenorden matchar inte",
+  path: ["confirmPassword"],
+});
+
+type LoginForm = z.infer<typeof loginSchema>;
+type RegisterForm = z.infer<typeof registerSchema>;
+type ForgotForm = z.infer<typeof forgotSchema>;
+type ResetForm = z.infer<typeof resetSchema>;
+
+// The offline login only keeps a digest of the password, never the password itself
+async function digestPassword(email: string, password: string): Promise<string> {
+  const data = new TextEncoder().encode(`${email}:${password}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function rememberOfflineAuth(email: string, password: string) {
+  try {
+    localStorage.setItem('offlineAuth', JSON.stringify({
+      email,
+      passwordDigest: await digestPassword(email, password),
+      timestamp: new Date().toISOString()
+    }));
+  } catch (error) {
+    console.warn('Could not store offline credentials:', error);
+  }
+}
+
+// Where to go after logging in, only paths inside the app are accepted
+function afterLoginPath() {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/profile";
+}
 
 export default function Auth() {
-  const [isRegistering, setIsRegistering] = useState(false);
+  const [mode, setMode] = useState<AuthMode>("login");
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [resetRequested, setResetRequested] = useState(false);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
-  const form = useForm<AuthForm>({
-    resolver: zodResolver(authSchema),
-    defaultValues: {
-      email: "",
-      password: DEFAULT_PASSWORD,
-    },
+  const loginForm = useForm<LoginForm>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const registerForm = useForm<RegisterForm>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: { invitationCode: "", email: "", password: "", confirmPassword: "" },
+  });
+
+  const forgotForm = useForm<ForgotForm>({
+    resolver: zodResolver(forgotSchema),
+    defaultValues: { email: "" },
+  });
+
+  const resetForm = useForm<ResetForm>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: { password: "", confirmPassword: "" },
   });
 
-  const onSubmit = async (data: AuthForm) => {
+  // Reset links from the forgot-password flow land here as /auth?token=...
+  // and scanned invitation QR codes as /auth?invite=...
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("token");
+    const invite = params.get("invite");
+    if (token) {
+      setResetToken(token);
+      setMode("reset");
+    } else if (invite) {
+      registerForm.setValue("invitationCode", invite);
+      setMode("register");
+    }
+  }, [registerForm]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Fel",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const onLogin = async (data: LoginForm) => {
     try {
-      const endpoint = isRegistering ? "/api/register" : "/api/login";
-
-      // Try online authentication first
-      try {
-        const response = await apiRequest("POST", endpoint, data);
-
-        if (response.ok) {
-          // Store credentials for offline use
-          localStorage.setItem('offlineAuth', JSON.stringify({
-            email: data.email,
-            timestamp: new Date().toISOString()
-          }));
-
-          toast({
-            title: "Välkommen!",
-            description: isRegistering 
-              ? "Ditt konto har skapats" 
-              : "Du är nu inloggad",
-          });
-          setLocation("/profile");
-          return;
-        }
-      } catch (error) {
-        // If we're offline, try offline authentication
-        if (!navigator.onLine) {
-          const offlineAuth = localStorage.getItem('offlineAuth');
-          if (offlineAuth) {
-            const stored = JSON.parse(offlineAuth);
-            if (stored.email === data.email && data.password === DEFAULT_PASSWORD) {
-              toast({
-                title: "Välkommen!",
-                description: "Du är nu inloggad (offline läge)",
-              });
-              setLocation("/profile");
-              return;
-            }
+      await apiRequest("POST", "/api/login", data);
+      await rememberOfflineAuth(data.email, data.password);
+
+      toast({
+        title: "Välkommen!",
+        description: "Du är nu inloggad",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
+      setLocation(afterLoginPath());
+    } catch (error) {
+      // If we're offline, try offline authentication
+      if (!navigator.onLine) {
+        const offlineAuth = localStorage.getItem('offlineAuth');
+        if (offlineAuth) {
+          const stored = JSON.parse(offlineAuth);
+          if (stored.email === data.email &&
+              stored.passwordDigest === await digestPassword(data.email, data.password)) {
+            toast({
+              title: "Välkommen!",
+              description: "Du är nu inloggad (offline läge)",
+            });
+            setLocation(afterLoginPath());
+            return;
           }
-          throw new Error("Kunde inte logga in offline. Vänligen kontrollera din internetanslutning.");
         }
-        throw error;
+        showError(new Error("Kunde inte logga in offline. Vänligen kontrollera din internetanslutning."));
+        return;
       }
+      showError(error);
+    }
+  };
+
+  const onRegister = async (data: RegisterForm) => {
+    try {
+      await apiRequest("POST", "/api/register", {
+        invitationCode: data.invitationCode,
+        email: data.email,
+        password: data.password,
+      });
+      await rememberOfflineAuth(data.email, data.password);
+
+      toast({
+        title: "Välkommen!",
+        description: "Ditt konto har skapats",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
+      setLocation(afterLoginPath());
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const onForgot = async (data: ForgotForm) => {
+    try {
+      await apiRequest("POST", "/api/forgot-password", data);
+      setResetRequested(true);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const onReset = async (data: ResetForm) => {
+    try {
+      await apiRequest("POST", "/api/reset-password", {
+        token: resetToken,
+        password: data.password,
+      });
 
-      const error = await response.json();
-      throw new Error(error.message);
-    } catch (error: any) {
       toast({
-        title: "Fel",
-        description: error.message || "Något gick fel",
-        variant: "destructive",
+        title: "Klart",
+        description: "Ditt lösenord har uppdaterats",
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
+      setLocation("/profile");
+    } catch (error) {
+      showError(error);
     }
   };
 
+  const switchMode = (next: AuthMode) => {
+    setResetRequested(false);
+    setMode(next);
+  };
+
+  const titles: Record<AuthMode, { heading: string; card: string }> = {
+    login: { heading: "Logga in", card: "Logga in med din e-postadress" },
+    register: { heading: "Skapa konto", card: "Registrera dig med din e-postadress" },
+    forgot: { heading: "Glömt lösenord", card: "Få en länk för att välja nytt lösenord" },
+    reset: { heading: "Nytt lösenord", card: "Välj ett nytt lösenord" },
+  };
+
   return (
     <div className="space-y-4">
-      <h1 className="text-2xl font-bold">
-        {isRegistering ? "Skapa konto" : "Logga in"}
-      </h1>
+      <h1 className="text-2xl font-bold">{titles[mode].heading}</h1>
 
       <Card>
         <CardHeader>
-          <CardTitle>
-            {isRegistering 
-              ? "Registrera dig med din e-postadress" 
-              : "Logga in med din e-postadress"}
-          </CardTitle>
+          <CardTitle>{titles[mode].card}</CardTitle>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>E-post</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="email" 
-                        placeholder="namn@example.com" 
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Lösenord</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="password" 
-                        disabled 
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <div className="space-y-2">
-                <Button 
-                  type="submit" 
-                  className="w-full"
-                  disabled={form.formState.isSubmitting}
-                >
-                  {isRegistering ? "Skapa konto" : "Logga in"}
-                </Button>
+          {mode === "login" && (
+            <Form {...loginForm}>
+              <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+                <FormField
+                  control={loginForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>E-post</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder="namn@example.com"
+                          autoComplete="email"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={loginForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lösenord</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="current-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={loginForm.formState.isSubmitting}
+                  >
+                    Logga in
+                  </Button>
 
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full"
+                    onClick={() => switchMode("register")}
+                  >
+                    Ny användare? Skapa konto
+                  </Button>
+
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="w-full"
+                    onClick={() => switchMode("forgot")}
+                  >
+                    Glömt lösenord?
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          )}
+
+          {mode === "register" && (
+            <Form {...registerForm}>
+              <form onSubmit={registerForm.handleSubmit(onRegister)} className="space-y-4">
+                <FormField
+                  control={registerForm.control}
+                  name="invitationCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inbjudningskod</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="XXXX-XXXX"
+                          autoCapitalize="characters"
+                          autoComplete="off"
+                          {...field}
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">
+                        Koden finns på inbjudan från styrelsen och kopplar kontot till din lägenhet.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={registerForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>E-post</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder="namn@example.com"
+                          autoComplete="email"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={registerForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lösenord</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="minst 8 tecken"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={registerForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bekräfta lösenord</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={registerForm.formState.isSubmitting}
+                  >
+                    Skapa konto
+                  </Button>
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full"
+                    onClick={() => switchMode("login")}
+                  >
+                    Har du redan ett konto? Logga in
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          )}
+
+          {mode === "forgot" && (
+            resetRequested ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Om e-postadressen finns registrerad har en länk för att välja nytt lösenord skickats.
+                  Länken är giltig i en timme.
+                </p>
                 <Button
                   type="button"
                   variant="ghost"
                   className="w-full"
-                  onClick={() => setIsRegistering(!isRegistering)}
+                  onClick={() => switchMode("login")}
                 >
-                  {isRegistering 
-                    ? "Har du redan ett konto? Logga in" 
-                    : "Ny användare? Skapa konto"}
+                  Tillbaka till inloggning
                 </Button>
               </div>
-            </form>
-          </Form>
+            ) : (
+              <Form {...forgotForm}>
+                <form onSubmit={forgotForm.handleSubmit(onForgot)} className="space-y-4">
+                  <FormField
+                    control={forgotForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>E-post</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            placeholder="namn@example.com"
+                            autoComplete="email"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="space-y-2">
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={forgotForm.formState.isSubmitting}
+                    >
+                      Skicka återställningslänk
+                    </Button>
+
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="w-full"
+                      onClick={() => switchMode("login")}
+                    >
+                      Tillbaka till inloggning
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )
+          )}
+
+          {mode === "reset" && (
+            <Form {...resetForm}>
+              <form onSubmit={resetForm.handleSubmit(onReset)} className="space-y-4">
+                <FormField
+                  control={resetForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nytt lösenord</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="minst 8 tecken"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={resetForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bekräfta lösenord</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={resetForm.formState.isSubmitting}
+                >
+                  Spara nytt lösenord
+                </Button>
+              </form>
+            </Form>
+          )}
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
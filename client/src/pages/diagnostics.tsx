@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { clearAppBadge, setAppBadge } from "@/lib/notifications";
+import { collectPushDiagnostics, diagnosticsRows, formatDiagnosticsReport, type PushDiagnostics } from "@/lib/push-diagnostics";
+import type { PushDevice } from "@shared/schema";
+import { ArrowLeft, BadgeCheck, Bell, CheckCircle2, Copy, RefreshCw, Send, XCircle } from "lucide-react";
+
+// Long enough for the test push to have arrived before the page looks again
+const RECHECK_AFTER_TEST_MS = 5000;
+
+/**
+ * Shows what stands between the server and a notice on this device, and lets the resident
+ * copy it all for the board when notices don't arrive
+ */
+export default function Diagnostics() {
+  const { toast } = useToast();
+  const [diagnostics, setDiagnostics] = useState<PushDiagnostics | null>(null);
+  const [collecting, setCollecting] = useState(false);
+
+  const { data: devices, isFetched } = useQuery<PushDevice[]>({
+    queryKey: ['/api/me/devices'],
+  });
+
+  const collect = useCallback(async () => {
+    setCollecting(true);
+    try {
+      setDiagnostics(await collectPushDiagnostics(devices));
+    } catch (error) {
+      console.error('Failed to collect push diagnostics:', error);
+      toast({
+        title: "Fel",
+        description: "Det gick inte att läsa av enheten",
+        variant: "destructive",
+      });
+    } finally {
+      setCollecting(false);
+    }
+  }, [devices, toast]);
+
+  // Waits for the device list, whether the server knows this device depends on it
+  useEffect(() => {
+    if (isFetched) {
+      collect();
+    }
+  }, [isFetched, collect]);
+
+  const testPush = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/me/test-push");
+      return response.json() as Promise<{ devices: number; delivered: number }>;
+    },
+    onSuccess: ({ devices, delivered }) => {
+      if (devices === 0) {
+        toast({
+          title: "Fel",
+          description: "Ingen av dina enheter prenumererar på notiser",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Klart",
+        description: `Testnotisen togs emot för ${delivered} av ${devices} enheter`,
+      });
+      setTimeout(collect, RECHECK_AFTER_TEST_MS);
+    },
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Det gick inte att skicka testnotisen"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyReport = async () => {
+    if (!diagnostics) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticsReport(diagnostics));
+      toast({
+        title: "Klart",
+        description: "Rapporten är kopierad. Klistra in den i ett meddelande till styrelsen.",
+      });
+    } catch (error) {
+      console.error('Failed to copy report:', error);
+      toast({
+        title: "Fel",
+        description: "Det gick inte att kopiera rapporten, markera texten nedan och kopiera den själv",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const testBadge = async (count: number) => {
+    try {
+      await (count > 0 ? setAppBadge(count) : clearAppBadge());
+    } catch (error) {
+      console.error('Failed to update app badge:', error);
+      toast({
+        title: "Fel",
+        description: "Kunde inte ändra badge på app-ikonen",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/settings">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">Felsök notiser</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Den här enheten</CardTitle>
+          <CardDescription>Det som avgör om notiser kommer fram hit</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!diagnostics ? (
+            <p className="text-sm text-muted-foreground">Läser av enheten...</p>
+          ) : (
+            <dl className="space-y-2 text-sm">
+              {diagnosticsRows(diagnostics).map(row => (
+                <div key={row.label} className="flex items-start justify-between gap-4">
+                  <dt className="text-muted-foreground">{row.label}</dt>
+                  <dd className="flex items-center gap-1 text-right break-all">
+                    {row.value}
+                    {row.ok === true && <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />}
+                    {row.ok === false && <XCircle className="h-4 w-4 shrink-0 text-destructive" />}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Button onClick={() => testPush.mutate()} disabled={testPush.isPending}>
+              <Send className="mr-2 h-4 w-4" />
+              {testPush.isPending ? "Skickar..." : "Skicka testnotis till mig"}
+            </Button>
+            <Button variant="outline" onClick={collect} disabled={collecting}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Läs av igen
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rapport till styrelsen</CardTitle>
+          <CardDescription>
+            Kommer notiserna inte fram? Kopiera rapporten och skicka den till styrelsen.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {diagnostics && (
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+              {formatDiagnosticsReport(diagnostics)}
+            </pre>
+          )}
+          <Button variant="outline" onClick={copyReport} disabled={!diagnostics}>
+            <Copy className="mr-2 h-4 w-4" />
+            Kopiera rapport
+          </Button>
+        </CardContent>
+      </Card>
+
+      {diagnostics?.badgeSupported && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Badge på appikonen</CardTitle>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => testBadge(3)}>
+              <Bell className="mr-2 h-4 w-4" />
+              Sätt testbadge (3)
+            </Button>
+            <Button variant="outline" className="flex-1" onClick={() => testBadge(0)}>
+              <BadgeCheck className="mr-2 h-4 w-4" />
+              Rensa badge
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { Link, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ExternalLink } from "lucide-react";
+import type { NotificationDigest, NotificationDigestWithNotifications } from "@shared/schema";
+import CategoryBadge from "@/components/notifications/category-badge";
+import Markdown from "@/components/notifications/markdown";
+import { isSafeLink } from "@shared/markdown";
+
+function formatPeriod(digest: NotificationDigest) {
+  return `${new Date(digest.periodStart).toLocaleString('sv-SE')} – ${new Date(digest.periodEnd).toLocaleString('sv-SE')}`;
+}
+
+function DigestList() {
+  const { data: digests = [], isLoading } = useQuery<NotificationDigest[]>({
+    queryKey: ['/api/notifications/digests'],
+    refetchOnWindowFocus: true,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sammanfattningar</CardTitle>
+        <CardDescription>
+          Välj daglig eller veckovis sammanfattning under Inställningar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Hämtar sammanfattningar...</p>
+        ) : digests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Inga sammanfattningar ännu</p>
+        ) : (
+          digests.map(digest => (
+            <Link key={digest.id} href={`/digests/${digest.id}`}>
+              <div className="p-3 rounded-lg bg-accent cursor-pointer">
+                <p className="font-medium">
+                  {digest.notificationIds.length === 1 ? "1 notis" : `${digest.notificationIds.length} notiser`}
+                </p>
+                <p className="text-xs text-muted-foreground">{formatPeriod(digest)}</p>
+              </div>
+            </Link>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DigestDetails({ id }: { id: string }) {
+  const { data: digest, isLoading, error } = useQuery<NotificationDigestWithNotifications>({
+    queryKey: [`/api/notifications/digests/${id}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sammanfattning</CardTitle>
+        {digest && <CardDescription>{formatPeriod(digest)}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Hämtar sammanfattning...</p>
+        ) : error || !digest ? (
+          <p className="text-sm text-muted-foreground">Sammanfattningen kunde inte hittas</p>
+        ) : (
+          digest.notifications.map(notification => (
+            <div key={notification.id} className="p-3 rounded-lg bg-accent">
+              <div className="flex items-center justify-between w-full">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{notification.title}</span>
+                  <CategoryBadge category={notification.category} />
+                </div>
+                {notification.link && isSafeLink(notification.link) && (
+                  <a
+                    href={notification.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center ml-2"
+                  >
+                    <ExternalLink className="h-4 w-4 flex-shrink-0" />
+                  </a>
+                )}
+              </div>
+              {notification.body && (
+                <Markdown source={notification.body} className="mt-1 text-sm" />
+              )}
+              <div className="mt-2 text-xs text-muted-foreground">
+                {new Date(notification.sentAt ?? notification.createdAt).toLocaleString('sv-SE')}
+              </div>
+            </div>
+          ))
+        )}
+
+        <Link href="/digests" className="block text-sm text-primary underline">
+          Alla sammanfattningar
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Digest() {
+  const [, params] = useRoute("/digests/:id");
+
+  return (
+    <div className="space-y-4">
+      {params?.id ? <DigestDetails id={params.id} /> : <DigestList />}
+    </div>
+  );
+}
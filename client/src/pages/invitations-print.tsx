@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { formatInvitationCode } from "@/lib/utils";
+import type { InvitationCode } from "@shared/schema";
+import { ArrowLeft, Printer } from "lucide-react";
+
+function invitationUrl(code: string) {
+  return `${window.location.origin}/auth?invite=${code}`;
+}
+
+export default function InvitationsPrint() {
+  const { isBoard } = useAdminAuth();
+  const [qrCodes, setQrCodes] = useState<Record<number, string>>({});
+
+  const { data: invitations = [] } = useQuery<InvitationCode[]>({
+    queryKey: ['/api/invitations'],
+    enabled: isBoard,
+  });
+
+  const unused = invitations
+    .filter(invitation => !invitation.usedAt && !invitation.revokedAt)
+    .sort((a, b) => Number(a.apartmentNumber) - Number(b.apartmentNumber));
+
+  // Render the QR codes up front so the print dialog gets complete pages
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(unused.map(async invitation => {
+      const dataUrl = await QRCode.toDataURL(invitationUrl(invitation.code), { margin: 1, width: 160 });
+      return [invitation.id, dataUrl] as const;
+    }))
+      .then(entries => {
+        if (!cancelled) {
+          setQrCodes(Object.fromEntries(entries));
+        }
+      })
+      .catch(error => console.error('Failed to render QR codes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [invitations]);
+
+  if (!isBoard) {
+    return (
+      <p className="text-sm text-muted-foreground">Endast styrelsemedlemmar kan skriva ut inbjudningar.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center print:hidden">
+        <Button variant="ghost" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Tillbaka
+          </Link>
+        </Button>
+        <Button onClick={() => window.print()} disabled={unused.length === 0}>
+          <Printer className="mr-2 h-4 w-4" />
+          Skriv ut
+        </Button>
+      </div>
+
+      {unused.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Det finns inga oanvända inbjudningskoder.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 print:grid-cols-2">
+          {unused.map(invitation => (
+            <div
+              key={invitation.id}
+              className="border rounded-lg p-4 flex items-center gap-4 break-inside-avoid"
+            >
+              {qrCodes[invitation.id] && (
+                <img
+                  src={qrCodes[invitation.id]}
+                  alt={`QR-kod för lägenhet ${invitation.apartmentNumber}`}
+                  className="h-28 w-28"
+                />
+              )}
+              <div className="space-y-1">
+                <p className="text-sm">BRF Docenten - "Bergakungen"</p>
+                <p className="font-medium">Lägenhet {invitation.apartmentNumber}</p>
+                <p className="font-mono text-lg">{formatInvitationCode(invitation.code)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Skanna koden eller ange den när du skapar konto i appen.
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect } from "react";
+import { Link, useRoute } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, CheckCircle2, ExternalLink, Share2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { NotificationWithReadState } from "@shared/schema";
+import CategoryBadge from "@/components/notifications/category-badge";
+import Markdown from "@/components/notifications/markdown";
+import { isSafeLink } from "@shared/markdown";
+import AttachmentChips from "@/components/notifications/attachment-chips";
+
+/**
+ * A single notice at /notifications/:id. Pushes and emails open this page, and residents
+ * can share its address with neighbours who are also members.
+ */
+export default function NotificationDetails() {
+  const [, params] = useRoute("/notifications/:id");
+  const id = params?.id;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: notification, isLoading, error } = useQuery<NotificationWithReadState>({
+    queryKey: [`/api/notifications/${id}`],
+    enabled: !!id,
+  });
+
+  const markAsRead = useMutation({
+    mutationFn: async (notificationId: number) => {
+      const response = await apiRequest("POST", `/api/notifications/${notificationId}/read`);
+      return response.json() as Promise<{ unread: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/notifications/unread-count'], { count: result.unread });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'], exact: true });
+    },
+    onError: (error) => console.error('Failed to mark notification as read:', error),
+  });
+
+  const acknowledge = useMutation({
+    mutationFn: async (notificationId: number) => {
+      await apiRequest("POST", `/api/notifications/${notificationId}/acknowledge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/notifications/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'], exact: true });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/critical/active'] });
+    },
+    onError: (acknowledgeError) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(acknowledgeError, "Det gick inte att bekräfta notisen"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Opening the notice counts as reading it
+  useEffect(() => {
+    if (notification && !notification.read) {
+      markAsRead.mutate(notification.id);
+    }
+  }, [notification]);
+
+  const share = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: notification?.title, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Länken är kopierad",
+        description: "Grannar som är inloggade i appen kan öppna den",
+      });
+    } catch (shareError) {
+      // Closing the share sheet rejects too, that's not worth a toast
+      if ((shareError as Error).name !== "AbortError") {
+        console.error('Failed to share notification:', shareError);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Link href="/notifications">
+        <Button variant="ghost" size="sm">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Alla notiser
+        </Button>
+      </Link>
+
+      <Card>
+        {isLoading ? (
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Hämtar notisen...</p>
+          </CardContent>
+        ) : error || !notification ? (
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">
+              Notisen kunde inte hittas. Den kan ha återkallats av styrelsen.
+            </p>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                {notification.critical
+                  ? <Badge variant="destructive">Larm</Badge>
+                  : <CategoryBadge category={notification.category} />}
+              </div>
+              <CardTitle>{notification.title}</CardTitle>
+              <CardDescription>
+                {new Date(notification.sentAt ?? notification.createdAt).toLocaleString('sv-SE')}
+                {notification.editedAt && ` · Redigerad ${new Date(notification.editedAt).toLocaleString('sv-SE')}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {notification.imageUrl && (
+                <img src={notification.imageUrl} alt="" className="w-full rounded-lg" />
+              )}
+              {notification.body && (
+                <Markdown source={notification.body} />
+              )}
+              <AttachmentChips attachments={notification.attachments} />
+              {(notification.critical || notification.requiresAck) && (
+                notification.acknowledged ? (
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    Bekräftad för din lägenhet
+                  </p>
+                ) : (
+                  <Button onClick={() => acknowledge.mutate(notification.id)} disabled={acknowledge.isPending}>
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Jag har läst
+                  </Button>
+                )
+              )}
+              <div className="flex flex-wrap gap-2">
+                {notification.link && isSafeLink(notification.link) && (
+                  <Button variant="outline" asChild>
+                    <a href={notification.link} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="mr-2 h-4 w-4" />
+                      Öppna länk
+                    </a>
+                  </Button>
+                )}
+                <Button variant="outline" onClick={share}>
+                  <Share2 className="mr-2 h-4 w-4" />
+                  Dela
+                </Button>
+              </div>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,21 +1,33 @@
 import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Bell, Send, AlertCircle, ExternalLink, BadgeCheck, RefreshCw } from "lucide-react";
+import { Bell, Send, AlertCircle, ExternalLink, RefreshCw, CheckCheck } from "lucide-react";
 import { 
   requestNotificationPermission, 
   subscribeToNotifications, 
   clearAppBadge,
   setAppBadge,
+  syncAppBadge,
+  registerSubscription,
+  fetchVapidPublicKey,
+  unsubscribeFromNotifications,
   isBadgingSupported,
   isPushNotificationSupported,
   isIOS as isIOSDevice
 } from "@/lib/notifications";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { ToastAction } from "@/components/ui/toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { isIOS, isSafari, supportsWebPushAPI } from "@/lib/utils";
-import { useQuery } from "@tanstack/react-query";
-import type { Notification } from "@shared/schema";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { NotificationWithReadState } from "@shared/schema";
+import CategoryBadge from "@/components/notifications/category-badge";
+import { Badge } from "@/components/ui/badge";
+import Markdown from "@/components/notifications/markdown";
+import { isSafeLink } from "@shared/markdown";
+import AttachmentChips from "@/components/notifications/attachment-chips";
+import { attachmentUrl } from "@shared/attachments";
+import { Link, useLocation } from "wouter";
 
 // Helper function to convert base64 string to Uint8Array
 // This is needed for VAPID key processing for web push
@@ -37,8 +49,9 @@ function urlBase64ToUint8Array(base64String: string): Uint8Array {
 export default function Notifications() {
   const [isSubscribed, setIsSubscribed] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [badgingSupported, setBadgingSupported] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   
   // For iOS, we need to provide special UI and instructions
   const isIOSDevice = isIOS();
@@ -46,7 +59,7 @@ export default function Notifications() {
   const pushSupported = supportsWebPushAPI();
 
   // Fetch notifications from the API
-  const { data: notifications = [], refetch, error: notificationsError } = useQuery<Notification[]>({
+  const { data: notifications = [], refetch, error: notificationsError } = useQuery<NotificationWithReadState[]>({
     queryKey: ['/api/notifications'],
     staleTime: 10000, // Consider data fresh for 10 seconds
     refetchOnWindowFocus: true, // Refetch when tab gets focus
@@ -76,10 +89,51 @@ export default function Notifications() {
     },
   });
   
-  // Refetch when component mounts or is visited
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ['/api/notifications/unread-count'],
+    staleTime: 10000,
+    refetchOnWindowFocus: true,
+  });
+  const unreadCount = unread?.count ?? 0;
+
+  // Keep the app icon in step with the server's unread count
+  useEffect(() => {
+    if (!unread || !isBadgingSupported()) return;
+    setAppBadge(unread.count).catch(error => console.error('Failed to update badge:', error));
+  }, [unread]);
+
+  // Lets the service worker fetch attachments ahead, so they open without a connection later
   useEffect(() => {
-    refetch();
-  }, [refetch]);
+    const urls = notifications.flatMap(notification => notification.attachments.map(attachment => attachmentUrl(attachment.id)));
+    if (urls.length > 0 && navigator.serviceWorker?.controller) {
+      navigator.serviceWorker.controller.postMessage({ type: 'CACHE_ATTACHMENTS', urls });
+    }
+  }, [notifications]);
+
+  const applyUnreadCount = (count: number) => {
+    queryClient.setQueryData(['/api/notifications/unread-count'], { count });
+    queryClient.invalidateQueries({ queryKey: ['/api/notifications'], exact: true });
+  };
+
+  const markAllAsRead = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notifications/read-all");
+      return response.json() as Promise<{ unread: number }>;
+    },
+    onSuccess: (result) => applyUnreadCount(result.unread),
+    onError: (error) => {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Kunde inte markera meddelandena som lästa"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The details page marks the notice as read
+  const openNotification = (notification: NotificationWithReadState) => {
+    setLocation(`/notifications/${notification.id}`);
+  };
 
   useEffect(() => {
     if (notificationsError) {
@@ -92,70 +146,17 @@ export default function Notifications() {
     }
   }, [notificationsError, toast]);
 
-  // Check for badging support and clear badge when visiting page
+  // Re-read the unread count when the page becomes visible again (e.g., after app switching)
   useEffect(() => {
-    setBadgingSupported(isBadgingSupported());
-    
-    // Clear the app badge when the notification page is visited
-    if (isBadgingSupported()) {
-      // Use a small delay to ensure service worker is ready
-      const clearBadgeTimer = setTimeout(async () => {
-        try {
-          await clearAppBadge();
-          console.log('App badge cleared on notifications page visit');
-          
-          // Notify service worker that the badge was cleared
-          if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
-            navigator.serviceWorker.controller.postMessage({
-              type: 'BADGE_CLEARED',
-              timestamp: Date.now()
-            });
-            console.log('Notified service worker about badge clearing');
-          }
-        } catch (error) {
-          console.error('Error clearing badge:', error);
-        }
-      }, 500); // Reduced delay for faster badge clearing
-      
-      return () => clearTimeout(clearBadgeTimer);
-    }
-  }, []);
-  
-  // Also clear badge when page becomes visible again (e.g., after app switching)
-  useEffect(() => {
-    if (!isBadgingSupported()) return;
-    
-    const handleVisibilityChange = async () => {
+    const handleVisibilityChange = () => {
       if (document.visibilityState === 'visible') {
-        try {
-          // For the badge count issue (showing 10 when there are 11), let's make sure badge
-          // count is always in sync with the actual notifications count
-          if (notifications && Array.isArray(notifications)) {
-            console.log(`Setting badge to match actual count: ${notifications.length}`);
-            await setAppBadge(notifications.length);
-          } else {
-            await clearAppBadge();
-          }
-          
-          console.log('Badge updated on visibility change to visible');
-          
-          // Also notify service worker
-          if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
-            navigator.serviceWorker.controller.postMessage({
-              type: 'BADGE_UPDATED',
-              timestamp: Date.now(),
-              count: notifications?.length || 0
-            });
-          }
-        } catch (error) {
-          console.error('Error updating badge on visibility change:', error);
-        }
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
       }
     };
     
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [notifications]);
+  }, [queryClient]);
   
   // Setup message listener for badge updates and fallback notifications from service worker
   useEffect(() => {
@@ -180,54 +181,22 @@ export default function Notifications() {
       if (event.data?.type === 'SHOW_NOTIFICATION') {
         console.log('Showing fallback notification from service worker', event.data);
         
-        // Show notification using the toast system
+        // Show notification using the toast system, push data is never put into the page as HTML
+        const link: string | undefined = event.data.data?.link;
         toast({
           title: event.data.title || 'Ny notis',
           description: event.data.body || 'Nytt meddelande från Bergakungen',
           duration: 5000,
+          action: link && isSafeLink(link) ? (
+            <ToastAction altText="Öppna länken" onClick={() => window.open(link, '_blank')}>
+              Öppna
+            </ToastAction>
+          ) : undefined,
         });
         
-        // Also show an in-app notification (useful for iOS)
-        const notification = document.createElement('div');
-        notification.className = 'fixed top-16 right-4 bg-white dark:bg-gray-800 shadow-lg rounded-lg p-4 w-80 z-50 border border-accent';
-        notification.innerHTML = `
-          <div class="font-medium text-lg">${event.data.title || 'Ny notis'}</div>
-          <div class="text-sm mt-1">${event.data.body || 'Nytt meddelande från Bergakungen'}</div>
-          <div class="text-xs text-muted-foreground mt-2">${new Date().toLocaleString('sv-SE')}</div>
-          <button class="absolute top-2 right-2 text-muted-foreground hover:text-foreground">&times;</button>
-        `;
-        
-        // Add click handler
-        const closeButton = notification.querySelector('button');
-        if (closeButton) {
-          closeButton.addEventListener('click', () => {
-            if (document.body.contains(notification)) {
-              document.body.removeChild(notification);
-            }
-          });
-        }
-        
-        // Handle link if available
-        if (event.data.data?.link) {
-          notification.addEventListener('click', () => {
-            window.open(event.data.data.link, '_blank');
-            if (document.body.contains(notification)) {
-              document.body.removeChild(notification);
-            }
-          });
-          notification.style.cursor = 'pointer';
-        }
-        
-        // Auto-remove after 5 seconds
-        document.body.appendChild(notification);
-        setTimeout(() => {
-          if (document.body.contains(notification)) {
-            document.body.removeChild(notification);
-          }
-        }, 5000);
-        
         // Refresh notification list
         refetch();
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
       }
     };
     
@@ -236,7 +205,7 @@ export default function Notifications() {
     return () => {
       navigator.serviceWorker.removeEventListener('message', handleMessage);
     };
-  }, [refetch, toast]);
+  }, [refetch, toast, queryClient]);
 
   useEffect(() => {
     if (!isIOSDevice && !isSafariBrowser) {
@@ -379,18 +348,12 @@ export default function Notifications() {
         const existingSubscription = await registration.pushManager.getSubscription();
         if (existingSubscription) {
           console.log('Using existing iOS push subscription');
+          await registerSubscription(existingSubscription);
           
           // Force badge count sync immediately
           try {
-            // Get current notification count for badge
-            const response = await fetch('/api/notifications');
-            if (response.ok) {
-              const notifications = await response.json();
-              if (Array.isArray(notifications)) {
-                await setAppBadge(notifications.length);
-                console.log(`Synced badge count to ${notifications.length}`);
-              }
-            }
+            const count = await syncAppBadge();
+            console.log(`Synced badge count to ${count}`);
           } catch (badgeError) {
             console.error('Badge sync failed:', badgeError);
           }
@@ -409,12 +372,8 @@ export default function Notifications() {
         // Create new subscription specifically formatted for iOS
         console.log("Creating new iOS-optimized push subscription...");
         
-        if (!import.meta.env.VITE_VAPID_PUBLIC_KEY) {
-          throw new Error("VAPID nyckel saknas");
-        }
-        
         // Convert VAPID key to correct format
-        const applicationServerKey = urlBase64ToUint8Array(import.meta.env.VITE_VAPID_PUBLIC_KEY);
+        const applicationServerKey = urlBase64ToUint8Array(await fetchVapidPublicKey());
         
         try {
           // Use promise with timeout for subscription to prevent UI freeze
@@ -439,32 +398,12 @@ export default function Notifications() {
           console.log('iOS Push subscription created successfully');
           
           // Register with server
-          const response = await fetch("/api/notifications/subscribe", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              userId: 1,
-              subscription: subscription.toJSON(),
-              platform: "ios", // Mark as iOS specifically
-            }),
-          });
-          
-          if (!response.ok) {
-            throw new Error(`Server error: ${response.status}`);
-          }
+          await registerSubscription(subscription);
           
           // Force immediate badge update
           try {
-            const badgeResponse = await fetch('/api/notifications');
-            if (badgeResponse.ok) {
-              const notifications = await badgeResponse.json();
-              if (Array.isArray(notifications)) {
-                await setAppBadge(notifications.length);
-                console.log(`Set badge to ${notifications.length} after subscription`);
-              }
-            }
+            const count = await syncAppBadge();
+            console.log(`Set badge to ${count} after subscription`);
           } catch (badgeError) {
             console.error('Initial badge setup failed:', badgeError);
           }
@@ -484,14 +423,8 @@ export default function Notifications() {
                 await refreshSubscription();
                 
                 // Sync badge count with each refresh
-                const response = await fetch('/api/notifications');
-                if (response.ok) {
-                  const notifications = await response.json();
-                  if (Array.isArray(notifications)) {
-                    await setAppBadge(notifications.length);
-                    console.log(`Synced badge to ${notifications.length} during refresh`);
-                  }
-                }
+                const count = await syncAppBadge();
+                console.log(`Synced badge to ${count} during refresh`);
               } catch (err) {
                 console.warn("iOS push refresh failed:", err);
               }
@@ -535,15 +468,9 @@ export default function Notifications() {
       
       console.log("Förnyar push-prenumeration...");
       
-      // Get the service worker registration
-      const registration = await navigator.serviceWorker.ready;
-      
-      // Get current subscription and unsubscribe
-      const currentSubscription = await registration.pushManager.getSubscription();
-      if (currentSubscription) {
-        console.log("Avsluter nuvarande prenumeration...");
-        await currentSubscription.unsubscribe();
-      }
+      // Drop the current subscription on both the server and the device
+      console.log("Avsluter nuvarande prenumeration...");
+      await unsubscribeFromNotifications();
       
       // Create a new subscription
       console.log("Skapar ny prenumeration...");
@@ -573,49 +500,19 @@ export default function Notifications() {
 
     setIsLoading(true);
     try {
-      const response = await apiRequest("POST", "/api/notifications/send", {
-        title: "Testnotis",
-        body: "Detta är en test pushnotis!",
-      });
-      console.log('Test notification response:', response);
-      
-      // Also show an in-app fallback notification for iOS or in case the push fails
+      // Only to the resident's own devices, the board sends real notices from the admin page
+      const response = await apiRequest("POST", "/api/me/test-push");
+      const { devices, delivered }: { devices: number; delivered: number } = await response.json();
+
       toast({
         title: "Klart",
-        description: "Testnotisen har skickats",
+        description: `Testnotisen togs emot för ${delivered} av ${devices} enheter`,
       });
-      
-      // Create an in-app notification as fallback
-      const notification = document.createElement('div');
-      notification.className = 'fixed top-16 right-4 bg-white dark:bg-gray-800 shadow-lg rounded-lg p-4 w-80 z-50 border border-accent';
-      notification.innerHTML = `
-        <div class="font-medium text-lg">Testnotis</div>
-        <div class="text-sm mt-1">Detta är en test pushnotis!</div>
-        <div class="text-xs text-muted-foreground mt-2">${new Date().toLocaleString('sv-SE')}</div>
-        <button class="absolute top-2 right-2 text-muted-foreground hover:text-foreground">&times;</button>
-      `;
-      
-      // Add click handler to close
-      const closeButton = notification.querySelector('button');
-      if (closeButton) {
-        closeButton.addEventListener('click', () => {
-          document.body.removeChild(notification);
-        });
-      }
-      
-      // Auto-remove after 5 seconds
-      document.body.appendChild(notification);
-      setTimeout(() => {
-        if (document.body.contains(notification)) {
-          document.body.removeChild(notification);
-        }
-      }, 5000);
-      
     } catch (error) {
       console.error('Failed to send test notification:', error);
       toast({
         title: "Fel",
-        description: "Det gick inte att skicka testnotisen",
+        description: getApiErrorMessage(error, "Det gick inte att skicka testnotisen"),
         variant: "destructive",
       });
     } finally {
@@ -722,6 +619,7 @@ export default function Notifications() {
               
               <div className="text-xs text-muted-foreground mt-1">
                 Om du inte får notiser, prova att förnya prenumerationen. Detta kan hjälpa speciellt på iOS-enheter.
+                Hjälper det inte, <Link href="/settings/diagnostics" className="text-primary underline">felsök notiserna</Link>.
               </div>
             </div>
           </>
@@ -730,52 +628,6 @@ export default function Notifications() {
     );
   };
 
-  // Function to set a test badge
-  const setTestBadge = async () => {
-    if (!badgingSupported) return;
-    
-    setIsLoading(true);
-    try {
-      await setAppBadge(3);
-      toast({
-        title: "Badge satt",
-        description: "Testbadge placerad på app-ikonen",
-      });
-    } catch (error) {
-      console.error('Failed to set app badge:', error);
-      toast({
-        title: "Fel",
-        description: "Kunde inte sätta badge på app-ikonen",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Function to clear the badge
-  const clearBadge = async () => {
-    if (!badgingSupported) return;
-    
-    setIsLoading(true);
-    try {
-      await clearAppBadge();
-      toast({
-        title: "Badge rensad",
-        description: "Badge borttagen från app-ikonen",
-      });
-    } catch (error) {
-      console.error('Failed to clear app badge:', error);
-      toast({
-        title: "Fel",
-        description: "Kunde inte ta bort badge från app-ikonen",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   return (
     <div className="space-y-4">
       <h1 className="text-2xl font-bold">Notiser</h1>
@@ -790,44 +642,30 @@ export default function Notifications() {
         </CardContent>
       </Card>
 
-      {/* App Badge Card - Only show if badging is supported */}
-      {badgingSupported && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Appikon Badge</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <p className="text-sm text-muted-foreground mb-4">
-              Denna app stödjer ikoner med märken (badges) som kan visa antalet olästa notiser
-            </p>
-            <div className="flex gap-2">
-              <Button 
-                variant="outline" 
-                onClick={setTestBadge}
-                disabled={isLoading}
-                className="flex-1"
-              >
-                <Bell className="mr-2 h-4 w-4" />
-                Sätt testbadge (3)
-              </Button>
-              <Button 
-                variant="outline" 
-                onClick={clearBadge}
-                disabled={isLoading}
-                className="flex-1"
-              >
-                <BadgeCheck className="mr-2 h-4 w-4" />
-                Rensa badge
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
       {/* System Notifications Card */}
       <Card>
         <CardHeader>
-          <CardTitle>Meddelanden</CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>
+              Meddelanden
+              {unreadCount > 0 && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  {unreadCount} olästa
+                </span>
+              )}
+            </CardTitle>
+            {unreadCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => markAllAsRead.mutate()}
+                disabled={markAllAsRead.isPending}
+              >
+                <CheckCheck className="mr-2 h-4 w-4" />
+                Markera alla som lästa
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
           {notifications.length === 0 ? (
@@ -837,16 +675,33 @@ export default function Notifications() {
               {notifications.map(notification => (
                 <div
                   key={notification.id}
-                  className="p-3 rounded-lg bg-accent"
+                  onClick={() => openNotification(notification)}
+                  className={`p-3 rounded-lg cursor-pointer ${
+                    notification.read
+                      ? "bg-accent/50 text-muted-foreground"
+                      : "bg-accent border-l-4 border-primary"
+                  }`}
                 >
                   <div className="flex items-center justify-between w-full">
-                    <span className="font-medium">{notification.title}</span>
-                    {notification.link && (
+                    <div className="flex items-center gap-2">
+                      <span className={notification.read ? "font-medium" : "font-semibold text-foreground"}>
+                        {!notification.read && (
+                          <span className="sr-only">Oläst: </span>
+                        )}
+                        {notification.title}
+                      </span>
+                      <CategoryBadge category={notification.category} />
+                      {notification.requiresAck && !notification.acknowledged && (
+                        <Badge variant="outline" className="shrink-0">Bekräfta</Badge>
+                      )}
+                    </div>
+                    {notification.link && isSafeLink(notification.link) && (
                       <a 
                         href={notification.link} 
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex items-center ml-2"
+                        onClick={(e) => e.stopPropagation()}
                       >
                         <ExternalLink className="h-4 w-4 flex-shrink-0" />
                       </a>
@@ -854,11 +709,17 @@ export default function Notifications() {
                   </div>
                   
                   {notification.body && (
-                    <div className="mt-1 text-sm">{notification.body}</div>
+                    <Markdown source={notification.body} className="mt-1 text-sm" />
+                  )}
+                  {notification.attachments.length > 0 && (
+                    <div className="mt-2">
+                      <AttachmentChips attachments={notification.attachments} />
+                    </div>
                   )}
                   
                   <div className="mt-2 text-xs text-muted-foreground">
-                    {new Date(notification.createdAt).toLocaleString('sv-SE')}
+                    {new Date(notification.sentAt ?? notification.createdAt).toLocaleString('sv-SE')}
+                    {notification.editedAt && ` · Redigerad ${new Date(notification.editedAt).toLocaleString('sv-SE')}`}
                   </div>
                 </div>
               ))}
@@ -6,27 +6,19 @@ import { Input } from "@/components/ui/input";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Edit2, Save } from "lucide-react";
-import { z } from "zod";
-
-const profileSchema = z.object({
-  displayName: z.string().min(1, "Namn måste anges"),
-  apartmentNumber: z.string()
-    .refine(val => !val || (Number(val) >= 1 && Number(val) <= 165), 
-      "Lägenhetsnummer måste vara mellan 1 och 165"),
-  port: z.string().optional(),
-  phoneNumber: z.string().optional(),
-});
-
-type ProfileForm = z.infer<typeof profileSchema>;
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Edit2, Save, BadgeCheck } from "lucide-react";
+import { updateProfileSchema, type UpdateProfile as ProfileForm } from "@shared/schema";
 
 export default function Profile() {
   const [isEditing, setIsEditing] = useState(false);
+  const [apartmentVerified, setApartmentVerified] = useState(false);
+  // The server keeps a verified apartment's port once it is set
+  const [portLocked, setPortLocked] = useState(false);
   const { toast } = useToast();
 
   const form = useForm<ProfileForm>({
-    resolver: zodResolver(profileSchema),
+    resolver: zodResolver(updateProfileSchema),
     defaultValues: {
       displayName: "",
       apartmentNumber: "",
@@ -47,7 +39,10 @@ export default function Profile() {
       localStorage.setItem('profileData', JSON.stringify(offlineData));
 
       // Then try to save online
-      await apiRequest("PATCH", "/api/profile", data);
+      const response = await apiRequest("PATCH", "/api/profile", data);
+      const saved = await response.json();
+      // The server stores the phone number in international format
+      form.setValue("phoneNumber", saved.phoneNumber || "");
 
       toast({
         title: "Klart",
@@ -58,7 +53,7 @@ export default function Profile() {
       console.error('Failed to save profile:', error);
       toast({
         title: "Fel",
-        description: "Det gick inte att spara profilen",
+        description: getApiErrorMessage(error, "Det gick inte att spara profilen"),
         variant: "destructive",
       });
     }
@@ -78,7 +73,14 @@ export default function Profile() {
       apiRequest("GET", "/api/profile")
         .then(response => response.json())
         .then(data => {
-          form.reset(data);
+          setApartmentVerified(!!data.apartmentVerified);
+          setPortLocked(!!data.apartmentVerified && !!data.port);
+          form.reset({
+            displayName: data.displayName || "",
+            apartmentNumber: data.apartmentNumber || "",
+            port: data.port || "",
+            phoneNumber: data.phoneNumber || "",
+          });
           // Update offline storage with latest online data
           localStorage.setItem('profileData', JSON.stringify({
             ...data,
@@ -134,8 +136,17 @@ export default function Profile() {
                     <FormItem>
                       <FormLabel>HSB lägenhetsnummer</FormLabel>
                       <FormControl>
-                        <Input placeholder="nummer skall vara mellan 1 och 165" {...field} />
+                        <Input
+                          placeholder="nummer skall vara mellan 1 och 165"
+                          {...field}
+                          disabled={apartmentVerified}
+                        />
                       </FormControl>
+                      {apartmentVerified && (
+                        <p className="text-xs text-muted-foreground">
+                          Verifierad via inbjudningskod. Kontakta styrelsen om den är fel.
+                        </p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
@@ -148,8 +159,13 @@ export default function Profile() {
                     <FormItem>
                       <FormLabel>Port</FormLabel>
                       <FormControl>
-                        <Input placeholder="portnummer" {...field} />
+                        <Input placeholder="portnummer" {...field} disabled={portLocked} />
                       </FormControl>
+                      {portLocked && (
+                        <p className="text-xs text-muted-foreground">
+                          Kontakta styrelsen om porten är fel.
+                        </p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
@@ -162,7 +178,7 @@ export default function Profile() {
                     <FormItem>
                       <FormLabel>Telefonnummer</FormLabel>
                       <FormControl>
-                        <Input placeholder="exempelvis mobilnummer" {...field} />
+                        <Input type="tel" placeholder="exempelvis 070-123 45 67" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -184,8 +200,14 @@ export default function Profile() {
               </div>
               <div>
                 <h3 className="font-medium">HSB lägenhetsnummer</h3>
-                <p className="text-sm text-muted-foreground">
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
                   {form.watch("apartmentNumber") || "Ej angivet"}
+                  {apartmentVerified && (
+                    <span className="inline-flex items-center gap-1 text-green-600 dark:text-green-400">
+                      <BadgeCheck className="h-4 w-4" />
+                      Verifierad
+                    </span>
+                  )}
                 </p>
               </div>
               <div>
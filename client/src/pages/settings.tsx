@@ -2,11 +2,38 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useTheme } from "@/components/theme-provider";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
-import { isIOS, isPushNotificationSupported, requestNotificationPermission, subscribeToNotifications } from "@/lib/notifications";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { changePasswordSchema } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import CategoryPreferences from "@/components/notifications/category-preferences";
+import DeliverySettings from "@/components/notifications/delivery-settings";
+import MyDevices from "@/components/notifications/my-devices";
+import {
+  isIOS,
+  isPushNotificationSupported,
+  requestNotificationPermission,
+  subscribeToNotifications,
+  unsubscribeFromNotifications,
+  getCurrentPushSubscription,
+  clearCachedUserData,
+} from "@/lib/notifications";
+
+const passwordFormSchema = changePasswordSchema.extend({
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Lösenorden matchar inte",
+  path: ["confirmPassword"],
+});
+
+type PasswordForm = z.infer<typeof passwordFormSchema>;
 
 export default function Settings() {
   const { theme, setTheme } = useTheme();
@@ -19,6 +46,15 @@ export default function Settings() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
+  const passwordForm = useForm<PasswordForm>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
   // Check notifications status and device type
   useEffect(() => {
     // Check if this is an iOS device
@@ -34,9 +70,11 @@ export default function Settings() {
     const supported = isPushNotificationSupported();
     setNotificationsSupported(supported);
     
-    // Check if notifications are enabled
-    if ('Notification' in window) {
-      setNotificationsEnabled(Notification.permission === 'granted');
+    // Notifications are enabled when this device has a live push subscription
+    if ('Notification' in window && Notification.permission === 'granted') {
+      getCurrentPushSubscription()
+        .then(subscription => setNotificationsEnabled(subscription !== null))
+        .catch(error => console.error('Failed to read push subscription:', error));
     }
     
     // Add event listener for standalone mode changes
@@ -58,11 +96,25 @@ export default function Settings() {
   // Handle enabling notifications
   const handleNotificationsChange = async (enabled: boolean) => {
     if (!enabled) {
-      setNotificationsEnabled(false);
-      toast({
-        title: "Notiser inaktiverade",
-        description: "Du kommer inte längre att få push-notiser. Du kan aktivera dem igen senare.",
-      });
+      setLoading(true);
+      try {
+        await unsubscribeFromNotifications();
+        setNotificationsEnabled(false);
+        queryClient.invalidateQueries({ queryKey: ['/api/me/devices'] });
+        toast({
+          title: "Notiser inaktiverade",
+          description: "Du kommer inte längre att få push-notiser. Du kan aktivera dem igen senare.",
+        });
+      } catch (error: any) {
+        console.error("Failed to disable notifications:", error);
+        toast({
+          title: "Kunde inte inaktivera notiser",
+          description: error.message || "Ett fel uppstod när notiserna skulle stängas av.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
       return;
     }
     
@@ -94,6 +146,7 @@ export default function Settings() {
       
       if (subscription) {
         setNotificationsEnabled(true);
+        queryClient.invalidateQueries({ queryKey: ['/api/me/devices'] });
         toast({
           title: "Notiser aktiverade",
           description: "Du kommer nu att få push-notiser från Bergakungen.",
@@ -127,6 +180,30 @@ export default function Settings() {
     }
   };
 
+  const handleChangePassword = async (data: PasswordForm) => {
+    try {
+      await apiRequest("POST", "/api/change-password", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+
+      // The offline login digest is tied to the old password
+      localStorage.removeItem('offlineAuth');
+      passwordForm.reset();
+
+      toast({
+        title: "Lösenord bytt",
+        description: "Ditt nya lösenord gäller från och med nu",
+      });
+    } catch (error) {
+      toast({
+        title: "Fel",
+        description: getApiErrorMessage(error, "Kunde inte byta lösenord"),
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleLogout = async () => {
     try {
       const response = await fetch('/api/logout', {
@@ -137,6 +214,8 @@ export default function Settings() {
       if (response.ok) {
         // Clear offline auth data
         localStorage.removeItem('offlineAuth');
+        clearCachedUserData().catch(error => console.error('Failed to clear cached data:', error));
+        queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
 
         toast({
           title: "Utloggad",
@@ -261,6 +340,83 @@ export default function Settings() {
         </Card>
       )}
 
+      <CategoryPreferences />
+
+      <DeliverySettings />
+
+      <MyDevices onCurrentDeviceRemoved={() => setNotificationsEnabled(false)} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Felsök notiser</CardTitle>
+          <CardDescription>
+            Kommer notiserna inte fram? Se vad som saknas på den här enheten och skicka en rapport till styrelsen.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={() => setLocation("/settings/diagnostics")}>
+            Öppna felsökning
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Byt lösenord</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...passwordForm}>
+            <form onSubmit={passwordForm.handleSubmit(handleChangePassword)} className="space-y-4">
+              <FormField
+                control={passwordForm.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nuvarande lösenord</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={passwordForm.control}
+                name="newPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nytt lösenord</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="minst 8 tecken" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={passwordForm.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bekräfta nytt lösenord</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button type="submit" disabled={passwordForm.formState.isSubmitting}>
+                Byt lösenord
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardContent className="pt-6">
           <Button 
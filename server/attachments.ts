@@ -0,0 +1,49 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { AttachmentMimeType } from "@shared/attachments";
+
+// Uploaded files are kept on local disk under a random name, the database has the rest
+export const ATTACHMENTS_DIR = path.resolve(process.env.ATTACHMENTS_DIR || ".attachments");
+
+/**
+ * Works out the file type from the first bytes instead of trusting the Content-Type the
+ * browser sent, so a renamed HTML file can't be served back as a "PDF".
+ */
+export function detectMimeType(data: Buffer): AttachmentMimeType | null {
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return "application/pdf";
+  }
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+// Keeps the name the board gave the file, minus any path and characters that break headers
+export function cleanFileName(name: string) {
+  const base = path.basename(name.replace(/\\/g, "/")).replace(/[\u0000-\u001f\u007f"]/g, "").trim();
+  return base.slice(0, 200) || "bilaga";
+}
+
+export function attachmentPath(storageKey: string) {
+  return path.join(ATTACHMENTS_DIR, storageKey);
+}
+
+// Resolves to the storage key of the written file
+export async function saveAttachmentFile(data: Buffer): Promise<string> {
+  const storageKey = randomUUID();
+  await fs.mkdir(ATTACHMENTS_DIR, { recursive: true });
+  await fs.writeFile(attachmentPath(storageKey), data);
+  return storageKey;
+}
+
+export async function deleteAttachmentFile(storageKey: string) {
+  await fs.rm(attachmentPath(storageKey), { force: true });
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { comparePasswords, hashPassword, isHashedPassword } from "./auth";
+
+describe("comparePasswords", () => {
+  it("accepts the right password and refuses a wrong one", async () => {
+    const stored = await hashPassword("rätt lösenord");
+    expect(await comparePasswords("rätt lösenord", stored)).toBe(true);
+    expect(await comparePasswords("fel lösenord", stored)).toBe(false);
+  });
+
+  it("refuses accounts still on the old plaintext password, even with that password", async () => {
+    expect(isHashedPassword("bergakungen")).toBe(false);
+    expect(await comparePasswords("bergakungen", "bergakungen")).toBe(false);
+  });
+
+  it("refuses unknown accounts", async () => {
+    expect(await comparePasswords("vad som helst", undefined)).toBe(false);
+  });
+});
+
+describe("hashPassword", () => {
+  it("salts every hash", async () => {
+    const [first, second] = await Promise.all([hashPassword("samma"), hashPassword("samma")]);
+    expect(isHashedPassword(first)).toBe(true);
+    expect(first).not.toBe(second);
+  });
+});
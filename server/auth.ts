@@ -0,0 +1,59 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+
+// Stored format is "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Accounts created before passwords were hashed still hold the shared
+ * plaintext password. Those must go through the reset flow.
+ */
+export function isHashedPassword(stored: string): boolean {
+  return /^[0-9a-f]{128}\.[0-9a-f]{32}$/.test(stored);
+}
+
+// Stands in for unknown accounts and plaintext passwords, so a failed login takes as long
+// whatever the reason and doesn't tell which emails are registered
+let dummyHash: Promise<string> | undefined;
+
+export async function comparePasswords(supplied: string, stored: string | undefined): Promise<boolean> {
+  const usable = stored !== undefined && isHashedPassword(stored);
+  if (!usable) {
+    dummyHash ??= hashPassword(generateToken());
+    stored = await dummyHash;
+  }
+
+  const [hashed, salt] = stored!.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf) && usable;
+}
+
+// Tokens are handed to the user once; only their digest is persisted
+export function generateToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// No 0/O or 1/I, the codes are typed in from a printed letter
+const INVITATION_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export function generateInvitationCode(length = 8): string {
+  const bytes = randomBytes(length);
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += INVITATION_ALPHABET[bytes[i] % INVITATION_ALPHABET.length];
+  }
+  return code;
+}
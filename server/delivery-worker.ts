@@ -0,0 +1,299 @@
+import webpush from "web-push";
+import type { Notification, PushSubscription } from "@shared/schema";
+import { categoryLabels } from "@shared/categories";
+import { DEFAULT_PUSH_TTL, pushActionLabels } from "@shared/push";
+import { markdownToPlainText, safeLink } from "@shared/markdown";
+import { attachmentUrl } from "@shared/attachments";
+import { storage, type DeliveryJob } from "./storage";
+import { getVapidDetails } from "./vapid";
+import { log } from "./vite";
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 50;
+
+// Push services rate limit per sender, so only this many requests are in flight at once
+const MAX_CONCURRENT_SENDS = 10;
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// How long a claimed delivery is reserved for this worker before another tick may retry it
+const LEASE_MS = 5 * 60 * 1000;
+
+// Pushes of the same notice share a tag, so a correction replaces the original on the lock screen
+function noticeTag(notification: Notification) {
+  return notification.topic || `notice-${notification.id}`;
+}
+
+function buildPayload(notification: Notification) {
+  const label = notification.critical ? "LARM" : categoryLabels[notification.category];
+  return JSON.stringify({
+    title: notification.revision > 0
+      ? `Rättelse – ${label}: ${notification.title}`
+      : `${label}: ${notification.title}`,
+    // Push notifications can't show formatting, see shared/markdown.ts
+    body: notification.body ? markdownToPlainText(notification.body) : 'Nytt meddelande från Bergakungen',
+    category: notification.category,
+    critical: notification.critical,
+    url: `/notifications/${notification.id}`, // Opened when the push itself is tapped
+    link: safeLink(notification.link), // Include the link if it exists for external navigation
+    id: notification.id,
+    image: notification.imageUrl || null,
+    actions: notification.actions.map(action => ({ action, title: pushActionLabels[action] })),
+    tag: noticeTag(notification),
+  });
+}
+
+function buildOptions(notification: Notification): webpush.RequestOptions {
+  return {
+    TTL: notification.ttlSeconds ?? DEFAULT_PUSH_TTL,
+    // Critical alerts ask the push service to wake the device right away even in power saving mode
+    urgency: notification.critical ? "high" : notification.urgency,
+    // Also replaces a push of the same notice that is still waiting in the push service
+    topic: noticeTag(notification),
+  };
+}
+
+/**
+ * Asks the service worker to close the push of a recalled notice. Browsers expect every
+ * push to show something, the worker falls back to a short "återkallad" note if nothing was
+ * open to close. The attachment URLs let the worker drop just this notice's cached files.
+ */
+export async function sendRecallPush(notification: Notification, subscriptions: PushSubscription[]) {
+  const attached = await storage.getNotificationAttachments(notification);
+  const payload = JSON.stringify({
+    type: "recall",
+    id: notification.id,
+    tag: noticeTag(notification),
+    attachmentUrls: attached.map(attachment => attachmentUrl(attachment.id)),
+  });
+
+  for (const subscription of subscriptions) {
+    await sendDirectPush(subscription, payload);
+  }
+  log(`Sent recall of notification ${notification.id} to ${subscriptions.length} devices`, "delivery");
+}
+
+/**
+ * Pushes the notice again to the devices of apartments that haven't confirmed it. Sent
+ * outside the queue, which already holds the original delivery to each device.
+ */
+export async function sendReminderPush(notification: Notification, subscriptions: PushSubscription[]) {
+  const original = JSON.parse(buildPayload(notification));
+  const payload = JSON.stringify({ ...original, title: `Påminnelse – ${original.title}` });
+
+  let sent = 0;
+  for (const subscription of subscriptions) {
+    if (await sendDirectPush(subscription, payload)) {
+      sent++;
+    }
+  }
+  log(`Sent reminder of notification ${notification.id} to ${sent} of ${subscriptions.length} devices`, "delivery");
+  return sent;
+}
+
+// Lets a resident check that a device gets pushes, returns whether the push service accepted it
+export async function sendTestPush(subscription: PushSubscription): Promise<boolean> {
+  return sendDirectPush(subscription, JSON.stringify({
+    title: "Testnotis",
+    body: "Den här enheten får notiser från Bergakungen.",
+    url: "/settings",
+    tag: "test",
+    id: null,
+  }));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(headers: Record<string, string> | undefined): number | null {
+  const value = headers?.["retry-after"] ?? headers?.["Retry-After"];
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoff(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+}
+
+// Throttling, timeouts and server errors are worth another try, other 4xx will fail the same way again
+function isRetryable(statusCode: number | undefined) {
+  return statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+type VapidDetails = NonNullable<webpush.RequestOptions["vapidDetails"]>;
+
+async function deliver({ delivery, subscription, notification }: DeliveryJob, vapidDetails: VapidDetails) {
+  if (!subscription.active) {
+    // Unsubscribed or found dead after the notice was queued
+    await storage.markDeliveryFinished(delivery.id, "expired", null, "Subscription no longer active");
+    return;
+  }
+
+  if (notification.status === "recalled") {
+    await storage.markDeliveryFinished(delivery.id, "expired", null, "Notification recalled");
+    return;
+  }
+
+  try {
+    const result = await webpush.sendNotification(
+      subscription.subscription as webpush.PushSubscription,
+      buildPayload(notification),
+      { ...buildOptions(notification), vapidDetails }
+    );
+    await storage.markDeliveryDelivered(delivery.id, result.statusCode);
+    await storage.markPushSubscriptionDelivered(subscription.id);
+  } catch (error: any) {
+    const statusCode: number | undefined = error.statusCode;
+    const message = String(error.body || error.message || error).slice(0, 500);
+
+    if (statusCode === 404 || statusCode === 410) {
+      // The push service has dropped the subscription (expired, or the user revoked
+      // permission), it will never accept a message again
+      log(`Subscription ${subscription.id} is gone (${statusCode}), deactivating it`, "delivery");
+      await storage.deactivatePushSubscriptionById(subscription.id);
+      await storage.markDeliveryFinished(delivery.id, "expired", statusCode, message);
+      return;
+    }
+
+    if (isRetryable(statusCode) && delivery.attempts < MAX_ATTEMPTS) {
+      const delay = parseRetryAfter(error.headers) ?? backoff(delivery.attempts);
+      log(`Delivery ${delivery.id} failed with ${statusCode ?? "network error"}, retrying in ${Math.round(delay / 1000)}s`, "delivery");
+      await storage.scheduleDeliveryRetry(delivery.id, new Date(Date.now() + delay), statusCode ?? null, message);
+      return;
+    }
+
+    console.error(`Delivery ${delivery.id} to subscription ${subscription.id} failed permanently:`, {
+      statusCode,
+      attempts: delivery.attempts,
+      message,
+    });
+    await storage.markDeliveryFinished(delivery.id, "failed", statusCode ?? null, message);
+  }
+}
+
+/**
+ * Sends a push outside the delivery queue, used for digests. There are no retries,
+ * the digest can still be read in the app. Returns whether the push service accepted it,
+ * which it can't when no VAPID keys are set up.
+ */
+export async function sendDirectPush(subscription: PushSubscription, payload: string): Promise<boolean> {
+  const vapidDetails = await getVapidDetails();
+  if (!vapidDetails) {
+    return false;
+  }
+
+  try {
+    await webpush.sendNotification(subscription.subscription as webpush.PushSubscription, payload, { vapidDetails });
+  } catch (error: any) {
+    if (error.statusCode === 404 || error.statusCode === 410) {
+      log(`Subscription ${subscription.id} is gone (${error.statusCode}), deactivating it`, "delivery");
+      await storage.deactivatePushSubscriptionById(subscription.id);
+    } else {
+      console.error(`Direct push to subscription ${subscription.id} failed:`, error.statusCode ?? error.message ?? error);
+    }
+    return false;
+  }
+
+  await storage.markPushSubscriptionDelivered(subscription.id);
+  return true;
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        console.error('Delivery task failed:', error);
+      }
+    }
+  });
+  await Promise.all(lanes);
+}
+
+export async function processDueDeliveries() {
+  // Without keys the deliveries stay queued until an admin generates them
+  const vapidDetails = await getVapidDetails();
+  if (!vapidDetails) {
+    return;
+  }
+
+  for (;;) {
+    const batch = await storage.claimDueDeliveries(new Date(), BATCH_SIZE, LEASE_MS);
+    if (batch.length === 0) {
+      return;
+    }
+
+    await runWithConcurrency(batch, MAX_CONCURRENT_SENDS, job => deliver(job, vapidDetails));
+
+    if (batch.length < BATCH_SIZE) {
+      return;
+    }
+  }
+}
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+let wakeRequested = false;
+
+async function tick() {
+  if (running) {
+    // Picked up by the running tick once it finishes its current batch
+    wakeRequested = true;
+    return;
+  }
+
+  running = true;
+  try {
+    do {
+      wakeRequested = false;
+      await processDueDeliveries();
+    } while (wakeRequested);
+  } catch (error) {
+    console.error('Delivery worker tick failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Starts processing queued deliveries right away instead of at the next poll.
+ */
+export function wakeDeliveryWorker() {
+  if (timer) {
+    setImmediate(tick);
+  }
+}
+
+/**
+ * Polls the push_deliveries table. The queue lives in the database, so deliveries
+ * queued before a restart are sent once the server is back.
+ */
+export function startDeliveryWorker() {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  log(`Push delivery worker started, polling every ${POLL_INTERVAL_MS / 1000}s`, "delivery");
+
+  getVapidDetails()
+    .then(details => {
+      if (!details) {
+        log("No VAPID keys configured, pushes stay queued until an admin generates them", "delivery");
+      }
+    })
+    .catch(error => console.error('Failed to load VAPID keys:', error));
+}
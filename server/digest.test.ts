@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import type { NotificationSettings } from "@shared/schema";
+import { quietHoursEnd } from "./digest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+vi.mock("./vite", () => ({ log: () => {} }));
+
+function settings(overrides: Partial<NotificationSettings> = {}): NotificationSettings {
+  return {
+    userId: 1,
+    quietHoursEnabled: true,
+    quietHoursStart: "22:00",
+    quietHoursEnd: "07:00",
+    deliveryMode: "immediate",
+    digestTime: "08:00",
+    digestDay: 1,
+    emailDelivery: "fallback",
+    smsConsent: false,
+    smsConsentAt: null,
+    lastDigestAt: null,
+    ...overrides,
+  };
+}
+
+// Stockholm is UTC+1 in January and UTC+2 in July
+describe("quietHoursEnd", () => {
+  it("is null when quiet hours are off", () => {
+    expect(quietHoursEnd(settings({ quietHoursEnabled: false }), new Date("2026-01-15T22:00:00Z"))).toBeNull();
+  });
+
+  it("is null outside quiet hours and right when they end", () => {
+    expect(quietHoursEnd(settings(), new Date("2026-01-15T11:00:00Z"))).toBeNull();
+    expect(quietHoursEnd(settings(), new Date("2026-01-16T06:00:00Z"))).toBeNull();
+  });
+
+  it("ends tomorrow morning when it is late in the evening", () => {
+    expect(quietHoursEnd(settings(), new Date("2026-01-15T22:00:00Z"))).toEqual(new Date("2026-01-16T06:00:00Z"));
+  });
+
+  it("ends the same morning after midnight", () => {
+    expect(quietHoursEnd(settings(), new Date("2026-01-16T02:00:00Z"))).toEqual(new Date("2026-01-16T06:00:00Z"));
+  });
+
+  it("follows local time in summer", () => {
+    expect(quietHoursEnd(settings(), new Date("2026-07-15T21:00:00Z"))).toEqual(new Date("2026-07-16T05:00:00Z"));
+  });
+
+  it("handles quiet hours within one day", () => {
+    const daytime = settings({ quietHoursStart: "09:00", quietHoursEnd: "17:00" });
+    expect(quietHoursEnd(daytime, new Date("2026-01-15T09:30:00Z"))).toEqual(new Date("2026-01-15T16:00:00Z"));
+    expect(quietHoursEnd(daytime, new Date("2026-01-15T20:00:00Z"))).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import type { NotificationSettings, User } from "@shared/schema";
+import { storage } from "./storage";
+import { sendDirectPush } from "./delivery-worker";
+import { isPushConfigured } from "./vapid";
+import { sendEmail } from "./email";
+import { digestEmail } from "./email-templates";
+import { log } from "./vite";
+import { fromWallClock, minutesOfDay, parseTimeOfDay, toWallClock, weekdayOf } from "./wall-clock";
+
+// How many notice titles the digest push lists before "och N till"
+const DIGEST_PUSH_TITLES = 3;
+
+/**
+ * When the resident's quiet hours end, or null if they are not in quiet hours right now.
+ * Quiet hours may run past midnight, e.g. 22:00-07:00.
+ */
+export function quietHoursEnd(settings: NotificationSettings, now = new Date()): Date | null {
+  if (!settings.quietHoursEnabled) {
+    return null;
+  }
+
+  const wall = toWallClock(now);
+  const current = minutesOfDay(wall);
+  const start = parseTimeOfDay(settings.quietHoursStart);
+  const end = parseTimeOfDay(settings.quietHoursEnd);
+  const startMinutes = start.hour * 60 + start.minute;
+  const endMinutes = end.hour * 60 + end.minute;
+
+  const overnight = startMinutes > endMinutes;
+  const quiet = overnight
+    ? current >= startMinutes || current < endMinutes
+    : current >= startMinutes && current < endMinutes;
+  if (!quiet) {
+    return null;
+  }
+
+  // Before midnight in an overnight window the quiet hours end tomorrow
+  const day = overnight && current >= startMinutes ? wall.day + 1 : wall.day;
+  return fromWallClock({ ...wall, day, hour: end.hour, minute: end.minute, second: 0 });
+}
+
+/**
+ * The first digest time after `after`, at the chosen time of day and, for weekly
+ * digests, on the chosen weekday.
+ */
+export function nextDigestAt(settings: NotificationSettings, after: Date): Date {
+  const wall = toWallClock(after);
+  const { hour, minute } = parseTimeOfDay(settings.digestTime);
+  const daysAhead = settings.deliveryMode === "weekly"
+    ? (settings.digestDay - weekdayOf(wall) + 7) % 7
+    : 0;
+
+  const candidate = fromWallClock({ ...wall, day: wall.day + daysAhead, hour, minute, second: 0 });
+  if (candidate > after) {
+    return candidate;
+  }
+  const step = settings.deliveryMode === "weekly" ? 7 : 1;
+  return fromWallClock({ ...wall, day: wall.day + daysAhead + step, hour, minute, second: 0 });
+}
+
+function buildDigestPayload(digestId: number, titles: string[]) {
+  const listed = titles.slice(0, DIGEST_PUSH_TITLES);
+  const remaining = titles.length - listed.length;
+
+  return JSON.stringify({
+    title: titles.length === 1 ? "Sammanfattning: 1 ny notis" : `Sammanfattning: ${titles.length} nya notiser`,
+    body: listed.join("\n") + (remaining > 0 ? `\noch ${remaining} till` : ""),
+    url: `/digests/${digestId}`,
+    // A newer digest replaces an unread older one on the lock screen
+    tag: "digest",
+    id: null,
+  });
+}
+
+async function runDigest(user: User, settings: NotificationSettings, now: Date) {
+  const periodStart = settings.lastDigestAt;
+  if (!periodStart || nextDigestAt(settings, periodStart) > now) {
+    return;
+  }
+
+  // A digest time inside quiet hours waits for them to end
+  if (quietHoursEnd(settings, now)) {
+    return;
+  }
+
+  const [visible, preferences] = await Promise.all([
+    storage.getNotificationsForUser(user),
+    storage.getNotificationPreferences(user.id),
+  ]);
+
+  // Urgent notices and alerts were pushed right away and muted categories are never pushed
+  const included = visible.filter(notification => {
+    const publishedAt = notification.sentAt ?? notification.createdAt;
+    return publishedAt > periodStart
+      && publishedAt <= now
+      && !notification.critical
+      && notification.category !== "urgent"
+      && preferences[notification.category];
+  });
+
+  const digest = await storage.createDigest(user.id, included.map(notification => notification.id), periodStart, now);
+  if (!digest) {
+    return;
+  }
+  log(`Digest ${digest.id} for user ${user.id} covers ${included.length} notices`, "digest");
+
+  const subscriptions = await storage.getActivePushSubscriptionsForUser(user.id);
+
+  if (settings.emailDelivery === "always" || (settings.emailDelivery === "fallback" && subscriptions.length === 0)) {
+    try {
+      await sendEmail(digestEmail(included, digest.id, user.email));
+    } catch (error) {
+      console.error(`Failed to email digest ${digest.id} to user ${user.id}:`, error);
+    }
+  }
+
+  if (!(await isPushConfigured())) {
+    return;
+  }
+
+  const payload = buildDigestPayload(digest.id, included.map(notification => notification.title));
+  for (const subscription of subscriptions) {
+    await sendDirectPush(subscription, payload);
+  }
+}
+
+/**
+ * Sends the daily and weekly digests that have come due. Called from the scheduler tick,
+ * the period boundaries live in notification_settings so nothing is lost over a restart.
+ */
+export async function runDueDigests(now = new Date()) {
+  const recipients = await storage.getDigestRecipients();
+  for (const { user, settings } of recipients) {
+    try {
+      await runDigest(user, settings, now);
+    } catch (error) {
+      console.error(`Failed to send digest for user ${user.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { EmailDelivery, Notification } from "@shared/schema";
+import { processDueEmails } from "./email-delivery";
+
+const storage = vi.hoisted(() => ({
+  claimDueEmailDeliveries: vi.fn(),
+  markEmailDelivered: vi.fn(),
+  markEmailFinished: vi.fn(),
+  scheduleEmailRetry: vi.fn(),
+}));
+const sendEmail = vi.hoisted(() => vi.fn());
+
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./email", () => ({ sendEmail }));
+vi.mock("./vite", () => ({ log: () => {} }));
+
+function job(status: Notification["status"]) {
+  return {
+    delivery: { id: 3, email: "anna@example.com", attempts: 1 } as EmailDelivery,
+    notification: { id: 9, title: "Vattnet stängs av", body: null, link: null, status } as Notification,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("processDueEmails", () => {
+  it("sends queued emails", async () => {
+    storage.claimDueEmailDeliveries.mockResolvedValueOnce([job("sent")]);
+    await processDueEmails();
+
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(storage.markEmailDelivered).toHaveBeenCalledWith(3);
+  });
+
+  it("expires emails for a recalled notice instead of sending them", async () => {
+    storage.claimDueEmailDeliveries.mockResolvedValueOnce([job("recalled")]);
+    await processDueEmails();
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(storage.markEmailFinished).toHaveBeenCalledWith(3, "expired", "Notification recalled");
+  });
+});
@@ -0,0 +1,130 @@
+import type { Notification } from "@shared/schema";
+import { storage, type EmailJob } from "./storage";
+import { sendEmail } from "./email";
+import { noticeEmail } from "./email-templates";
+import { log } from "./vite";
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const LEASE_MS = 5 * 60 * 1000;
+
+function backoff(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Queues the notice for residents who want it by email: everyone on "always", and on
+ * "fallback" those without an active push subscription. Digest readers get urgent
+ * notices and alerts only, the rest arrives with their digest.
+ */
+export async function queueEmailNotification(notification: Notification): Promise<number> {
+  const [audience, withPush] = await Promise.all([
+    storage.getUsersInAudience(notification.audience, notification.critical ? undefined : notification.category),
+    storage.getUserIdsWithActivePush(),
+  ]);
+  const settings = await storage.getNotificationSettingsForUsers(audience.map(user => user.id));
+
+  const recipients = audience.filter(user => {
+    const userSettings = settings.get(user.id)!;
+    if (userSettings.emailDelivery === "off" || (userSettings.emailDelivery === "fallback" && withPush.has(user.id))) {
+      return false;
+    }
+    return notification.critical
+      || notification.category === "urgent"
+      || userSettings.deliveryMode === "immediate";
+  });
+
+  const queued = await storage.enqueueEmailDeliveries(notification.id, recipients);
+  console.log(`Queued ${queued} email deliveries for notification ${notification.id}`);
+
+  if (queued > 0) {
+    wakeEmailWorker();
+  }
+  return queued;
+}
+
+async function deliver({ delivery, notification }: EmailJob) {
+  // The recall expires queued emails, this catches any queued while it ran
+  if (notification.status === "recalled") {
+    await storage.markEmailFinished(delivery.id, "expired", "Notification recalled");
+    return;
+  }
+
+  try {
+    await sendEmail(noticeEmail(notification, delivery.email));
+    await storage.markEmailDelivered(delivery.id);
+  } catch (error: any) {
+    const message = String(error.message || error).slice(0, 500);
+
+    // SMTP 5xx replies (unknown mailbox, rejected) will fail the same way again
+    if (error.responseCode >= 500 || delivery.attempts >= MAX_ATTEMPTS) {
+      console.error(`Email delivery ${delivery.id} to ${delivery.email} failed permanently:`, message);
+      await storage.markEmailFinished(delivery.id, "failed", message);
+      return;
+    }
+
+    const delay = backoff(delivery.attempts);
+    log(`Email delivery ${delivery.id} failed, retrying in ${Math.round(delay / 1000)}s`, "email");
+    await storage.scheduleEmailRetry(delivery.id, new Date(Date.now() + delay), message);
+  }
+}
+
+export async function processDueEmails() {
+  for (;;) {
+    const batch = await storage.claimDueEmailDeliveries(new Date(), BATCH_SIZE, LEASE_MS);
+    // Sent one at a time, mail servers are quicker to throttle than push services
+    for (const job of batch) {
+      await deliver(job);
+    }
+
+    if (batch.length < BATCH_SIZE) {
+      return;
+    }
+  }
+}
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+let wakeRequested = false;
+
+async function tick() {
+  if (running) {
+    wakeRequested = true;
+    return;
+  }
+
+  running = true;
+  try {
+    do {
+      wakeRequested = false;
+      await processDueEmails();
+    } while (wakeRequested);
+  } catch (error) {
+    console.error('Email worker tick failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function wakeEmailWorker() {
+  if (timer) {
+    setImmediate(tick);
+  }
+}
+
+/**
+ * Polls the email_deliveries table, the email counterpart of server/delivery-worker.ts.
+ */
+export function startEmailWorker() {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  log(`Email delivery worker started, polling every ${POLL_INTERVAL_MS / 1000}s`, "email");
+}
@@ -0,0 +1,144 @@
+import type { Notification } from "@shared/schema";
+import { categoryLabels } from "@shared/categories";
+import { markdownToPlainText, parseMarkdown, safeLink, type MarkdownInline } from "@shared/markdown";
+import type { EmailMessage } from "./email";
+
+// Links in emails can't be relative, the sending request isn't around when the worker runs
+const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+export function appUrl(path: string) {
+  return `${APP_URL}${path}`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Notice bodies are in the Markdown subset from shared/markdown.ts
+function bodyHtml(body: string) {
+  const inline = (parts: MarkdownInline[]) => parts.map(part => {
+    switch (part.type) {
+      case "bold":
+        return `<strong>${escapeHtml(part.text)}</strong>`;
+      case "link":
+        return `<a href="${escapeHtml(part.href)}">${escapeHtml(part.text)}</a>`;
+      default:
+        return escapeHtml(part.text);
+    }
+  }).join("");
+
+  return parseMarkdown(body).map(block => {
+    if (block.type === "paragraph") {
+      return `<p style="margin:0 0 16px">${block.lines.map(inline).join("<br>")}</p>`;
+    }
+    const tag = block.ordered ? "ol" : "ul";
+    return `<${tag} style="margin:0 0 16px;padding-left:24px">${block.items.map(item => `<li>${inline(item)}</li>`).join("")}</${tag}>`;
+  }).join("");
+}
+
+function button(href: string, label: string) {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(href)}" style="background:#0f172a;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none">${escapeHtml(label)}</a></p>`;
+}
+
+function layout(content: string, footer: string) {
+  return `<!DOCTYPE html>
+<html lang="sv">
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#0f172a">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<p style="margin:0 0 16px;font-size:12px;color:#64748b">Brf Bergakungen</p>
+${content}
+</div>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#64748b">${footer}</p>
+</body>
+</html>`;
+}
+
+const settingsFooterText = `Du får det här mejlet för att du bor i Brf Bergakungen. Ändra under Inställningar: ${appUrl("/settings")}`;
+const settingsFooterHtml = `Du får det här mejlet för att du bor i Brf Bergakungen. <a href="${appUrl("/settings")}" style="color:#64748b">Ändra dina inställningar</a>.`;
+
+export function noticeEmail(notification: Notification, to: string): EmailMessage {
+  const label = notification.critical ? "LARM" : categoryLabels[notification.category];
+  const subject = `${label}: ${notification.title}`;
+  const url = appUrl(`/notifications/${notification.id}`);
+  const link = safeLink(notification.link);
+
+  const text = [
+    notification.title,
+    "",
+    notification.body ? markdownToPlainText(notification.body) : "",
+    ...(link ? ["", `Läs mer: ${link}`] : []),
+    "",
+    `Öppna i appen: ${url}`,
+    "",
+    "--",
+    settingsFooterText,
+  ].join("\n");
+
+  const html = layout(
+    `<h1 style="margin:0 0 16px;font-size:20px${notification.critical ? ";color:#dc2626" : ""}">${escapeHtml(subject)}</h1>
+${notification.body ? bodyHtml(notification.body) : ""}
+${link ? `<p style="margin:0 0 16px"><a href="${escapeHtml(link)}">Läs mer</a></p>` : ""}
+${button(url, "Öppna i appen")}`,
+    settingsFooterHtml
+  );
+
+  return { to, subject, text, html };
+}
+
+export function digestEmail(notifications: Notification[], digestId: number, to: string): EmailMessage {
+  const subject = notifications.length === 1
+    ? "Sammanfattning: 1 ny notis"
+    : `Sammanfattning: ${notifications.length} nya notiser`;
+  const url = appUrl(`/digests/${digestId}`);
+
+  const text = [
+    subject,
+    "",
+    ...notifications.flatMap(notification => [
+      `${categoryLabels[notification.category]}: ${notification.title}`,
+      notification.body ? markdownToPlainText(notification.body) : "",
+      "",
+    ]),
+    `Öppna sammanfattningen: ${url}`,
+    "",
+    "--",
+    settingsFooterText,
+  ].join("\n");
+
+  const html = layout(
+    `<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(subject)}</h1>
+${notifications.map(notification => `<h2 style="margin:0 0 8px;font-size:16px">${escapeHtml(`${categoryLabels[notification.category]}: ${notification.title}`)}</h2>
+${notification.body ? bodyHtml(notification.body) : ""}`).join("\n")}
+${button(url, "Öppna sammanfattningen")}`,
+    settingsFooterHtml
+  );
+
+  return { to, subject, text, html };
+}
+
+export function passwordResetEmail(resetUrl: string, to: string): EmailMessage {
+  const subject = "Återställ ditt lösenord";
+
+  const text = [
+    "Någon har bett om att återställa lösenordet för ditt konto i Bergakungen-appen.",
+    "",
+    `Välj ett nytt lösenord här: ${resetUrl}`,
+    "",
+    "Länken gäller i en timme. Har du inte bett om detta kan du strunta i mejlet.",
+  ].join("\n");
+
+  const html = layout(
+    `<h1 style="margin:0 0 16px;font-size:20px">${subject}</h1>
+<p style="margin:0 0 16px">Någon har bett om att återställa lösenordet för ditt konto i Bergakungen-appen.</p>
+${button(resetUrl, "Välj nytt lösenord")}
+<p style="margin:0 0 16px">Länken gäller i en timme. Har du inte bett om detta kan du strunta i mejlet.</p>`,
+    "Brf Bergakungen"
+  );
+
+  return { to, subject, text, html };
+}
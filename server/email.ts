@@ -0,0 +1,133 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer from "nodemailer";
+import { log } from "./vite";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface StoredEmail extends EmailMessage {
+  id: string;
+  from: string;
+  sentAt: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "Brf Bergakungen <noreply@bergakungen.se>";
+
+// Where the file transport drops messages, read back by the /dev/mailbox viewer
+export const MAILBOX_DIR = path.resolve(process.env.MAILBOX_DIR || ".mailbox");
+
+class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  async send(message: EmailMessage & { from: string }) {
+    await this.transporter.sendMail(message);
+  }
+}
+
+class FileTransport implements EmailTransport {
+  readonly name = "file";
+
+  async send(message: EmailMessage & { from: string }) {
+    const stored: StoredEmail = { ...message, id: randomUUID(), sentAt: new Date().toISOString() };
+    await fs.mkdir(MAILBOX_DIR, { recursive: true });
+    // Timestamped names keep the directory listing in send order
+    await fs.writeFile(
+      path.join(MAILBOX_DIR, `${Date.now()}-${stored.id}.json`),
+      JSON.stringify(stored, null, 2)
+    );
+  }
+}
+
+class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  // The text stays out of the log, it may hold a password reset link
+  async send(message: EmailMessage & { from: string }) {
+    console.log(`Email to ${message.to}: ${message.subject}`);
+  }
+}
+
+/**
+ * MAIL_TRANSPORT picks the transport explicitly. Otherwise SMTP is used when SMTP_HOST
+ * is set and the file mailbox in development. Production has no fallback, mail that
+ * silently goes nowhere would lock residents out of password resets.
+ */
+function createTransport(): EmailTransport {
+  const configured = process.env.MAIL_TRANSPORT
+    || (process.env.SMTP_HOST ? "smtp" : process.env.NODE_ENV === "production" ? undefined : "file");
+  if (!configured) {
+    throw new Error("No email transport configured, set SMTP_HOST or MAIL_TRANSPORT");
+  }
+
+  switch (configured) {
+    case "smtp":
+      return new SmtpTransport();
+    case "file":
+      return new FileTransport();
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${configured}"`);
+  }
+}
+
+let transport: EmailTransport | undefined;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createTransport();
+    log(`Sending email through the ${transport.name} transport`, "email");
+  }
+  return transport;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await getEmailTransport().send({ ...message, from: MAIL_FROM });
+}
+
+/**
+ * Messages written by the file transport, newest first.
+ */
+export async function readMailbox(): Promise<StoredEmail[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(MAILBOX_DIR);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const messages = await Promise.all(
+    files
+      .filter(file => file.endsWith(".json"))
+      .sort()
+      .reverse()
+      .map(async file => JSON.parse(await fs.readFile(path.join(MAILBOX_DIR, file), "utf8")) as StoredEmail)
+  );
+  return messages;
+}
+
+export async function clearMailbox(): Promise<void> {
+  await fs.rm(MAILBOX_DIR, { recursive: true, force: true });
+}
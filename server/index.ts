@@ -1,5 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startScheduler } from "./scheduler";
+import { startDeliveryWorker } from "./delivery-worker";
+import { startEmailWorker } from "./email-delivery";
+import { getEmailTransport } from "./email";
 import { setupVite, log } from "./vite";
 import path from "path";
 
@@ -25,6 +29,8 @@ app.use((req, res, next) => {
 
 (async () => {
   try {
+    // Picked up front so a missing mail setup stops the server instead of the first reset
+    getEmailTransport();
     const server = await registerRoutes(app);
 
     // Global error handler
@@ -55,6 +61,9 @@ app.use((req, res, next) => {
       reusePort: true,
     }, () => {
       log(`Server running at http://0.0.0.0:${port}`);
+      startScheduler();
+      startDeliveryWorker();
+      startEmailWorker();
     });
   } catch (err) {
     console.error('Failed to start server:', err);
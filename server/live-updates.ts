@@ -0,0 +1,205 @@
+import type { Request, Response } from "express";
+import { randomBytes } from "crypto";
+import type { Notification, User } from "@shared/schema";
+import type { LiveUpdate } from "@shared/live-updates";
+import { matchesAudience } from "@shared/audience";
+import { storage } from "./storage";
+
+// Enough to cover a phone that drops off the network for a few minutes
+const REPLAY_BUFFER_SIZE = 500;
+// Proxies close connections that stay quiet for too long
+const HEARTBEAT_MS = 25 * 1000;
+// Asked of the browser before it reconnects on its own
+const RETRY_MS = 5 * 1000;
+
+interface LiveClient {
+  // Replaced by updateLiveUser, so role and audience changes apply to open streams at once
+  user: User;
+  sessionId: string;
+  res: Response;
+}
+
+interface BufferedEvent {
+  id: string;
+  // Decides whether the user gets the event, and what it says to them
+  render: (user: User) => LiveUpdate | null;
+}
+
+// Event ids carry a per-process prefix, ids from before a restart can't be replayed
+const bootId = randomBytes(4).toString("hex");
+let sequence = 0;
+const buffer: BufferedEvent[] = [];
+const clients = new Set<LiveClient>();
+
+function isBoard(user: User) {
+  return user.role === "board" || user.role === "admin";
+}
+
+function write(client: LiveClient, event: BufferedEvent) {
+  const update = event.render(client.user);
+  if (update) {
+    client.res.write(`id: ${event.id}\ndata: ${JSON.stringify(update)}\n\n`);
+  }
+}
+
+function publish(render: BufferedEvent["render"]) {
+  const event = { id: `${bootId}-${++sequence}`, render };
+  buffer.push(event);
+  if (buffer.length > REPLAY_BUFFER_SIZE) {
+    buffer.shift();
+  }
+
+  clients.forEach(client => write(client, event));
+}
+
+function sequenceOf(event: BufferedEvent) {
+  return Number(event.id.split("-")[1]);
+}
+
+// The events after `lastEventId`, or null if some of them are no longer buffered
+function missedSince(lastEventId: string): BufferedEvent[] | null {
+  const [boot, seq] = lastEventId.split("-");
+  const last = Number(seq);
+  if (boot !== bootId || isNaN(last) || last > sequence) {
+    return null;
+  }
+
+  const oldest = buffer.length > 0 ? sequenceOf(buffer[0]) : sequence + 1;
+  if (last + 1 < oldest) {
+    return null;
+  }
+  return buffer.filter(event => sequenceOf(event) > last);
+}
+
+/**
+ * Keeps the response open as a Server-Sent Events stream. Browsers reconnect on their own
+ * and send the last id they saw as Last-Event-ID; the client hook passes it as a query
+ * parameter when it has to open a new EventSource itself.
+ */
+export function openLiveStream(req: Request, res: Response, user: User) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const client: LiveClient = { user, sessionId: req.sessionID, res };
+
+  const lastEventId = req.get("Last-Event-ID") || (typeof req.query.lastEventId === "string" ? req.query.lastEventId : "");
+  if (lastEventId) {
+    const missed = missedSince(lastEventId);
+    if (missed) {
+      missed.forEach(event => write(client, event));
+    } else {
+      res.write(`id: ${bootId}-${sequence}\ndata: ${JSON.stringify({ type: "resync" } satisfies LiveUpdate)}\n\n`);
+    }
+  }
+
+  clients.add(client);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+}
+
+/**
+ * Events from now on are filtered by the user's new role, port and apartment. Call after
+ * any change to them.
+ */
+export function updateLiveUser(user: User) {
+  clients.forEach(client => {
+    if (client.user.id === user.id) {
+      client.user = user;
+    }
+  });
+}
+
+function close(client: LiveClient) {
+  clients.delete(client);
+  client.res.end();
+}
+
+// On logout. The browser reconnects, and is turned away once the session is gone.
+export function closeSessionStreams(sessionId: string) {
+  clients.forEach(client => {
+    if (client.sessionId === sessionId) {
+      close(client);
+    }
+  });
+}
+
+// After a password change, which ends every other session of the user
+export function closeUserStreams(userId: number, exceptSessionId?: string) {
+  clients.forEach(client => {
+    if (client.user.id === userId && client.sessionId !== exceptSessionId) {
+      close(client);
+    }
+  });
+}
+
+// Sends fresh unread counts to the connected users a notice change affects
+async function refreshUnreadCounts(notification: Notification) {
+  const users = new Map<number, User>();
+  clients.forEach(client => {
+    if (matchesAudience(notification.audience, client.user)) {
+      users.set(client.user.id, client.user);
+    }
+  });
+
+  for (const user of Array.from(users.values())) {
+    const count = await storage.getUnreadNotificationCount(user);
+    publish(recipient => recipient.id === user.id ? { type: "unread-count", count } : null);
+  }
+}
+
+function noticeRecipient(notification: Notification, user: User) {
+  const listed = matchesAudience(notification.audience, user);
+  return { listed, receives: listed || isBoard(user) };
+}
+
+export async function broadcastNotification(notification: Notification) {
+  const attachments = await storage.getNotificationAttachments(notification);
+  publish(user => {
+    const { listed, receives } = noticeRecipient(notification, user);
+    return receives
+      ? { type: "notification.created", notification: { ...notification, read: false, acknowledged: false, attachments }, listed }
+      : null;
+  });
+  await refreshUnreadCounts(notification);
+}
+
+export function broadcastNotificationUpdate(notification: Notification) {
+  publish(user => {
+    const { listed, receives } = noticeRecipient(notification, user);
+    return receives ? { type: "notification.updated", notification, listed } : null;
+  });
+}
+
+export async function broadcastRecall(notification: Notification) {
+  publish(user => {
+    const { listed, receives } = noticeRecipient(notification, user);
+    return receives ? { type: "notification.removed", id: notification.id, listed } : null;
+  });
+  await refreshUnreadCounts(notification);
+}
+
+// Keeps the user's other tabs and devices in step after they read something
+export function sendUnreadCount(user: User, count: number, read?: number[] | "all") {
+  publish(recipient => recipient.id === user.id ? { type: "unread-count", count, read } : null);
+}
+
+// One confirmation covers the whole apartment
+export function broadcastAcknowledgement(user: User, notificationId: number) {
+  const apartment = user.apartmentNumber;
+  publish(recipient => {
+    const sameApartment = !!apartment && matchesAudience({ type: "apartments", apartments: [apartment] }, recipient);
+    return recipient.id === user.id || sameApartment
+      ? { type: "notification.acknowledged", id: notificationId }
+      : null;
+  });
+}
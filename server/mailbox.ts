@@ -0,0 +1,145 @@
+import type { Express, RequestHandler } from "express";
+import { MAILBOX_DIR, clearMailbox, getEmailTransport, readMailbox, type StoredEmail } from "./email";
+import { getRecordedSms, getSmsProvider, type RecordedSms } from "./sms";
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function page(title: string, content: string) {
+  return `<!DOCTYPE html>
+<html lang="sv">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0; font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #0f172a; }
+  header { display: flex; justify-content: space-between; align-items: center; padding: 12px 16px; border-bottom: 1px solid #e2e8f0; }
+  main { padding: 16px; }
+  a { color: inherit; }
+  .message { display: block; padding: 12px 16px; border-bottom: 1px solid #e2e8f0; text-decoration: none; }
+  .message:hover { background: #f8fafc; }
+  .meta { font-size: 12px; color: #64748b; }
+  pre { white-space: pre-wrap; background: #f8fafc; padding: 12px; border-radius: 6px; }
+  iframe { width: 100%; height: 480px; border: 1px solid #e2e8f0; border-radius: 6px; }
+</style>
+</head>
+<body>${content}</body>
+</html>`;
+}
+
+function listPage(messages: StoredEmail[]) {
+  const transport = getEmailTransport().name;
+  const notice = transport === "file"
+    ? `Meddelanden sparas i ${escapeHtml(MAILBOX_DIR)}`
+    : `E-post skickas just nu via ${transport}, inget hamnar här. Sätt MAIL_TRANSPORT=file för att använda brevlådan.`;
+
+  return page("Brevlåda", `
+<header>
+  <div><strong>Brevlåda</strong><div class="meta">${notice}</div></div>
+  <div><a href="/dev/sms">SMS</a> <form method="post" action="/dev/mailbox/clear" style="display:inline"><button type="submit">Töm</button></form></div>
+</header>
+${messages.length === 0
+    ? `<main class="meta">Inga meddelanden</main>`
+    : messages.map(message => `
+<a class="message" href="/dev/mailbox/${message.id}">
+  <div><strong>${escapeHtml(message.subject)}</strong></div>
+  <div class="meta">Till ${escapeHtml(message.to)} · ${new Date(message.sentAt).toLocaleString("sv-SE")}</div>
+</a>`).join("")}`);
+}
+
+function messagePage(message: StoredEmail) {
+  return page(message.subject, `
+<header>
+  <div>
+    <strong>${escapeHtml(message.subject)}</strong>
+    <div class="meta">Från ${escapeHtml(message.from)} · Till ${escapeHtml(message.to)} · ${new Date(message.sentAt).toLocaleString("sv-SE")}</div>
+  </div>
+  <a href="/dev/mailbox">Tillbaka</a>
+</header>
+<main>
+  <iframe src="/dev/mailbox/${message.id}/html" sandbox></iframe>
+  <h3>Textversion</h3>
+  <pre>${escapeHtml(message.text)}</pre>
+</main>`);
+}
+
+function smsPage(messages: RecordedSms[]) {
+  const notice = getSmsProvider().name === "fake"
+    ? "SMS från den lokala test-leverantören, sparas bara i minnet"
+    : `SMS skickas just nu via ${getSmsProvider().name}, inget hamnar här`;
+
+  return page("SMS", `
+<header>
+  <div><strong>SMS</strong><div class="meta">${notice}</div></div>
+  <a href="/dev/mailbox">E-post</a>
+</header>
+${messages.length === 0
+    ? `<main class="meta">Inga meddelanden</main>`
+    : messages.map(message => `
+<div class="message">
+  <div class="meta">Till ${escapeHtml(message.to)} · ${new Date(message.sentAt).toLocaleString("sv-SE")} · ${message.text.length} tecken</div>
+  <pre>${escapeHtml(message.text)}</pre>
+</div>`).join("")}`);
+}
+
+/**
+ * A web view of the file transport's messages and the fake SMS provider's texts, so sends
+ * can be checked without a mail server or SMS gateway. Only registered outside production,
+ * and behind the given guard since the mailbox holds everyone's reset links.
+ */
+export function registerMailboxRoutes(app: Express, guard: RequestHandler) {
+  app.get("/dev/mailbox", guard, async (_req, res) => {
+    try {
+      res.send(listPage(await readMailbox()));
+    } catch (error) {
+      console.error('Failed to read mailbox:', error);
+      res.status(500).send("Failed to read mailbox");
+    }
+  });
+
+  app.get("/dev/sms", guard, (_req, res) => {
+    res.send(smsPage(getRecordedSms()));
+  });
+
+  app.post("/dev/mailbox/clear", guard, async (_req, res) => {
+    try {
+      await clearMailbox();
+      res.redirect("/dev/mailbox");
+    } catch (error) {
+      console.error('Failed to clear mailbox:', error);
+      res.status(500).send("Failed to clear mailbox");
+    }
+  });
+
+  app.get("/dev/mailbox/:id", guard, async (req, res) => {
+    try {
+      const message = (await readMailbox()).find(message => message.id === req.params.id);
+      if (!message) {
+        return res.status(404).send("Message not found");
+      }
+      res.send(messagePage(message));
+    } catch (error) {
+      console.error('Failed to read mailbox:', error);
+      res.status(500).send("Failed to read mailbox");
+    }
+  });
+
+  app.get("/dev/mailbox/:id/html", guard, async (req, res) => {
+    try {
+      const message = (await readMailbox()).find(message => message.id === req.params.id);
+      if (!message) {
+        return res.status(404).send("Message not found");
+      }
+      res.send(message.html);
+    } catch (error) {
+      console.error('Failed to read mailbox:', error);
+      res.status(500).send("Failed to read mailbox");
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import type { Notification } from "@shared/schema";
+import { storage, type QueuedDelivery } from "./storage";
+import { wakeDeliveryWorker } from "./delivery-worker";
+import { quietHoursEnd } from "./digest";
+
+/**
+ * Queues an already stored notification for every active subscription in its audience.
+ * Used both for immediate sends and by the scheduler. The actual pushes are made by
+ * server/delivery-worker.ts. Returns the number of deliveries queued.
+ */
+export async function queuePushNotification(notification: Notification): Promise<number> {
+  // Residents who muted the category are skipped, urgent notices and critical alerts reach everyone
+  const subscriptions = await storage.getActivePushSubscriptionsForAudience(
+    notification.audience,
+    notification.critical ? undefined : notification.category
+  );
+  console.log(`Found ${subscriptions.length} active subscriptions in audience of notification ${notification.id}`);
+
+  const settings = await storage.getNotificationSettingsForUsers(
+    Array.from(new Set(subscriptions.map(subscription => subscription.userId)))
+  );
+  const now = new Date();
+  const deliveries: QueuedDelivery[] = [];
+
+  for (const subscription of subscriptions) {
+    const userSettings = settings.get(subscription.userId);
+    // Critical alerts ignore both digests and quiet hours
+    if (!userSettings || notification.critical) {
+      deliveries.push({ subscription });
+      continue;
+    }
+
+    // Residents on digests get everything but urgent notices in their next digest instead
+    if (userSettings.deliveryMode !== "immediate" && notification.category !== "urgent") {
+      continue;
+    }
+
+    deliveries.push({ subscription, notBefore: quietHoursEnd(userSettings, now) ?? undefined });
+  }
+
+  const queued = await storage.enqueueDeliveries(notification.id, deliveries, notification.revision);
+  console.log(`Queued ${queued} push deliveries for notification ${notification.id}`);
+
+  if (queued > 0) {
+    wakeDeliveryWorker();
+  }
+  return queued;
+}
@@ -0,0 +1,242 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { User } from "@shared/schema";
+import { hashPassword } from "./auth";
+import { registerRoutes } from "./routes";
+
+const storage = vi.hoisted(() => ({
+  getUser: vi.fn(),
+  getUserByEmail: vi.fn(),
+  getUsableInvitationCode: vi.fn(),
+  createUserWithInvitation: vi.fn(),
+  getUnreadNotificationCount: vi.fn(),
+  updateUserPassword: vi.fn(),
+  createPasswordResetToken: vi.fn(),
+  claimPasswordResetToken: vi.fn(),
+  replacePushSubscription: vi.fn(),
+}));
+const sendEmail = vi.hoisted(() => vi.fn());
+
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./db", () => ({ db: {} }));
+vi.mock("./vite", () => ({ log: () => {} }));
+vi.mock("./email", async (importOriginal) => ({ ...await importOriginal<typeof import("./email")>(), sendEmail }));
+
+const PASSWORD = "rätt lösenord";
+let passwordHash: string;
+let user: User;
+let server: Server;
+let baseUrl: string;
+
+async function request(method: string, path: string, options: { body?: unknown; cookie?: string } = {}) {
+  return fetch(baseUrl + path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      // The session cookie is secure, the app sits behind a proxy that terminates TLS
+      "X-Forwarded-Proto": "https",
+      ...(options.cookie ? { Cookie: options.cookie } : {}),
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+}
+
+function sessionCookie(response: Response) {
+  return response.headers.get("set-cookie")!.split(";")[0];
+}
+
+async function login(password = PASSWORD) {
+  const response = await request("POST", "/api/login", { body: { email: user.email, password } });
+  expect(response.status).toBe(200);
+  return sessionCookie(response);
+}
+
+async function isLoggedIn(cookie: string) {
+  const response = await request("GET", "/api/notifications/unread-count", { cookie });
+  return response.status === 200;
+}
+
+beforeAll(async () => {
+  passwordHash = await hashPassword(PASSWORD);
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  user = {
+    id: 1,
+    email: "anna@example.com",
+    password: passwordHash,
+    displayName: "Anna",
+    apartmentNumber: "12",
+    port: "B",
+    phoneNumber: null,
+    role: "resident",
+    apartmentVerified: true,
+    offlineData: {},
+    sessionVersion: 0,
+  };
+  storage.getUser.mockImplementation(async (id: number) => id === user.id ? user : undefined);
+  storage.getUserByEmail.mockImplementation(async (email: string) => email === user.email ? user : undefined);
+  storage.getUnreadNotificationCount.mockResolvedValue(0);
+  // Like the database, a new password bumps the session version
+  storage.updateUserPassword.mockImplementation(async (_id: number, password: string) => {
+    user = { ...user, password, sessionVersion: user.sessionVersion + 1 };
+    return user.sessionVersion;
+  });
+});
+
+describe("POST /api/login", () => {
+  it("logs in with the right password", async () => {
+    expect(await isLoggedIn(await login())).toBe(true);
+  });
+
+  it("answers a wrong password and an unknown email the same way", async () => {
+    const wrongPassword = await request("POST", "/api/login", { body: { email: user.email, password: "fel" } });
+    const unknownEmail = await request("POST", "/api/login", { body: { email: "okand@example.com", password: PASSWORD } });
+
+    expect(wrongPassword.status).toBe(401);
+    expect(unknownEmail.status).toBe(401);
+    expect(await unknownEmail.json()).toEqual(await wrongPassword.json());
+  });
+
+  it("refuses a body that isn't an email and a password", async () => {
+    const objectPassword = await request("POST", "/api/login", { body: { email: user.email, password: { length: 1 } } });
+    const arrayEmail = await request("POST", "/api/login", { body: { email: [user.email], password: PASSWORD } });
+    const empty = await request("POST", "/api/login", { body: {} });
+
+    expect(objectPassword.status).toBe(400);
+    expect(arrayEmail.status).toBe(400);
+    expect(empty.status).toBe(400);
+    expect(storage.getUserByEmail).not.toHaveBeenCalled();
+  });
+
+  it("refuses accounts still on the old shared password", async () => {
+    user = { ...user, password: "bergakungen" };
+    const response = await request("POST", "/api/login", { body: { email: user.email, password: "bergakungen" } });
+    expect(response.status).toBe(401);
+  });
+});
+
+describe("POST /api/register", () => {
+  const registration = { email: "anna@example.com", password: "ett lösenord", invitationCode: "ABCD-2345" };
+
+  it("checks the invitation code before telling whether the email is taken", async () => {
+    storage.getUsableInvitationCode.mockResolvedValue(undefined);
+    const response = await request("POST", "/api/register", { body: registration });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toMatch(/Inbjudningskoden/);
+    expect(storage.getUserByEmail).not.toHaveBeenCalled();
+  });
+
+  it("tells a resident with a valid code that the email is taken", async () => {
+    storage.getUsableInvitationCode.mockResolvedValue({ id: 1, code: "ABCD2345", apartmentNumber: "12" });
+    const response = await request("POST", "/api/register", { body: registration });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toMatch(/redan registrerad/);
+    expect(storage.createUserWithInvitation).not.toHaveBeenCalled();
+  });
+});
+
+describe("sessions", () => {
+  it("ends a session when the user's session version moves on", async () => {
+    const cookie = await login();
+    user = { ...user, sessionVersion: 1 };
+    expect(await isLoggedIn(cookie)).toBe(false);
+  });
+
+  it("logs out other sessions but keeps this one on a password change", async () => {
+    const here = await login();
+    const elsewhere = await login();
+
+    const response = await request("POST", "/api/change-password", {
+      cookie: here,
+      body: { currentPassword: PASSWORD, newPassword: "ett nytt lösenord" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await isLoggedIn(here)).toBe(true);
+    expect(await isLoggedIn(elsewhere)).toBe(false);
+  });
+});
+
+describe("password reset", () => {
+  it("creates a token that expires in an hour and stores only its digest", async () => {
+    const before = Date.now();
+    const response = await request("POST", "/api/forgot-password", { body: { email: user.email } });
+
+    expect(response.status).toBe(200);
+    const [userId, tokenHash, expiresAt] = storage.createPasswordResetToken.mock.calls[0];
+    expect(userId).toBe(user.id);
+    expect(expiresAt.getTime() - before).toBeGreaterThanOrEqual(60 * 60 * 1000);
+    expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+    expect(sendEmail.mock.calls[0][0].text).not.toContain(tokenHash);
+  });
+
+  it("answers unknown emails as if a link was sent", async () => {
+    const response = await request("POST", "/api/forgot-password", { body: { email: "okand@example.com" } });
+
+    expect(response.status).toBe(200);
+    expect(storage.createPasswordResetToken).not.toHaveBeenCalled();
+  });
+
+  it("refuses a token that is used, expired or unknown", async () => {
+    storage.claimPasswordResetToken.mockResolvedValue(undefined);
+    const response = await request("POST", "/api/reset-password", { body: { token: "abc", password: "ett nytt lösenord" } });
+
+    expect(response.status).toBe(400);
+    expect(storage.updateUserPassword).not.toHaveBeenCalled();
+  });
+
+  it("sets the password and logs out every other session", async () => {
+    const elsewhere = await login();
+    storage.claimPasswordResetToken.mockResolvedValue({ id: 1, userId: user.id });
+
+    const response = await request("POST", "/api/reset-password", { body: { token: "abc", password: "ett nytt lösenord" } });
+
+    expect(response.status).toBe(200);
+    expect(await isLoggedIn(sessionCookie(response))).toBe(true);
+    expect(await isLoggedIn(elsewhere)).toBe(false);
+  });
+});
+
+describe("POST /api/push/subscription-change", () => {
+  const change = {
+    oldEndpoint: "https://push.example.com/old",
+    subscription: { endpoint: "https://push.example.com/new", keys: { p256dh: "key", auth: "auth" } },
+  };
+
+  it("moves an active device over to the new subscription", async () => {
+    storage.replacePushSubscription.mockResolvedValue({ id: 7, active: true });
+    const response = await request("POST", "/api/push/subscription-change", { body: change });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 7, active: true });
+  });
+
+  it("doesn't bring back a device the resident removed", async () => {
+    storage.replacePushSubscription.mockResolvedValue({ id: 7, active: false });
+    const response = await request("POST", "/api/push/subscription-change", { body: change });
+
+    expect(response.status).toBe(410);
+  });
+
+  it("answers 404 for an unknown endpoint", async () => {
+    storage.replacePushSubscription.mockResolvedValue(undefined);
+    const response = await request("POST", "/api/push/subscription-change", { body: change });
+
+    expect(response.status).toBe(404);
+  });
+});
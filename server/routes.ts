@@ -1,8 +1,59 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import webpush from "web-push";
-import { insertPushSubscriptionSchema } from "@shared/schema";
+import {
+  subscribeSchema,
+  unsubscribeSchema,
+  subscriptionChangeSchema,
+  renameDeviceSchema,
+  pushOpenedSchema,
+  registerSchema,
+  loginSchema,
+  generateInvitationsSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  updateProfileSchema,
+  updateRoleSchema,
+  scheduleSchema,
+  richPushSchema,
+  categorySchema,
+  notificationPreferencesSchema,
+  notificationSettingsSchema,
+  DEFAULT_CATEGORY,
+  updateScheduledNotificationSchema,
+  editNotificationSchema,
+  notificationTitleSchema,
+  notificationBodySchema,
+  noticeLinkSchema,
+  attachmentIdsSchema,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import { audienceSchema, ALL_RESIDENTS } from "@shared/audience";
+import { isSmsCapable, normalizePhoneNumber } from "@shared/phone";
 import { storage } from "./storage";
+import { queuePushNotification } from "./push";
+import { getVapidKeys, rotateVapidKeys } from "./vapid";
+import { sendRecallPush, sendReminderPush, sendTestPush } from "./delivery-worker";
+import {
+  openLiveStream,
+  broadcastNotification,
+  broadcastNotificationUpdate,
+  broadcastRecall,
+  broadcastAcknowledgement,
+  updateLiveUser,
+  closeSessionStreams,
+  closeUserStreams,
+  sendUnreadCount,
+} from "./live-updates";
+import { queueEmailNotification } from "./email-delivery";
+import { sendSmsNotification } from "./sms-delivery";
+import { sendEmail } from "./email";
+import { appUrl, passwordResetEmail } from "./email-templates";
+import { registerMailboxRoutes } from "./mailbox";
+import { attachmentPath, cleanFileName, deleteAttachmentFile, detectMimeType, saveAttachmentFile } from "./attachments";
+import { MAX_ATTACHMENT_BYTES, attachmentMimeTypes, formatFileSize } from "@shared/attachments";
+import { hashPassword, comparePasswords, generateToken, hashToken, generateInvitationCode } from "./auth";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import * as schema from "@shared/schema";
@@ -13,15 +64,61 @@ import session from "express-session";
 declare module 'express-session' {
   interface SessionData {
     userId?: number;
+    // users.sessionVersion at login, see loadSessionUser
+    sessionVersion?: number;
   }
 }
 
-// Middleware to check if user is authenticated
-const requireAuth = (req: any, res: any, next: any) => {
+// Reset links are valid for one hour
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * The logged-in user, or undefined when the session has ended: the user is gone or changed
+ * the password since this session logged in. Such a session is destroyed.
+ */
+async function loadSessionUser(req: any): Promise<User | undefined> {
   if (!req.session.userId) {
-    return res.status(401).json({ error: "Unauthorized" });
+    return undefined;
+  }
+
+  const user = await storage.getUser(req.session.userId);
+  if (!user || user.sessionVersion !== (req.session.sessionVersion ?? 0)) {
+    await new Promise(resolve => req.session.destroy(resolve));
+    return undefined;
+  }
+  return user;
+}
+
+// Middleware to check if user is authenticated
+const requireAuth = async (req: any, res: any, next: any) => {
+  try {
+    const user = await loadSessionUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Middleware to check that the logged in user holds one of the given roles.
+// The role is read from the database on every request so demotions apply at once.
+const requireRole = (...roles: UserRole[]) => async (req: any, res: any, next: any) => {
+  try {
+    const user = await loadSessionUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (!roles.includes(user.role)) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
   }
-  next();
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -43,30 +140,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  if (process.env.NODE_ENV !== "production") {
+    registerMailboxRoutes(app, requireRole("admin"));
+  }
+
   // Auth routes
   app.post("/api/register", async (req, res) => {
     try {
-      const { email } = req.body;
+      let parsed;
+      try {
+        parsed = registerSchema.parse(req.body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Ogiltiga uppgifter" });
+        }
+        throw error;
+      }
+
+      // The code is checked first, without one the answer must not tell which emails have accounts
+      if (!(await storage.getUsableInvitationCode(parsed.invitationCode))) {
+        return res.status(400).json({ message: "Inbjudningskoden är ogiltig eller redan använd" });
+      }
 
       // Check if user already exists
-      const existingUser = await db.select()
-        .from(schema.users)
-        .where(eq(schema.users.email, email));
+      const existingUser = await storage.getUserByEmail(parsed.email);
 
-      if (existingUser.length > 0) {
+      if (existingUser) {
         return res.status(400).json({ message: "E-postadressen är redan registrerad" });
       }
 
-      // Create new user
-      const [user] = await db.insert(schema.users)
-        .values({
-          email,
-          password: "brf-docenten-2024", // Pre-filled password
-          offlineData: {}
-        })
-        .returning();
+      // Create new user bound to the apartment the invitation code was issued for. The claim
+      // fails if someone else used the code in the meantime.
+      const user = await storage.createUserWithInvitation({
+        email: parsed.email,
+        password: await hashPassword(parsed.password),
+      }, parsed.invitationCode);
+
+      if (!user) {
+        return res.status(400).json({ message: "Inbjudningskoden är ogiltig eller redan använd" });
+      }
 
       req.session.userId = user.id;
+      req.session.sessionVersion = user.sessionVersion;
       res.status(201).json({ success: true });
     } catch (error) {
       console.error('Registration error:', error);
@@ -76,17 +191,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/login", async (req, res) => {
     try {
-      const { email, password } = req.body;
+      let parsed;
+      try {
+        parsed = loginSchema.parse(req.body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Ogiltiga uppgifter" });
+        }
+        throw error;
+      }
 
-      const [user] = await db.select()
-        .from(schema.users)
-        .where(eq(schema.users.email, email));
+      const user = await storage.getUserByEmail(parsed.email);
 
-      if (!user || user.password !== password) {
+      // The same answer, and the same work, for unknown emails and accounts still on the old
+      // shared password, which have to go through "Glömt lösenord"
+      const valid = await comparePasswords(parsed.password, user?.password);
+      if (!user || !valid) {
         return res.status(401).json({ message: "Fel e-postadress eller lösenord" });
       }
 
       req.session.userId = user.id;
+      req.session.sessionVersion = user.sessionVersion;
       res.json({ success: true });
     } catch (error) {
       console.error('Login error:', error);
@@ -94,7 +219,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/change-password", requireAuth, async (req, res) => {
+    try {
+      let parsed;
+      try {
+        parsed = changePasswordSchema.parse(req.body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Ogiltiga uppgifter" });
+        }
+        throw error;
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "Användaren hittades inte" });
+      }
+
+      if (!(await comparePasswords(parsed.currentPassword, user.password))) {
+        return res.status(400).json({ message: "Nuvarande lösenord är fel" });
+      }
+
+      // Logs out the user's other sessions, this one stays logged in
+      req.session.sessionVersion = await storage.updateUserPassword(user.id, await hashPassword(parsed.newPassword));
+      closeUserStreams(user.id, req.sessionID);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(500).json({ message: "Kunde inte byta lösenord" });
+    }
+  });
+
+  app.post("/api/forgot-password", async (req, res) => {
+    try {
+      let parsed;
+      try {
+        parsed = forgotPasswordSchema.parse(req.body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Ogiltig e-postadress" });
+        }
+        throw error;
+      }
+
+      const user = await storage.getUserByEmail(parsed.email);
+
+      // Always answer the same way so the endpoint can't be used to probe for accounts
+      if (user) {
+        const token = generateToken();
+        await storage.createPasswordResetToken(
+          user.id,
+          hashToken(token),
+          new Date(Date.now() + PASSWORD_RESET_TTL_MS)
+        );
+
+        // Never from the Host header, a forged one would send the token to another site
+        const resetUrl = appUrl(`/auth?token=${token}`);
+        try {
+          await sendEmail(passwordResetEmail(resetUrl, user.email));
+        } catch (error) {
+          // Answered the same as a success, a failed send must not reveal that the account exists
+          console.error(`Failed to send password reset email to user ${user.id}:`, error);
+        }
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ message: "Kunde inte skicka återställningslänk" });
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res) => {
+    try {
+      let parsed;
+      try {
+        parsed = resetPasswordSchema.parse(req.body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Ogiltiga uppgifter" });
+        }
+        throw error;
+      }
+
+      const token = await storage.claimPasswordResetToken(hashToken(parsed.token));
+      if (!token) {
+        return res.status(400).json({ message: "Länken är ogiltig eller har gått ut" });
+      }
+
+      // Whoever knew the old password is logged out everywhere
+      const sessionVersion = await storage.updateUserPassword(token.userId, await hashPassword(parsed.password));
+      closeUserStreams(token.userId);
+
+      req.session.userId = token.userId;
+      req.session.sessionVersion = sessionVersion;
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ message: "Kunde inte återställa lösenordet" });
+    }
+  });
+
   app.post("/api/logout", (req, res) => {
+    closeSessionStreams(req.sessionID);
     req.session.destroy(() => {
       res.json({ success: true });
     });
@@ -115,8 +342,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email: user.email,
         displayName: user.displayName,
         apartmentNumber: user.apartmentNumber,
+        apartmentVerified: user.apartmentVerified,
         port: user.port,
         phoneNumber: user.phoneNumber,
+        role: user.role,
         offlineData: user.offlineData,
       });
     } catch (error) {
@@ -135,27 +364,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "User not found" });
       }
 
+      const parsed = updateProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: parsed.error.errors[0]?.message || "Ogiltiga uppgifter",
+          details: parsed.error.errors,
+        });
+      }
+      const { displayName } = parsed.data;
+
+      // A verified apartment came from an invitation code and can't be self-declared. Its
+      // port is set once, after that moving to another port's notices goes through the board.
+      const apartmentNumber = user.apartmentVerified ? user.apartmentNumber : parsed.data.apartmentNumber || null;
+      const port = user.apartmentVerified && user.port ? user.port : parsed.data.port || null;
+
+      // Stored as E.164 so it can be used for SMS as is
+      const phoneNumber = parsed.data.phoneNumber ? normalizePhoneNumber(parsed.data.phoneNumber) : null;
+
       const [updatedUser] = await db.update(schema.users)
         .set({
-          displayName: req.body.displayName,
-          apartmentNumber: req.body.apartmentNumber,
-          port: req.body.port,
-          phoneNumber: req.body.phoneNumber,
+          displayName,
+          apartmentNumber,
+          port,
+          phoneNumber,
           offlineData: {
             ...(user.offlineData as Record<string, any> || {}),
-            displayName: req.body.displayName,
-            apartmentNumber: req.body.apartmentNumber,
-            port: req.body.port,
-            phoneNumber: req.body.phoneNumber,
+            displayName,
+            apartmentNumber,
+            port,
+            phoneNumber,
             lastUpdated: new Date().toISOString(),
           } as Record<string, any>,
         })
         .where(eq(schema.users.id, req.session.userId!))
         .returning();
+      updateLiveUser(updatedUser);
 
       res.json({
         displayName: updatedUser.displayName,
         apartmentNumber: updatedUser.apartmentNumber,
+        apartmentVerified: updatedUser.apartmentVerified,
         port: updatedUser.port,
         phoneNumber: updatedUser.phoneNumber,
         offlineData: updatedUser.offlineData,
@@ -166,183 +414,1054 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  if (!process.env.VAPID_PUBLIC_KEY || !process.env.VAPID_PRIVATE_KEY) {
-    console.warn("Warning: VAPID keys not configured - push notifications will be unavailable");
-    return httpServer;
-  }
-
-  // Set proper contact email and log VAPID configuration status
-  console.log('Configuring VAPID keys for web push...');
-  try {
-    webpush.setVapidDetails(
-      'mailto:docenten@example.com', // Updated with a proper contact email
-      process.env.VAPID_PUBLIC_KEY!,
-      process.env.VAPID_PRIVATE_KEY!
-    );
-    console.log('VAPID configuration successful - Public key length:', process.env.VAPID_PUBLIC_KEY!.length);
-  } catch (error) {
-    console.error('Failed to set VAPID details:', error);
-  }
-
-  app.get("/api/notifications", async (_req, res) => {
+  // Role management, admins only. The first admin has to be promoted directly in the database.
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
     try {
-      const notifications = await storage.getNotifications();
-      console.log('Fetched notifications:', notifications);
-      res.json(notifications || []);
+      const users = await storage.getUsers();
+      res.json(users.map(user => ({
+        id: user.id,
+        email: user.email,
+        displayName: user.displayName,
+        apartmentNumber: user.apartmentNumber,
+        role: user.role,
+      })));
     } catch (error) {
-      console.error('Failed to fetch notifications:', error);
-      res.status(500).json({ error: "Failed to fetch notifications" });
+      console.error('Failed to fetch users:', error);
+      res.status(500).json({ error: "Failed to fetch users" });
     }
   });
 
-  app.delete("/api/notifications/:id", async (req, res) => {
+  app.patch("/api/users/:id/role", requireRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ error: "Invalid notification ID" });
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      let parsed;
+      try {
+        parsed = updateRoleSchema.parse(req.body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ error: "Invalid role", details: error.errors });
+        }
+        throw error;
+      }
+
+      if (id === req.session.userId && parsed.role !== "admin") {
+        return res.status(400).json({ error: "Du kan inte ta bort din egen administratörsroll" });
       }
 
-      // Delete the notification
-      await db.delete(schema.notifications)
-        .where(eq(schema.notifications.id, id))
-        .execute();
+      const user = await storage.updateUserRole(id, parsed.role);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      // A demoted board member stops getting notices for other audiences straight away
+      updateLiveUser(user);
 
-      res.status(200).json({ success: true });
+      res.json({ id: user.id, role: user.role });
     } catch (error) {
-      console.error('Failed to delete notification:', error);
-      res.status(500).json({ error: "Failed to delete notification" });
+      console.error('Failed to update role:', error);
+      res.status(500).json({ error: "Failed to update role" });
     }
   });
 
-  app.post("/api/notifications/subscribe", async (req, res) => {
+  // Invitation codes, one per resident, bound to an apartment
+  app.get("/api/invitations", requireRole("board", "admin"), async (_req, res) => {
     try {
-      console.log('Received subscription request:', req.body);
-
-      // First verify the user exists
-      const user = await storage.getUser(req.body.userId);
-      if (!user) {
-        console.error('User not found:', req.body.userId);
-        return res.status(400).json({ error: "Invalid user ID" });
-      }
+      const invitations = await storage.getInvitationCodes();
+      res.json(invitations);
+    } catch (error) {
+      console.error('Failed to fetch invitations:', error);
+      res.status(500).json({ error: "Failed to fetch invitations" });
+    }
+  });
 
+  app.post("/api/invitations", requireRole("board", "admin"), async (req, res) => {
+    try {
       let parsed;
       try {
-        parsed = insertPushSubscriptionSchema.parse(req.body);
-        console.log('Validated subscription data:', parsed);
+        parsed = generateInvitationsSchema.parse(req.body);
       } catch (error) {
         if (error instanceof ZodError) {
-          console.error('Subscription validation error:', error.errors);
-          return res.status(400).json({ error: "Invalid subscription data", details: error.errors });
+          return res.status(400).json({ error: error.errors[0]?.message || "Invalid range", details: error.errors });
         }
         throw error;
       }
 
-      console.log('Creating push subscription:', parsed);
-      const subscription = await storage.createPushSubscription(parsed);
-      console.log('Push subscription created:', subscription);
-      res.json(subscription);
+      const codes = [];
+      for (let apartment = parsed.fromApartment; apartment <= parsed.toApartment; apartment++) {
+        codes.push({ code: generateInvitationCode(), apartmentNumber: String(apartment) });
+      }
+
+      const invitations = await storage.createInvitationCodes(codes, req.session.userId!);
+      res.status(201).json(invitations);
     } catch (error) {
-      console.error('Subscription error:', error);
-      res.status(400).json({ error: "Invalid subscription data" });
+      console.error('Failed to create invitations:', error);
+      res.status(500).json({ error: "Failed to create invitations" });
     }
   });
 
-  app.post("/api/notifications/send", async (req, res) => {
+  app.delete("/api/invitations/:id", requireRole("board", "admin"), async (req, res) => {
     try {
-      const subscriptions = await storage.getActivePushSubscriptions();
-      console.log('Found active subscriptions:', subscriptions.length);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid invitation ID" });
+      }
 
-      if (subscriptions.length === 0) {
-        return res.status(400).json({ error: "No active subscriptions found" });
+      const invitation = await storage.revokeInvitationCode(id);
+      if (!invitation) {
+        return res.status(404).json({ error: "Invitation not found or already used" });
       }
 
-      // First save the notification to the database
-      const [notification] = await db.insert(schema.notifications)
-        .values({
-          title: req.body.title,
-          body: req.body.body, // Store the message body
-          link: req.body.link,
-          createdAt: new Date(),
-        })
-        .returning();
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error);
+      res.status(500).json({ error: "Failed to revoke invitation" });
+    }
+  });
 
-      console.log('Created notification:', notification);
+  // Browsers need the public key to subscribe. Served at runtime so rotating the keys
+  // doesn't need a new build of the app.
+  app.get("/api/push/public-key", async (_req, res) => {
+    try {
+      const keys = await getVapidKeys();
+      if (!keys) {
+        return res.status(503).json({ error: "Push notifications are not configured" });
+      }
 
-      // In the payload, add the body field as a separate field since it's not stored in the database
-      const payload = JSON.stringify({
-        title: req.body.title,
-        body: req.body.body || 'Nytt meddelande från Bergakungen',
-        url: '/', // Default URL (app home)
-        link: req.body.link || null, // Include the link if it exists for external navigation
-        id: notification.id
-      });
-      console.log('Sending notification payload:', payload);
-
-      // Log details about each subscription we're about to send to
-      subscriptions.forEach(sub => {
-        if (sub.subscription) {
-          try {
-            const parsed = typeof sub.subscription === 'string' 
-              ? JSON.parse(sub.subscription) 
-              : sub.subscription;
-            
-            console.log(`Subscription ${sub.id} details:`);
-            console.log(`- Endpoint: ${parsed.endpoint ? parsed.endpoint.substring(0, 30) + '...' : 'Missing'}`);
-            console.log(`- Auth: ${parsed.keys?.auth ? 'Present' : 'Missing'}`);
-            console.log(`- P256dh: ${parsed.keys?.p256dh ? 'Present' : 'Missing'}`);
-            
-            // Detect if this is likely an Apple device
-            if (parsed.endpoint && parsed.endpoint.includes('apple')) {
-              console.log(`- Detected: Likely iOS device`);
-            }
-          } catch (e) {
-            console.error('Failed to parse subscription details:', e);
-          }
-        }
-      });
-      
-      // Now attempt to send the notifications
-      const notifications = subscriptions.map(sub => {
-        console.log('Sending notification to subscription:', sub.id);
-        return webpush.sendNotification(
-          sub.subscription as webpush.PushSubscription,
-          payload
-        ).then(result => {
-          console.log(`Successfully sent notification to subscription ${sub.id}`, {
-            statusCode: result.statusCode,
-            headers: result.headers ? 'Present' : 'Missing'
-          });
-          return result;
-        }).catch(error => {
-          console.error(`Failed to send notification to subscription ${sub.id}:`, {
-            statusCode: error.statusCode,
-            message: error.message,
-            headers: error.headers ? JSON.stringify(error.headers) : 'No headers',
-            body: error.body ? JSON.stringify(error.body) : 'No body'
-          });
-          
-          if (error.statusCode === 410) {
-            // Subscription has expired or is invalid
-            console.log(`Subscription ${sub.id} is no longer valid`);
-          } else if (error.statusCode === 400) {
-            console.log(`Subscription ${sub.id} has a bad request - likely malformed`);
-          } else if (error.statusCode === 404) {
-            console.log(`Subscription ${sub.id} not found - client may have unsubscribed`);
-          } else if (error.statusCode === 429) {
-            console.log(`Rate limited when sending to subscription ${sub.id}`);
-          }
-          return null;
-        });
-      });
+      res.set("Cache-Control", "no-cache");
+      res.json({ publicKey: keys.publicKey });
+    } catch (error) {
+      console.error('Failed to fetch VAPID public key:', error);
+      res.status(500).json({ error: "Failed to fetch public key" });
+    }
+  });
 
-      const results = await Promise.all(notifications);
-      const successCount = results.filter(Boolean).length;
-      console.log(`Successfully sent ${successCount} notifications`);
+  app.get("/api/push/keys", requireRole("admin"), async (_req, res) => {
+    try {
+      const keys = await getVapidKeys();
+      res.json(keys
+        ? { publicKey: keys.publicKey, source: keys.source, createdAt: keys.createdAt }
+        : { publicKey: null, source: null, createdAt: null });
+    } catch (error) {
+      console.error('Failed to fetch VAPID keys:', error);
+      res.status(500).json({ error: "Failed to fetch keys" });
+    }
+  });
 
-      res.json({ success: true, sent: successCount });
+  // Every device has to subscribe again afterwards, the app does that on its next start
+  app.post("/api/push/keys/rotate", requireRole("admin"), async (req, res) => {
+    try {
+      const keys = await rotateVapidKeys(req.session.userId!);
+      res.json({ publicKey: keys.publicKey, source: keys.source, createdAt: keys.createdAt });
     } catch (error) {
-      console.error('Failed to send notifications:', error);
-      res.status(500).json({ error: "Failed to send notifications" });
+      console.error('Failed to rotate VAPID keys:', error);
+      res.status(500).json({ error: "Failed to rotate keys" });
+    }
+  });
+
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      // Only notices the user was targeted by
+      const notifications = await storage.getNotificationsForUser(user);
+      res.json(notifications || []);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  // Server-Sent Events for open tabs, see server/live-updates.ts
+  app.get("/api/live", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      openLiveStream(req, res, user);
+    } catch (error) {
+      console.error('Failed to open live updates:', error);
+      res.status(500).json({ error: "Failed to open live updates" });
+    }
+  });
+
+  // Drives the app badge in both the page and the service worker
+  app.get("/api/notifications/unread-count", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const count = await storage.getUnreadNotificationCount(user);
+      res.json({ count });
+    } catch (error) {
+      console.error('Failed to count unread notifications:', error);
+      res.status(500).json({ error: "Failed to count unread notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const marked = await storage.markAllNotificationsRead(user);
+      sendUnreadCount(user, 0, "all");
+      res.json({ success: true, marked, unread: 0 });
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+      res.status(500).json({ error: "Failed to mark notifications as read" });
+    }
+  });
+
+  // Emergency alerts the user has not confirmed yet, shown as a banner on every page
+  app.get("/api/notifications/critical/active", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const notifications = await storage.getUnacknowledgedCriticalNotifications(user);
+      res.json(notifications);
+    } catch (error) {
+      console.error('Failed to fetch critical notifications:', error);
+      res.status(500).json({ error: "Failed to fetch critical notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/acknowledge", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const visible = await storage.getNotificationsForUser(user);
+      const notification = visible.find(n => n.id === id);
+      if (!notification || !(notification.critical || notification.requiresAck)) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      await storage.acknowledgeNotification(user, id);
+      broadcastAcknowledgement(user, id);
+      sendUnreadCount(user, visible.filter(n => !n.read && n.id !== id).length, [id]);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to acknowledge notification:', error);
+      res.status(500).json({ error: "Failed to acknowledge notification" });
+    }
+  });
+
+  // Confirmation status of the notices sent in the last 30 days that ask for it
+  app.get("/api/notifications/acknowledgements", requireRole("board", "admin"), async (_req, res) => {
+    try {
+      const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const summaries = await storage.getAcknowledgementSummaries(since);
+      res.json(summaries);
+    } catch (error) {
+      console.error('Failed to fetch acknowledgement summaries:', error);
+      res.status(500).json({ error: "Failed to fetch acknowledgement summaries" });
+    }
+  });
+
+  app.get("/api/notifications/:id/acknowledgements", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const notification = await storage.getNotification(id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      const report = await storage.getAcknowledgementReport(notification);
+      res.json(report);
+    } catch (error) {
+      console.error('Failed to fetch acknowledgements:', error);
+      res.status(500).json({ error: "Failed to fetch acknowledgements" });
+    }
+  });
+
+  // Pushes the notice again, only to apartments that haven't confirmed it
+  app.post("/api/notifications/:id/remind", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const notification = await storage.getNotification(id);
+      if (!notification || notification.status !== "sent" || !(notification.critical || notification.requiresAck)) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      const subscriptions = await storage.getUnconfirmedSubscriptions(notification);
+      const sent = await sendReminderPush(notification, subscriptions);
+      await storage.markReminderSent(notification.id);
+      res.json({ success: true, devices: subscriptions.length, sent });
+    } catch (error) {
+      console.error('Failed to send reminder:', error);
+      res.status(500).json({ error: "Failed to send reminder" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      // Only notices the user can actually see can be marked as read
+      const visible = await storage.getNotificationsForUser(user);
+      const notification = visible.find(n => n.id === id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      if (!notification.read) {
+        await storage.markNotificationRead(user.id, id);
+      }
+
+      const unread = visible.filter(n => !n.read && n.id !== id).length;
+      sendUnreadCount(user, unread, [id]);
+      res.json({ success: true, unread });
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+      res.status(500).json({ error: "Failed to mark notification as read" });
+    }
+  });
+
+  app.get("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.session.userId!);
+      res.json(preferences);
+    } catch (error) {
+      console.error('Failed to fetch notification preferences:', error);
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const parsed = notificationPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid preferences", details: parsed.error.errors });
+      }
+
+      const preferences = await storage.updateNotificationPreferences(req.session.userId!, parsed.data);
+      res.json(preferences);
+    } catch (error) {
+      console.error('Failed to update notification preferences:', error);
+      res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+
+  app.get("/api/notifications/settings", requireAuth, async (req, res) => {
+    try {
+      const settings = await storage.getNotificationSettings(req.session.userId!);
+      res.json(settings);
+    } catch (error) {
+      console.error('Failed to fetch notification settings:', error);
+      res.status(500).json({ error: "Failed to fetch notification settings" });
+    }
+  });
+
+  app.put("/api/notifications/settings", requireAuth, async (req, res) => {
+    try {
+      const parsed = notificationSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid settings", details: parsed.error.errors });
+      }
+
+      if (parsed.data.smsConsent) {
+        const user = await storage.getUser(req.session.userId!);
+        const phoneNumber = user?.phoneNumber ? normalizePhoneNumber(user.phoneNumber) : null;
+        if (!phoneNumber || !isSmsCapable(phoneNumber)) {
+          return res.status(400).json({ error: "Lägg till ett mobilnummer i din profil för att få SMS" });
+        }
+      }
+
+      const settings = await storage.updateNotificationSettings(req.session.userId!, parsed.data);
+      res.json(settings);
+    } catch (error) {
+      console.error('Failed to update notification settings:', error);
+      res.status(500).json({ error: "Failed to update notification settings" });
+    }
+  });
+
+  app.get("/api/notifications/digests", requireAuth, async (req, res) => {
+    try {
+      const digests = await storage.getDigests(req.session.userId!);
+      res.json(digests);
+    } catch (error) {
+      console.error('Failed to fetch digests:', error);
+      res.status(500).json({ error: "Failed to fetch digests" });
+    }
+  });
+
+  app.get("/api/notifications/digests/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid digest ID" });
+      }
+
+      const digest = await storage.getDigest(req.session.userId!, id);
+      if (!digest) {
+        return res.status(404).json({ error: "Digest not found" });
+      }
+      res.json(digest);
+    } catch (error) {
+      console.error('Failed to fetch digest:', error);
+      res.status(500).json({ error: "Failed to fetch digest" });
+    }
+  });
+
+  app.get("/api/notifications/all", requireRole("board", "admin"), async (_req, res) => {
+    try {
+      const notifications = await storage.getNotifications();
+      res.json(notifications || []);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get("/api/notifications/audience-options", requireRole("board", "admin"), async (_req, res) => {
+    try {
+      const ports = await storage.getKnownPorts();
+      res.json({ ports });
+    } catch (error) {
+      console.error('Failed to fetch audience options:', error);
+      res.status(500).json({ error: "Failed to fetch audience options" });
+    }
+  });
+
+  // Live recipient count for the audience picker in the admin form
+  app.post("/api/notifications/recipients", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const parsed = audienceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid audience", details: parsed.error.errors });
+      }
+
+      // With a category the device count leaves out residents who have muted it
+      const category = categorySchema.safeParse(req.query.category);
+
+      const [users, subscriptions] = await Promise.all([
+        storage.getUsersInAudience(parsed.data),
+        storage.getActivePushSubscriptionsForAudience(parsed.data, category.success ? category.data : undefined),
+      ]);
+      res.json({ users: users.length, devices: subscriptions.length });
+    } catch (error) {
+      console.error('Failed to count recipients:', error);
+      res.status(500).json({ error: "Failed to count recipients" });
+    }
+  });
+
+  // Sent notices are recalled rather than deleted, so the edit history survives
+  app.delete("/api/notifications/:id", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const recalled = await storage.recallNotification(id, req.session.userId!);
+      if (!recalled) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      // Closes the push on devices that already got it, best effort
+      sendRecallPush(recalled.notification, recalled.subscriptions).catch(error => {
+        console.error(`Failed to send recall of notification ${id}:`, error);
+      });
+      broadcastRecall(recalled.notification).catch(error => {
+        console.error(`Failed to stream recall of notification ${id}:`, error);
+      });
+
+      res.json({ success: true, devices: recalled.subscriptions.length });
+    } catch (error) {
+      console.error('Failed to recall notification:', error);
+      res.status(500).json({ error: "Failed to recall notification" });
+    }
+  });
+
+  // Fixes a sent notice. A correction is pushed again and replaces the original on the lock screen.
+  app.patch("/api/notifications/:id", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const parsed = editNotificationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid data", details: parsed.error.errors });
+      }
+
+      const notification = await storage.editNotification(id, parsed.data, req.session.userId!);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      const queued = parsed.data.correction ? await queuePushNotification(notification) : 0;
+      broadcastNotificationUpdate(notification);
+      res.json({ notification, queued });
+    } catch (error) {
+      console.error('Failed to edit notification:', error);
+      res.status(500).json({ error: "Failed to edit notification" });
+    }
+  });
+
+  app.get("/api/notifications/:id/history", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      res.json(await storage.getNotificationHistory(id));
+    } catch (error) {
+      console.error('Failed to fetch notification history:', error);
+      res.status(500).json({ error: "Failed to fetch notification history" });
+    }
+  });
+
+  // The subscription belongs to whoever is logged in on the device, never to a client-supplied id
+  app.post("/api/notifications/subscribe", requireAuth, async (req, res) => {
+    try {
+      const parsed = subscribeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        console.error('Subscription validation error:', parsed.error.errors);
+        return res.status(400).json({ error: "Invalid subscription data", details: parsed.error.errors });
+      }
+
+      const subscription = await storage.upsertPushSubscription(req.session.userId!, parsed.data.subscription, req.get("User-Agent"));
+      console.log(`Push subscription ${subscription.id} saved for user ${req.session.userId}`);
+      res.json({ id: subscription.id, active: subscription.active });
+    } catch (error) {
+      console.error('Subscription error:', error);
+      res.status(500).json({ error: "Failed to save subscription" });
+    }
+  });
+
+  // The logged-in user's own push-subscribed devices, for "Mina enheter" in the settings
+  app.get("/api/me/devices", requireAuth, async (req, res) => {
+    try {
+      const devices = await storage.getPushDevices(req.session.userId!);
+      res.json(devices);
+    } catch (error) {
+      console.error('Failed to fetch devices:', error);
+      res.status(500).json({ error: "Failed to fetch devices" });
+    }
+  });
+
+  app.patch("/api/me/devices/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid device ID" });
+      }
+
+      const parsed = renameDeviceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid name", details: parsed.error.errors });
+      }
+
+      const subscription = await storage.renamePushSubscription(req.session.userId!, id, parsed.data.name);
+      if (!subscription) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to rename device:', error);
+      res.status(500).json({ error: "Failed to rename device" });
+    }
+  });
+
+  app.post("/api/me/devices/:id/test", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid device ID" });
+      }
+
+      const subscription = await storage.getUserPushSubscription(req.session.userId!, id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+
+      const delivered = await sendTestPush(subscription);
+      res.json({ delivered });
+    } catch (error) {
+      console.error('Failed to send test push:', error);
+      res.status(500).json({ error: "Failed to send test push" });
+    }
+  });
+
+  app.delete("/api/me/devices/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid device ID" });
+      }
+
+      const removed = await storage.deactivateUserPushSubscription(req.session.userId!, id);
+      if (!removed) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to remove device:', error);
+      res.status(500).json({ error: "Failed to remove device" });
+    }
+  });
+
+  // "Skicka testnotis" on the notices and diagnostics pages, reaches every device the resident has
+  app.post("/api/me/test-push", requireAuth, async (req, res) => {
+    try {
+      const subscriptions = await storage.getActivePushSubscriptionsForUser(req.session.userId!);
+      let delivered = 0;
+      for (const subscription of subscriptions) {
+        if (await sendTestPush(subscription)) {
+          delivered++;
+        }
+      }
+      res.json({ devices: subscriptions.length, delivered });
+    } catch (error) {
+      console.error('Failed to send test push:', error);
+      res.status(500).json({ error: "Failed to send test push" });
+    }
+  });
+
+  /**
+   * Called by the service worker on pushsubscriptionchange. The session may have expired by
+   * then, so no login is required: knowing the old endpoint, which only the browser and this
+   * server have, is what identifies the device.
+   */
+  app.post("/api/push/subscription-change", async (req, res) => {
+    try {
+      const parsed = subscriptionChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid subscription data", details: parsed.error.errors });
+      }
+
+      const subscription = await storage.replacePushSubscription(parsed.data.oldEndpoint, parsed.data.subscription);
+      if (!subscription) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      if (!subscription.active) {
+        return res.status(410).json({ error: "Subscription was removed" });
+      }
+
+      console.log(`Push subscription ${subscription.id} moved to a new endpoint`);
+      res.json({ id: subscription.id, active: subscription.active });
+    } catch (error) {
+      console.error('Subscription change error:', error);
+      res.status(500).json({ error: "Failed to update subscription" });
+    }
+  });
+
+  app.delete("/api/notifications/subscribe", requireAuth, async (req, res) => {
+    try {
+      const parsed = unsubscribeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid subscription endpoint", details: parsed.error.errors });
+      }
+
+      const removed = await storage.deactivatePushSubscription(req.session.userId!, parsed.data.endpoint);
+      if (!removed) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Unsubscribe error:', error);
+      res.status(500).json({ error: "Failed to remove subscription" });
+    }
+  });
+
+  app.post("/api/notifications/send", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const audience = audienceSchema.safeParse(req.body.audience ?? ALL_RESIDENTS);
+      if (!audience.success) {
+        return res.status(400).json({ error: "Invalid audience", details: audience.error.errors });
+      }
+
+      const category = categorySchema.safeParse(req.body.category ?? DEFAULT_CATEGORY);
+      if (!category.success) {
+        return res.status(400).json({ error: "Invalid category", details: category.error.errors });
+      }
+
+      const schedule = scheduleSchema.safeParse(req.body);
+      if (!schedule.success) {
+        return res.status(400).json({ error: schedule.error.errors[0]?.message || "Invalid schedule", details: schedule.error.errors });
+      }
+
+      const { scheduledAt, recurrence } = schedule.data;
+
+      const title = notificationTitleSchema.safeParse(req.body.title);
+      if (!title.success) {
+        return res.status(400).json({ error: title.error.errors[0]?.message || "Invalid title", details: title.error.errors });
+      }
+
+      const link = noticeLinkSchema.safeParse(req.body.link);
+      if (!link.success) {
+        return res.status(400).json({ error: link.error.errors[0]?.message || "Invalid link", details: link.error.errors });
+      }
+
+      const rich = richPushSchema.safeParse(req.body);
+      if (!rich.success) {
+        return res.status(400).json({ error: rich.error.errors[0]?.message || "Invalid push options", details: rich.error.errors });
+      }
+      if (rich.data.actions?.includes("open_link") && !link.data) {
+        return res.status(400).json({ error: "Knappen Öppna länk kräver en länk" });
+      }
+
+      const pushOptions = {
+        imageUrl: rich.data.imageUrl ?? null,
+        actions: rich.data.actions ?? [],
+        ttlSeconds: rich.data.ttlSeconds ?? null,
+        urgency: rich.data.urgency ?? "normal",
+        topic: rich.data.topic ?? null,
+      };
+
+      let body: string | null = null;
+      if (req.body.body) {
+        const parsedBody = notificationBodySchema.safeParse(req.body.body);
+        if (!parsedBody.success) {
+          return res.status(400).json({ error: parsedBody.error.errors[0]?.message || "Invalid body", details: parsedBody.error.errors });
+        }
+        body = parsedBody.data;
+      }
+
+      const attachmentIds = attachmentIdsSchema.safeParse(req.body.attachmentIds);
+      if (!attachmentIds.success) {
+        return res.status(400).json({ error: attachmentIds.error.errors[0]?.message || "Invalid attachments", details: attachmentIds.error.errors });
+      }
+
+      const critical = req.body.critical === true;
+      // Emergency alerts always ask residents to confirm
+      const requiresAck = critical || req.body.requiresAck === true;
+      if (critical && (recurrence || scheduledAt)) {
+        return res.status(400).json({ error: "Kritiska larm skickas direkt och kan inte schemaläggas" });
+      }
+
+      // Future and recurring sends are stored as pending and picked up by the scheduler
+      if (recurrence || (scheduledAt && scheduledAt > new Date())) {
+        const notification = await storage.createNotification({
+          title: title.data,
+          body,
+          link: link.data ?? null,
+          audience: audience.data,
+          category: category.data,
+          requiresAck,
+          ...pushOptions,
+          createdById: req.session.userId,
+          status: "scheduled",
+          scheduledAt,
+          recurrence: recurrence ?? null,
+          seriesStartAt: recurrence ? scheduledAt : null,
+        });
+        await storage.linkAttachments(notification.id, attachmentIds.data, req.session.userId!);
+
+        console.log('Scheduled notification:', notification);
+        return res.status(201).json({ success: true, scheduled: true, id: notification.id });
+      }
+
+      // First save the notification to the database. It is stored even when nobody in the
+      // audience has push enabled, since it is still shown in the app.
+      const notification = await storage.createNotification({
+        title: title.data,
+        body, // Store the message body
+        link: link.data ?? null,
+        audience: audience.data,
+        // An emergency alert is urgent whatever category was picked
+        category: critical ? "urgent" : category.data,
+        critical,
+        requiresAck,
+        ...pushOptions,
+        createdAt: new Date(),
+        createdById: req.session.userId,
+        sentAt: new Date(),
+      });
+      // Linked before the pushes go out, so the notice is complete when residents open it
+      await storage.linkAttachments(notification.id, attachmentIds.data, req.session.userId!);
+
+      console.log('Created notification:', notification);
+
+      // Open tabs show it right away, before any push arrives
+      broadcastNotification(notification).catch(error => {
+        console.error(`Failed to stream notification ${notification.id}:`, error);
+      });
+
+      // Pushes and emails go out through their delivery queues, see server/delivery-worker.ts
+      // and server/email-delivery.ts
+      const queued = await queuePushNotification(notification);
+      const emailed = await queueEmailNotification(notification);
+      // Critical alerts only, see server/sms-delivery.ts
+      const texted = await sendSmsNotification(notification);
+      res.json({ success: true, id: notification.id, queued, emailed, texted });
+    } catch (error) {
+      console.error('Failed to send notifications:', error);
+      res.status(500).json({ error: "Failed to send notifications" });
+    }
+  });
+
+  app.get("/api/notifications/scheduled", requireRole("board", "admin"), async (_req, res) => {
+    try {
+      const notifications = await storage.getScheduledNotifications();
+      res.json(notifications);
+    } catch (error) {
+      console.error('Failed to fetch scheduled notifications:', error);
+      res.status(500).json({ error: "Failed to fetch scheduled notifications" });
+    }
+  });
+
+  app.patch("/api/notifications/scheduled/:id", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const parsed = updateScheduledNotificationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid data", details: parsed.error.errors });
+      }
+
+      const notification = await storage.updateScheduledNotification(id, parsed.data);
+      if (!notification) {
+        return res.status(404).json({ error: "Scheduled notification not found" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      console.error('Failed to update scheduled notification:', error);
+      res.status(500).json({ error: "Failed to update scheduled notification" });
+    }
+  });
+
+  app.post("/api/notifications/scheduled/:id/cancel", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const notification = await storage.cancelScheduledNotification(id);
+      if (!notification) {
+        return res.status(404).json({ error: "Scheduled notification not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to cancel scheduled notification:', error);
+      res.status(500).json({ error: "Failed to cancel scheduled notification" });
+    }
+  });
+
+  app.get("/api/notifications/:id/deliveries", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const report = await storage.getDeliveryReport(id);
+      res.json(report);
+    } catch (error) {
+      console.error('Failed to fetch delivery report:', error);
+      res.status(500).json({ error: "Failed to fetch delivery report" });
+    }
+  });
+
+  /**
+   * Sent by the service worker when a push is tapped, for the open rate in the statistics.
+   * Not behind requireAuth: the endpoint identifies the device, and the session cookie
+   * may have expired while the push sat on the lock screen.
+   */
+  app.post("/api/notifications/:id/opened", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const parsed = pushOpenedSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid subscription data", details: parsed.error.errors });
+      }
+
+      const opened = await storage.markPushOpened(id, parsed.data.endpoint);
+      res.json({ opened });
+    } catch (error) {
+      console.error('Failed to record push open:', error);
+      res.status(500).json({ error: "Failed to record push open" });
+    }
+  });
+
+  app.get("/api/push/analytics", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(String(req.query.days ?? "")) || 90, 7), 365);
+      const analytics = await storage.getPushAnalytics(days);
+      res.json(analytics);
+    } catch (error) {
+      console.error('Failed to fetch push analytics:', error);
+      res.status(500).json({ error: "Failed to fetch push analytics" });
+    }
+  });
+
+  // The file is the raw request body, its name comes in the X-File-Name header
+  const readUpload = express.raw({ type: [...attachmentMimeTypes], limit: MAX_ATTACHMENT_BYTES });
+
+  app.post("/api/attachments", requireRole("board", "admin"), (req, res, next) => {
+    readUpload(req, res, (error?: any) => {
+      if (error?.type === "entity.too.large") {
+        return res.status(413).json({ error: `Filen är större än ${formatFileSize(MAX_ATTACHMENT_BYTES)}` });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(415).json({ error: "Bara PDF-filer och bilder (JPEG, PNG, WebP) kan bifogas" });
+      }
+
+      const mimeType = detectMimeType(req.body);
+      if (!mimeType || !req.is(mimeType)) {
+        return res.status(415).json({ error: "Filens innehåll stämmer inte med filtypen" });
+      }
+
+      let fileName: string;
+      try {
+        fileName = cleanFileName(decodeURIComponent(req.get("X-File-Name") || ""));
+      } catch (error) {
+        // A lone % or a broken escape in the header
+        return res.status(400).json({ error: "Ogiltigt filnamn" });
+      }
+
+      const storageKey = await saveAttachmentFile(req.body);
+      const attachment = await storage.createAttachment({
+        fileName,
+        mimeType,
+        size: req.body.length,
+        storageKey,
+        uploadedById: req.session.userId!,
+      });
+
+      res.status(201).json({
+        id: attachment.id,
+        notificationId: attachment.notificationId,
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+      });
+    } catch (error) {
+      console.error('Failed to upload attachment:', error);
+      res.status(500).json({ error: "Failed to upload attachment" });
+    }
+  });
+
+  app.get("/api/attachments/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid attachment ID" });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const attachment = await storage.getAttachmentForUser(user, id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      res.sendFile(attachmentPath(attachment.storageKey), {
+        headers: {
+          "Content-Type": attachment.mimeType,
+          "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+          "X-Content-Type-Options": "nosniff",
+          // A file never changes once uploaded, the service worker keeps a copy for offline use
+          "Cache-Control": "private, max-age=31536000, immutable",
+        },
+      });
+    } catch (error) {
+      console.error('Failed to fetch attachment:', error);
+      res.status(500).json({ error: "Failed to fetch attachment" });
+    }
+  });
+
+  // Only uploads that haven't been sent with a notice yet can be removed
+  app.delete("/api/attachments/:id", requireRole("board", "admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid attachment ID" });
+      }
+
+      const attachment = await storage.deleteUnlinkedAttachment(id, req.session.userId!);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      await deleteAttachmentFile(attachment.storageKey);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete attachment:', error);
+      res.status(500).json({ error: "Failed to delete attachment" });
+    }
+  });
+
+  // Registered after the fixed /api/notifications/... paths so ":id" doesn't swallow them
+  app.get("/api/notifications/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid notification ID" });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const notification = await storage.getNotificationForUser(user, id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      console.error('Failed to fetch notification:', error);
+      res.status(500).json({ error: "Failed to fetch notification" });
     }
   });
 
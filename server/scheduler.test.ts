@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { nextOccurrence } from "./scheduler";
+
+vi.mock("./storage", () => ({ storage: {} }));
+vi.mock("./vite", () => ({ log: () => {} }));
+
+describe("nextOccurrence", () => {
+  it("keeps the local time across the switch to daylight saving", () => {
+    // Tuesday 18:00 in Stockholm, the clocks go forward on Sunday the 29th
+    const scheduledAt = new Date("2026-03-24T17:00:00Z");
+    expect(nextOccurrence(scheduledAt, { frequency: "weekly", interval: 1 }, scheduledAt))
+      .toEqual(new Date("2026-03-31T16:00:00Z"));
+  });
+
+  it("steps by the interval", () => {
+    const scheduledAt = new Date("2026-01-05T07:00:00Z");
+    expect(nextOccurrence(scheduledAt, { frequency: "weekly", interval: 2 }, scheduledAt))
+      .toEqual(new Date("2026-01-19T07:00:00Z"));
+    expect(nextOccurrence(scheduledAt, { frequency: "daily", interval: 3 }, scheduledAt))
+      .toEqual(new Date("2026-01-08T07:00:00Z"));
+  });
+
+  it("moves the 31st to the last day of shorter months", () => {
+    const scheduledAt = new Date("2026-01-31T11:00:00Z");
+    expect(nextOccurrence(scheduledAt, { frequency: "monthly", interval: 1 }, scheduledAt))
+      .toEqual(new Date("2026-02-28T11:00:00Z"));
+  });
+
+  it("goes back to the 31st after a shorter month", () => {
+    const seriesStart = new Date("2026-01-31T11:00:00Z");
+    const february = new Date("2026-02-28T11:00:00Z");
+    expect(nextOccurrence(february, { frequency: "monthly", interval: 1 }, february, seriesStart))
+      .toEqual(new Date("2026-03-31T10:00:00Z"));
+  });
+
+  it("skips occurrences missed while the server was down", () => {
+    const scheduledAt = new Date("2026-01-05T07:00:00Z");
+    expect(nextOccurrence(scheduledAt, { frequency: "daily", interval: 1 }, new Date("2026-01-08T12:00:00Z")))
+      .toEqual(new Date("2026-01-09T07:00:00Z"));
+  });
+
+  it("ends the series after its end date", () => {
+    const scheduledAt = new Date("2026-01-05T07:00:00Z");
+    const recurrence = { frequency: "weekly" as const, interval: 1, until: new Date("2026-01-10T00:00:00Z") };
+    expect(nextOccurrence(scheduledAt, recurrence, scheduledAt)).toBeNull();
+  });
+});
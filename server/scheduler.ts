@@ -0,0 +1,145 @@
+import type { Notification, Recurrence } from "@shared/schema";
+import { storage } from "./storage";
+import { queuePushNotification } from "./push";
+import { queueEmailNotification } from "./email-delivery";
+import { runDueDigests } from "./digest";
+import { broadcastNotification } from "./live-updates";
+import { warnExpiringSubscriptions } from "./subscription-expiry";
+import { log } from "./vite";
+import { daysInMonth, fromWallClock, toWallClock } from "./wall-clock";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// Recurring notices follow the association's wall clock, so "every Tuesday 18:00"
+// stays at 18:00 across daylight saving changes
+function advance(from: Date, recurrence: Recurrence, dayOfMonth: number): Date {
+  const wall = toWallClock(from);
+
+  switch (recurrence.frequency) {
+    case "daily":
+      return fromWallClock({ ...wall, day: wall.day + recurrence.interval });
+    case "weekly":
+      return fromWallClock({ ...wall, day: wall.day + 7 * recurrence.interval });
+    case "monthly": {
+      const month = wall.month + recurrence.interval;
+      const year = wall.year + Math.floor(month / 12);
+      const normalizedMonth = month % 12;
+      // The 31st becomes the last day of shorter months, and the 31st again after them
+      const day = Math.min(dayOfMonth, daysInMonth(year, normalizedMonth));
+      return fromWallClock({ ...wall, year, month: normalizedMonth, day });
+    }
+  }
+}
+
+/**
+ * The first occurrence after `after`, or null once the series has passed its end date.
+ * Occurrences missed while the server was down are skipped rather than sent in a burst.
+ * Monthly series fall on the day of month of `seriesStart`, the series' first send.
+ */
+export function nextOccurrence(
+  scheduledAt: Date,
+  recurrence: Recurrence,
+  after = new Date(),
+  seriesStart = scheduledAt,
+): Date | null {
+  const dayOfMonth = toWallClock(seriesStart).day;
+  let next = advance(scheduledAt, recurrence, dayOfMonth);
+  while (next <= after) {
+    next = advance(next, recurrence, dayOfMonth);
+  }
+
+  if (recurrence.until && next > new Date(recurrence.until)) {
+    return null;
+  }
+  return next;
+}
+
+async function runNotification(notification: Notification) {
+  const nextRun = notification.recurrence
+    // Series stored before seriesStartAt existed count from their current occurrence
+    ? nextOccurrence(
+      notification.scheduledAt!,
+      notification.recurrence,
+      new Date(),
+      notification.seriesStartAt ?? notification.scheduledAt!,
+    )
+    : null;
+
+  const claimed = await storage.claimScheduledNotification(notification, nextRun);
+  if (!claimed) {
+    // Cancelled, edited or already picked up by another tick
+    return;
+  }
+
+  // A series keeps its row as the template, each occurrence is published as its own notice
+  const published = notification.recurrence
+    ? await storage.createOccurrence(notification)
+    : claimed;
+
+  log(`Publishing scheduled notification ${notification.id} as ${published.id}`, "scheduler");
+
+  try {
+    await broadcastNotification(published);
+  } catch (error) {
+    console.error(`Failed to stream scheduled notification ${published.id}:`, error);
+  }
+
+  try {
+    const queued = await queuePushNotification(published);
+    log(`Scheduled notification ${published.id} queued for ${queued} subscriptions`, "scheduler");
+  } catch (error) {
+    // The notice is published in the app either way
+    console.error(`Failed to queue push for scheduled notification ${published.id}:`, error);
+  }
+
+  try {
+    await queueEmailNotification(published);
+  } catch (error) {
+    console.error(`Failed to queue email for scheduled notification ${published.id}:`, error);
+  }
+}
+
+export async function runDueNotifications() {
+  const due = await storage.getDueNotifications(new Date());
+  for (const notification of due) {
+    try {
+      await runNotification(notification);
+    } catch (error) {
+      console.error(`Failed to run scheduled notification ${notification.id}:`, error);
+    }
+  }
+}
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Polls the notifications table for due sends, sends due digests and warns about expiring
+ * push subscriptions. All state lives in the database, so anything that came due while the
+ * server was down goes out on the first tick.
+ */
+export function startScheduler() {
+  if (timer) {
+    return;
+  }
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runDueNotifications();
+      await runDueDigests();
+      await warnExpiringSubscriptions();
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  log(`Notification scheduler started, polling every ${POLL_INTERVAL_MS / 1000}s`, "scheduler");
+}
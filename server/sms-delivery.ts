@@ -0,0 +1,78 @@
+import type { Notification, SmsDelivery, User } from "@shared/schema";
+import { isSmsCapable, normalizePhoneNumber } from "@shared/phone";
+import { markdownToPlainText } from "@shared/markdown";
+import { storage } from "./storage";
+import { getSmsProvider, truncateSms } from "./sms";
+
+export function buildSmsText(notification: Notification) {
+  return truncateSms(
+    notification.body
+      ? `LARM Brf Bergakungen: ${notification.title}\n${markdownToPlainText(notification.body)}`
+      : `LARM Brf Bergakungen: ${notification.title}`
+  );
+}
+
+interface PendingSms {
+  delivery: SmsDelivery;
+  user: User;
+  phoneNumber: string;
+}
+
+async function sendAll(notification: Notification, pending: PendingSms[]) {
+  const text = buildSmsText(notification);
+  let sent = 0;
+
+  for (const { delivery, user, phoneNumber } of pending) {
+    try {
+      const providerMessageId = await getSmsProvider().send({ to: phoneNumber, text });
+      await storage.finishSmsDelivery(delivery.id, { providerMessageId });
+      sent++;
+    } catch (error: any) {
+      console.error(`SMS for notification ${notification.id} to user ${user.id} failed:`, error);
+      await storage.finishSmsDelivery(delivery.id, { error: String(error.message || error).slice(0, 500) });
+    }
+  }
+
+  console.log(`Sent ${sent} SMS for notification ${notification.id}`);
+}
+
+/**
+ * Texts a critical alert to residents in its audience who have no active push subscription,
+ * have consented to SMS and have a mobile number in their profile. Sent right away rather
+ * than through a worker, an alert that arrives an hour late is of little use, but in the
+ * background so a slow gateway doesn't hold up the board's send request. Returns the
+ * number of texts started.
+ */
+export async function sendSmsNotification(notification: Notification): Promise<number> {
+  if (!notification.critical) {
+    return 0;
+  }
+
+  const [audience, withPush] = await Promise.all([
+    storage.getUsersInAudience(notification.audience),
+    storage.getUserIdsWithActivePush(),
+  ]);
+  const settings = await storage.getNotificationSettingsForUsers(audience.map(user => user.id));
+
+  const recipients = audience.flatMap(user => {
+    if (withPush.has(user.id) || !settings.get(user.id)!.smsConsent || !user.phoneNumber) {
+      return [];
+    }
+    const phoneNumber = normalizePhoneNumber(user.phoneNumber);
+    return phoneNumber && isSmsCapable(phoneNumber) ? [{ user, phoneNumber }] : [];
+  });
+
+  // The delivery rows are written before answering, so a retried send can't text anyone twice
+  const pending: PendingSms[] = [];
+  for (const { user, phoneNumber } of recipients) {
+    const delivery = await storage.createSmsDelivery(notification.id, user.id, phoneNumber);
+    if (delivery) {
+      pending.push({ delivery, user, phoneNumber });
+    }
+  }
+
+  sendAll(notification, pending).catch(error => {
+    console.error(`Failed to send SMS for notification ${notification.id}:`, error);
+  });
+  return pending.length;
+}
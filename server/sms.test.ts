@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+import { truncateSms } from "./sms";
+
+vi.mock("./vite", () => ({ log: () => {} }));
+
+describe("truncateSms", () => {
+  it("leaves texts that fit in two segments alone", () => {
+    expect(truncateSms("Vattnet stängs av kl 10")).toBe("Vattnet stängs av kl 10");
+    expect(truncateSms("a".repeat(306))).toBe("a".repeat(306));
+  });
+
+  it("cuts longer GSM texts to two segments and marks the cut", () => {
+    const truncated = truncateSms("a".repeat(307));
+    expect(truncated).toHaveLength(306);
+    expect(truncated.endsWith("...")).toBe(true);
+  });
+
+  it("counts extension characters as two septets", () => {
+    expect(truncateSms("€".repeat(153))).toBe("€".repeat(153));
+    expect(truncateSms("€".repeat(154))).toBe("€".repeat(151) + "...");
+  });
+
+  it("falls back to the UCS-2 limit and never splits an emoji", () => {
+    expect(truncateSms("😀".repeat(70))).toBe("😀".repeat(65) + "...");
+  });
+
+  it("drops trailing whitespace before the ellipsis", () => {
+    expect(truncateSms("a".repeat(300) + "      " + "b".repeat(10))).toBe("a".repeat(300) + "...");
+  });
+
+  it("handles long texts quickly", () => {
+    const started = Date.now();
+    expect(truncateSms("a".repeat(100_000))).toHaveLength(306);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,140 @@
+import { randomUUID } from "crypto";
+import { log } from "./vite";
+
+export interface SmsMessage {
+  to: string; // E.164
+  text: string;
+}
+
+export interface RecordedSms extends SmsMessage {
+  id: string;
+  sentAt: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  // Resolves to the provider's message id
+  send(message: SmsMessage): Promise<string>;
+}
+
+// Sender shown on the phone, alphanumeric senders are limited to 11 characters
+const SMS_SENDER = (process.env.SMS_SENDER || "Bergakungen").slice(0, 11);
+
+// Longer messages are cut to this many segments (at least 2), every segment is billed separately
+const MAX_SEGMENTS = 2;
+
+// GSM 03.38 basic character set. Anything outside it forces UCS-2, which fits far fewer
+// characters per segment. Swedish å, ä and ö are part of it.
+const GSM_CHARACTERS = new Set(
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà"
+);
+// Extension characters take two septets
+const GSM_EXTENDED = new Set("^{}\\[~]|€");
+
+function septets(char: string): number | null {
+  if (GSM_CHARACTERS.has(char)) return 1;
+  if (GSM_EXTENDED.has(char)) return 2;
+  return null;
+}
+
+/**
+ * Cuts the text to at most MAX_SEGMENTS segments and marks the cut with "...".
+ * GSM texts fit 160 characters in one segment and 153 per segment when split,
+ * UCS-2 texts (e.g. with emoji) 70 and 67.
+ */
+export function truncateSms(text: string): string {
+  const chars = Array.from(text);
+  const gsm = chars.every(char => septets(char) !== null);
+  // Split messages carry a header, so a segment holds a little less than a single message
+  const limit = (gsm ? 153 : 67) * MAX_SEGMENTS;
+
+  // UCS-2 counts UTF-16 code units, emoji take two
+  const cost = (char: string) => gsm ? septets(char)! : char.length;
+
+  // One pass: the whole length, and where the text has to be cut to leave room for "..."
+  const ellipsis = "...";
+  let total = 0;
+  let cut = 0;
+  for (const char of chars) {
+    total += cost(char);
+    if (total + ellipsis.length <= limit) {
+      cut++;
+    }
+  }
+
+  if (total <= limit) {
+    return text;
+  }
+  return chars.slice(0, cut).join("").trimEnd() + ellipsis;
+}
+
+class FakeSmsProvider implements SmsProvider {
+  readonly name = "fake";
+  readonly sent: RecordedSms[] = [];
+
+  async send(message: SmsMessage) {
+    const recorded: RecordedSms = { ...message, id: randomUUID(), sentAt: new Date().toISOString() };
+    // Only the latest messages are kept, this is for looking at during development
+    this.sent.unshift(recorded);
+    this.sent.splice(100);
+    log(`SMS to ${message.to}: ${message.text}`, "sms");
+    return recorded.id;
+  }
+}
+
+// 46elks, a Swedish SMS gateway: https://46elks.com/docs/send-sms
+class ElksSmsProvider implements SmsProvider {
+  readonly name = "46elks";
+
+  async send(message: SmsMessage) {
+    const credentials = Buffer.from(`${process.env.ELKS_API_USERNAME}:${process.env.ELKS_API_PASSWORD}`).toString("base64");
+    const response = await fetch("https://api.46elks.com/a1/sms", {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ from: SMS_SENDER, to: message.to, message: message.text }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`46elks responded ${response.status}: ${await response.text()}`);
+    }
+    const result = await response.json() as { id: string };
+    return result.id;
+  }
+}
+
+/**
+ * SMS_PROVIDER picks the provider, the fake one that only records messages is the default.
+ */
+function createProvider(): SmsProvider {
+  const configured = process.env.SMS_PROVIDER || "fake";
+
+  switch (configured) {
+    case "46elks":
+      return new ElksSmsProvider();
+    case "fake":
+      return new FakeSmsProvider();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${configured}"`);
+  }
+}
+
+let provider: SmsProvider | undefined;
+
+export function getSmsProvider(): SmsProvider {
+  if (!provider) {
+    provider = createProvider();
+    log(`Sending SMS through the ${provider.name} provider`, "sms");
+  }
+  return provider;
+}
+
+/**
+ * Messages recorded by the fake provider, newest first. Empty for real providers.
+ */
+export function getRecordedSms(): RecordedSms[] {
+  const current = getSmsProvider();
+  return current instanceof FakeSmsProvider ? current.sent : [];
+}
@@ -1,14 +1,154 @@
-import { users, notifications, pushSubscriptions, type User, type InsertUser, type PushSubscription, type Notification } from "@shared/schema";
+import { users, notifications, notificationReads, notificationAuditLog, attachments, notificationPreferences, notificationSettings, notificationDigests, notificationAcknowledgements, pushSubscriptions, vapidKeys, pushDeliveries, emailDeliveries, smsDeliveries, deliveryStatuses, passwordResetTokens, invitationCodes, type User, type UserRole, type InsertUser, type PushSubscription, type PushDevice, type VapidKeyPair, type WebPushSubscription, type Notification, type NotificationWithReadState, type InsertNotification, type UpdateScheduledNotification, type EditNotification, type NotificationAuditEntry, type Attachment, type AttachmentInfo, type PasswordResetToken, type InvitationCode, type PushDelivery, type EmailDelivery, type SmsDelivery, type DeliveryStatus, type DeliveryCounts, type DeliveryReport, type PushAnalytics, type NotificationCategory, type NotificationPreferences, type NotificationSettings, type UpdateNotificationSettings, type NotificationDigest, type NotificationDigestWithNotifications, type AcknowledgementReport, type AcknowledgementSummary } from "@shared/schema";
+import { audienceApartments, matchesAudience, MAX_APARTMENT, type NotificationAudience } from "@shared/audience";
+import { defaultDeviceName, deviceClasses, getDeviceClass, getPushPlatform, parseUserAgent, pushPlatforms } from "@shared/push";
+import { DEFAULT_PREFERENCES, isMutableCategory } from "@shared/categories";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, asc, and, or, isNull, isNotNull, gt, lte, inArray, sql } from "drizzle-orm";
+
+function expiresAtOf(subscription: WebPushSubscription) {
+  return subscription.expirationTime ? new Date(subscription.expirationTime) : null;
+}
+
+// Notices shown with delivery and open rates in the statistics
+const RECENT_NOTICES = 20;
+
+// Keeps the first deactivation time when the row was inactive already
+function deactivation() {
+  return {
+    active: false,
+    deactivatedAt: sql`coalesce(${pushSubscriptions.deactivatedAt}, now())`,
+    updatedAt: new Date(),
+  };
+}
+
+// Residents type their apartment number themselves, "012" and "12" are the same apartment
+function apartmentKey(apartmentNumber: string) {
+  const trimmed = apartmentNumber.trim();
+  return /^\d+$/.test(trimmed) ? String(Number(trimmed)) : trimmed;
+}
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  createPushSubscription(subscription: any): Promise<PushSubscription>;
+  getUsableInvitationCode(code: string): Promise<InvitationCode | undefined>;
+  createUserWithInvitation(user: InsertUser, code: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  updateUserPassword(id: number, passwordHash: string): Promise<number>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  claimPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  createInvitationCodes(codes: { code: string; apartmentNumber: string }[], createdById: number): Promise<InvitationCode[]>;
+  getInvitationCodes(): Promise<InvitationCode[]>;
+  revokeInvitationCode(id: number): Promise<InvitationCode | undefined>;
+  upsertPushSubscription(userId: number, subscription: WebPushSubscription, userAgent?: string): Promise<PushSubscription>;
+  replacePushSubscription(oldEndpoint: string, subscription: WebPushSubscription): Promise<PushSubscription | undefined>;
+  getExpiringPushSubscriptions(before: Date): Promise<PushSubscription[]>;
+  markPushSubscriptionExpiryWarned(id: number): Promise<void>;
+  deactivatePushSubscription(userId: number, endpoint: string): Promise<boolean>;
+  deactivatePushSubscriptionById(id: number): Promise<void>;
   getActivePushSubscriptions(): Promise<PushSubscription[]>;
+  getCurrentVapidKeys(): Promise<VapidKeyPair | undefined>;
+  createVapidKeys(keys: { publicKey: string; privateKey: string }, createdById: number | null): Promise<VapidKeyPair>;
+  getActivePushSubscriptionsForUser(userId: number): Promise<PushSubscription[]>;
+  getPushDevices(userId: number): Promise<PushDevice[]>;
+  getUserPushSubscription(userId: number, id: number): Promise<PushSubscription | undefined>;
+  renamePushSubscription(userId: number, id: number, name: string | null): Promise<PushSubscription | undefined>;
+  deactivateUserPushSubscription(userId: number, id: number): Promise<boolean>;
+  markPushSubscriptionDelivered(id: number): Promise<void>;
+  getActivePushSubscriptionsForAudience(audience: NotificationAudience, category?: NotificationCategory): Promise<PushSubscription[]>;
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences>;
+  getNotificationSettings(userId: number): Promise<NotificationSettings>;
+  getNotificationSettingsForUsers(userIds: number[]): Promise<Map<number, NotificationSettings>>;
+  updateNotificationSettings(userId: number, settings: UpdateNotificationSettings): Promise<NotificationSettings>;
+  getDigestRecipients(): Promise<Array<{ user: User; settings: NotificationSettings }>>;
+  createDigest(userId: number, notificationIds: number[], periodStart: Date, periodEnd: Date): Promise<NotificationDigest | undefined>;
+  getDigests(userId: number): Promise<NotificationDigest[]>;
+  getDigest(userId: number, id: number): Promise<NotificationDigestWithNotifications | undefined>;
+  getUsersInAudience(audience: NotificationAudience, category?: NotificationCategory): Promise<User[]>;
+  getUserIdsWithActivePush(): Promise<Set<number>>;
+  getKnownPorts(): Promise<string[]>;
   getNotifications(): Promise<Notification[]>;
+  getNotificationsForUser(user: User): Promise<NotificationWithReadState[]>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotificationForUser(user: User, id: number): Promise<NotificationWithReadState | undefined>;
+  getUnreadNotificationCount(user: User): Promise<number>;
+  markNotificationRead(userId: number, notificationId: number): Promise<void>;
+  getNotificationAttachments(notification: Notification): Promise<AttachmentInfo[]>;
+  createAttachment(attachment: Omit<Attachment, "id" | "notificationId" | "createdAt">): Promise<Attachment>;
+  getAttachmentForUser(user: User, id: number): Promise<Attachment | undefined>;
+  linkAttachments(notificationId: number, ids: number[], uploadedById: number): Promise<number>;
+  deleteUnlinkedAttachment(id: number, uploadedById: number): Promise<Attachment | undefined>;
+  markAllNotificationsRead(user: User): Promise<number>;
+  getUnacknowledgedCriticalNotifications(user: User): Promise<Notification[]>;
+  acknowledgeNotification(user: User, notificationId: number): Promise<void>;
+  getAcknowledgementReport(notification: Notification): Promise<AcknowledgementReport>;
+  getAcknowledgementSummaries(since: Date): Promise<AcknowledgementSummary[]>;
+  getUnconfirmedSubscriptions(notification: Notification): Promise<PushSubscription[]>;
+  markReminderSent(notificationId: number): Promise<void>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getScheduledNotifications(): Promise<Notification[]>;
+  getDueNotifications(now: Date): Promise<Notification[]>;
+  claimScheduledNotification(notification: Notification, nextRun: Date | null): Promise<Notification | undefined>;
+  createOccurrence(series: Notification): Promise<Notification>;
+  updateScheduledNotification(id: number, data: UpdateScheduledNotification): Promise<Notification | undefined>;
+  cancelScheduledNotification(id: number): Promise<Notification | undefined>;
+  editNotification(id: number, data: EditNotification, actorId: number): Promise<Notification | undefined>;
+  recallNotification(id: number, actorId: number): Promise<{ notification: Notification; subscriptions: PushSubscription[] } | undefined>;
+  getNotificationHistory(id: number): Promise<NotificationAuditEntry[]>;
+  enqueueDeliveries(notificationId: number, deliveries: QueuedDelivery[], revision?: number): Promise<number>;
+  claimDueDeliveries(now: Date, limit: number, leaseMs: number): Promise<DeliveryJob[]>;
+  enqueueEmailDeliveries(notificationId: number, recipients: User[]): Promise<number>;
+  claimDueEmailDeliveries(now: Date, limit: number, leaseMs: number): Promise<EmailJob[]>;
+  markEmailDelivered(id: number): Promise<void>;
+  markEmailFinished(id: number, status: "failed" | "expired", error: string): Promise<void>;
+  scheduleEmailRetry(id: number, nextAttemptAt: Date, error: string): Promise<void>;
+  createSmsDelivery(notificationId: number, userId: number, phoneNumber: string): Promise<SmsDelivery | undefined>;
+  finishSmsDelivery(id: number, result: { providerMessageId: string } | { error: string }): Promise<void>;
+  markDeliveryDelivered(id: number, statusCode: number): Promise<void>;
+  markDeliveryFinished(id: number, status: "failed" | "expired", statusCode: number | null, error: string): Promise<void>;
+  scheduleDeliveryRetry(id: number, nextAttemptAt: Date, statusCode: number | null, error: string): Promise<void>;
+  getDeliveryReport(notificationId: number): Promise<DeliveryReport>;
+  markPushOpened(notificationId: number, endpoint: string): Promise<boolean>;
+  getPushAnalytics(days: number): Promise<PushAnalytics>;
+}
+
+export interface QueuedDelivery {
+  subscription: PushSubscription;
+  // Held back until then, e.g. the end of the resident's quiet hours
+  notBefore?: Date;
+}
+
+export interface DeliveryJob {
+  delivery: PushDelivery;
+  subscription: PushSubscription;
+  notification: Notification;
+}
+
+export interface EmailJob {
+  delivery: EmailDelivery;
+  notification: Notification;
+}
+
+function defaultNotificationSettings(userId: number): NotificationSettings {
+  return {
+    userId,
+    quietHoursEnabled: false,
+    quietHoursStart: "22:00",
+    quietHoursEnd: "07:00",
+    deliveryMode: "immediate",
+    digestTime: "08:00",
+    digestDay: 1,
+    emailDelivery: "fallback",
+    smsConsent: false,
+    smsConsentAt: null,
+    lastDigestAt: null,
+  };
+}
+
+function withoutUpdatedAt({ updatedAt, ...settings }: typeof notificationSettings.$inferSelect): NotificationSettings {
+  return settings;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -17,8 +157,8 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
     return user;
   }
 
@@ -27,19 +167,248 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createPushSubscription(data: any): Promise<PushSubscription> {
-    console.log('Creating push subscription with data:', data);
-    try {
-      const [subscription] = await db
-        .insert(pushSubscriptions)
-        .values(data)
+  /**
+   * Claims an unused invitation code and creates the user bound to its apartment
+   * in one transaction. Returns undefined if the code is unknown, used or revoked.
+   */
+  async getUsableInvitationCode(code: string): Promise<InvitationCode | undefined> {
+    const [invitation] = await db.select()
+      .from(invitationCodes)
+      .where(and(
+        eq(invitationCodes.code, code),
+        isNull(invitationCodes.usedAt),
+        isNull(invitationCodes.revokedAt)
+      ));
+    return invitation;
+  }
+
+  async createUserWithInvitation(insertUser: InsertUser, code: string): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [invitation] = await tx.update(invitationCodes)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(invitationCodes.code, code),
+          isNull(invitationCodes.usedAt),
+          isNull(invitationCodes.revokedAt)
+        ))
         .returning();
-      console.log('Successfully created push subscription:', subscription);
-      return subscription;
-    } catch (error) {
-      console.error('Failed to create push subscription:', error);
-      throw error;
+
+      if (!invitation) {
+        return undefined;
+      }
+
+      const [user] = await tx.insert(users)
+        .values({
+          ...insertUser,
+          apartmentNumber: invitation.apartmentNumber,
+          apartmentVerified: true,
+        })
+        .returning();
+
+      await tx.update(invitationCodes)
+        .set({ usedById: user.id })
+        .where(eq(invitationCodes.id, invitation.id));
+
+      return user;
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.email);
+  }
+
+  // Returns the new session version, every other session of the user stops being valid
+  async updateUserPassword(id: number, passwordHash: string): Promise<number> {
+    const [user] = await db.update(users)
+      .set({ password: passwordHash, sessionVersion: sql`${users.sessionVersion} + 1` })
+      .where(eq(users.id, id))
+      .returning({ sessionVersion: users.sessionVersion });
+    return user.sessionVersion;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [token] = await db.insert(passwordResetTokens)
+      .values({ userId, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  // Checks and uses up the token in one statement, so two requests can't both use it
+  async claimPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  async createInvitationCodes(codes: { code: string; apartmentNumber: string }[], createdById: number): Promise<InvitationCode[]> {
+    if (codes.length === 0) {
+      return [];
     }
+    return db.insert(invitationCodes)
+      .values(codes.map(c => ({ ...c, createdById })))
+      .returning();
+  }
+
+  async getInvitationCodes(): Promise<InvitationCode[]> {
+    return db.select()
+      .from(invitationCodes)
+      .orderBy(desc(invitationCodes.createdAt), invitationCodes.id);
+  }
+
+  async revokeInvitationCode(id: number): Promise<InvitationCode | undefined> {
+    const [invitation] = await db.update(invitationCodes)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(invitationCodes.id, id), isNull(invitationCodes.usedAt)))
+      .returning();
+    return invitation;
+  }
+
+  async upsertPushSubscription(userId: number, subscription: WebPushSubscription, userAgent?: string): Promise<PushSubscription> {
+    return db.transaction(async (tx) => {
+      // Rows stored before endpoints had their own column can only be found through the json
+      await tx.update(pushSubscriptions)
+        .set(deactivation())
+        .where(and(
+          isNull(pushSubscriptions.endpoint),
+          sql`${pushSubscriptions.subscription}->>'endpoint' = ${subscription.endpoint}`
+        ));
+
+      const expiresAt = expiresAtOf(subscription);
+      const [row] = await tx.insert(pushSubscriptions)
+        .values({ userId, endpoint: subscription.endpoint, subscription, expiresAt, userAgent })
+        .onConflictDoUpdate({
+          target: pushSubscriptions.endpoint,
+          // The device may have changed hands, it always follows whoever subscribed last
+          set: {
+            userId,
+            subscription,
+            expiresAt,
+            expiryWarnedAt: null,
+            active: true,
+            deactivatedAt: null,
+            updatedAt: new Date(),
+            ...(userAgent ? { userAgent } : {}),
+          },
+        })
+        .returning();
+      return row;
+    });
+  }
+
+  /**
+   * Moves a device over to the subscription the browser replaced its old one with. The row
+   * keeps its id, owner and queued deliveries. Returns undefined if the old endpoint is unknown,
+   * and an inactive row unchanged: a device removed under "Mina enheter" stays removed.
+   */
+  async replacePushSubscription(oldEndpoint: string, subscription: WebPushSubscription): Promise<PushSubscription | undefined> {
+    return db.transaction(async (tx) => {
+      const [old] = await tx.select()
+        .from(pushSubscriptions)
+        .where(sql`coalesce(${pushSubscriptions.endpoint}, ${pushSubscriptions.subscription}->>'endpoint') = ${oldEndpoint}`)
+        .for("update");
+      if (!old || !old.active) {
+        return old;
+      }
+
+      const renewed = {
+        subscription,
+        expiresAt: expiresAtOf(subscription),
+        expiryWarnedAt: null,
+        active: true,
+        deactivatedAt: null,
+        updatedAt: new Date(),
+      };
+
+      // The page may already have stored the new subscription, then that row takes over
+      const [existing] = subscription.endpoint === oldEndpoint
+        ? []
+        : await tx.select()
+          .from(pushSubscriptions)
+          .where(eq(pushSubscriptions.endpoint, subscription.endpoint))
+          .for("update");
+      if (existing) {
+        await tx.update(pushSubscriptions)
+          .set(deactivation())
+          .where(eq(pushSubscriptions.id, old.id));
+        const [row] = await tx.update(pushSubscriptions)
+          .set({ ...renewed, userId: old.userId })
+          .where(eq(pushSubscriptions.id, existing.id))
+          .returning();
+        return row;
+      }
+
+      const [row] = await tx.update(pushSubscriptions)
+        .set({ ...renewed, endpoint: subscription.endpoint })
+        .where(eq(pushSubscriptions.id, old.id))
+        .returning();
+      return row;
+    });
+  }
+
+  // Active subscriptions expiring before the given time whose owner hasn't been warned yet
+  async getExpiringPushSubscriptions(before: Date): Promise<PushSubscription[]> {
+    return db
+      .select()
+      .from(pushSubscriptions)
+      .where(and(
+        eq(pushSubscriptions.active, true),
+        isNotNull(pushSubscriptions.expiresAt),
+        lte(pushSubscriptions.expiresAt, before),
+        isNull(pushSubscriptions.expiryWarnedAt),
+      ));
+  }
+
+  async markPushSubscriptionExpiryWarned(id: number): Promise<void> {
+    await db.update(pushSubscriptions)
+      .set({ expiryWarnedAt: new Date() })
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  async deactivatePushSubscription(userId: number, endpoint: string): Promise<boolean> {
+    const rows = await db.update(pushSubscriptions)
+      .set(deactivation())
+      .where(and(
+        eq(pushSubscriptions.userId, userId),
+        sql`coalesce(${pushSubscriptions.endpoint}, ${pushSubscriptions.subscription}->>'endpoint') = ${endpoint}`
+      ))
+      .returning({ id: pushSubscriptions.id });
+    return rows.length > 0;
+  }
+
+  async deactivatePushSubscriptionById(id: number): Promise<void> {
+    await db.update(pushSubscriptions)
+      .set(deactivation())
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  async getCurrentVapidKeys(): Promise<VapidKeyPair | undefined> {
+    const [keys] = await db
+      .select()
+      .from(vapidKeys)
+      .orderBy(desc(vapidKeys.createdAt), desc(vapidKeys.id))
+      .limit(1);
+    return keys;
+  }
+
+  async createVapidKeys(keys: { publicKey: string; privateKey: string }, createdById: number | null): Promise<VapidKeyPair> {
+    const [created] = await db.insert(vapidKeys)
+      .values({ ...keys, createdById })
+      .returning();
+    return created;
   }
 
   async getActivePushSubscriptions(): Promise<PushSubscription[]> {
@@ -51,11 +420,1120 @@ export class DatabaseStorage implements IStorage {
     return subscriptions;
   }
 
+  async getActivePushSubscriptionsForUser(userId: number): Promise<PushSubscription[]> {
+    return db
+      .select()
+      .from(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.active, true)));
+  }
+
+  async getPushDevices(userId: number): Promise<PushDevice[]> {
+    const subscriptions = await db
+      .select()
+      .from(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.active, true)))
+      .orderBy(desc(pushSubscriptions.createdAt));
+
+    return subscriptions.map(subscription => {
+      const endpoint = subscription.endpoint ?? (subscription.subscription as { endpoint?: string }).endpoint ?? null;
+      const platform = getPushPlatform(endpoint);
+      const { browser, os } = parseUserAgent(subscription.userAgent);
+      return {
+        id: subscription.id,
+        name: subscription.name || defaultDeviceName(browser, os, platform),
+        named: !!subscription.name,
+        platform,
+        browser,
+        os,
+        endpoint,
+        createdAt: subscription.createdAt.toISOString(),
+        lastDeliveredAt: subscription.lastDeliveredAt?.toISOString() ?? null,
+        expiresAt: subscription.expiresAt?.toISOString() ?? null,
+      };
+    });
+  }
+
+  async getUserPushSubscription(userId: number, id: number): Promise<PushSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(pushSubscriptions)
+      .where(and(
+        eq(pushSubscriptions.id, id),
+        eq(pushSubscriptions.userId, userId),
+        eq(pushSubscriptions.active, true),
+      ));
+    return subscription;
+  }
+
+  async renamePushSubscription(userId: number, id: number, name: string | null): Promise<PushSubscription | undefined> {
+    const [subscription] = await db.update(pushSubscriptions)
+      .set({ name, updatedAt: new Date() })
+      .where(and(
+        eq(pushSubscriptions.id, id),
+        eq(pushSubscriptions.userId, userId),
+        eq(pushSubscriptions.active, true),
+      ))
+      .returning();
+    return subscription;
+  }
+
+  async deactivateUserPushSubscription(userId: number, id: number): Promise<boolean> {
+    const rows = await db.update(pushSubscriptions)
+      .set(deactivation())
+      .where(and(
+        eq(pushSubscriptions.id, id),
+        eq(pushSubscriptions.userId, userId),
+        eq(pushSubscriptions.active, true),
+      ))
+      .returning({ id: pushSubscriptions.id });
+    return rows.length > 0;
+  }
+
+  async markPushSubscriptionDelivered(id: number): Promise<void> {
+    await db.update(pushSubscriptions)
+      .set({ lastDeliveredAt: new Date() })
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  // Audiences are small (at most a few hundred residents), so they are matched in memory.
+  // With a category, residents who have muted it are left out.
+  async getActivePushSubscriptionsForAudience(audience: NotificationAudience, category?: NotificationCategory): Promise<PushSubscription[]> {
+    const [rows, mutedUserIds] = await Promise.all([
+      db
+        .select({ subscription: pushSubscriptions, user: users })
+        .from(pushSubscriptions)
+        .innerJoin(users, eq(pushSubscriptions.userId, users.id))
+        .where(eq(pushSubscriptions.active, true)),
+      this.getMutedUserIds(category),
+    ]);
+
+    return rows
+      .filter(row => matchesAudience(audience, row.user) && !mutedUserIds.has(row.user.id))
+      .map(row => row.subscription);
+  }
+
+  private async getMutedUserIds(category?: NotificationCategory): Promise<Set<number>> {
+    if (!category || !isMutableCategory(category)) {
+      return new Set();
+    }
+    const muted = await db
+      .select({ userId: notificationPreferences.userId })
+      .from(notificationPreferences)
+      .where(and(eq(notificationPreferences.category, category), eq(notificationPreferences.enabled, false)));
+    return new Set(muted.map(row => row.userId));
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+    const rows = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+
+    const preferences = { ...DEFAULT_PREFERENCES };
+    for (const row of rows) {
+      if (isMutableCategory(row.category)) {
+        preferences[row.category] = row.enabled;
+      }
+    }
+    return preferences;
+  }
+
+  async updateNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const entries = (Object.entries(preferences) as [NotificationCategory, boolean][])
+      .filter(([category]) => isMutableCategory(category));
+
+    if (entries.length > 0) {
+      await db.insert(notificationPreferences)
+        .values(entries.map(([category, enabled]) => ({ userId, category, enabled })))
+        .onConflictDoUpdate({
+          target: [notificationPreferences.userId, notificationPreferences.category],
+          set: { enabled: sql`excluded.enabled`, updatedAt: new Date() },
+        });
+    }
+    return this.getNotificationPreferences(userId);
+  }
+
+  async getNotificationSettings(userId: number): Promise<NotificationSettings> {
+    const [row] = await db
+      .select()
+      .from(notificationSettings)
+      .where(eq(notificationSettings.userId, userId));
+    return row ? withoutUpdatedAt(row) : defaultNotificationSettings(userId);
+  }
+
+  async getNotificationSettingsForUsers(userIds: number[]): Promise<Map<number, NotificationSettings>> {
+    const rows = userIds.length === 0 ? [] : await db
+      .select()
+      .from(notificationSettings)
+      .where(inArray(notificationSettings.userId, userIds));
+    const byUser = new Map(rows.map(row => [row.userId, withoutUpdatedAt(row)]));
+
+    for (const userId of userIds) {
+      if (!byUser.has(userId)) {
+        byUser.set(userId, defaultNotificationSettings(userId));
+      }
+    }
+    return byUser;
+  }
+
+  async updateNotificationSettings(userId: number, settings: UpdateNotificationSettings): Promise<NotificationSettings> {
+    const current = await this.getNotificationSettings(userId);
+
+    // Switching to digests starts the first period now, otherwise the first digest
+    // would repeat everything that was already pushed one by one
+    const lastDigestAt = settings.deliveryMode !== "immediate" && current.deliveryMode === "immediate"
+      ? new Date()
+      : current.lastDigestAt;
+
+    // When consent was given is kept as a record of the opt-in
+    const smsConsentAt = settings.smsConsent
+      ? current.smsConsentAt ?? new Date()
+      : null;
+
+    const [row] = await db.insert(notificationSettings)
+      .values({ userId, ...settings, lastDigestAt, smsConsentAt })
+      .onConflictDoUpdate({
+        target: notificationSettings.userId,
+        set: { ...settings, lastDigestAt, smsConsentAt, updatedAt: new Date() },
+      })
+      .returning();
+    return withoutUpdatedAt(row);
+  }
+
+  async getDigestRecipients(): Promise<Array<{ user: User; settings: NotificationSettings }>> {
+    const rows = await db
+      .select({ user: users, settings: notificationSettings })
+      .from(notificationSettings)
+      .innerJoin(users, eq(notificationSettings.userId, users.id))
+      .where(inArray(notificationSettings.deliveryMode, ["daily", "weekly"]));
+    return rows.map(row => ({ user: row.user, settings: withoutUpdatedAt(row.settings) }));
+  }
+
+  /**
+   * Closes a digest period. The period is only claimed if no other tick closed it
+   * first, an empty period just moves the start of the next one.
+   */
+  async createDigest(userId: number, notificationIds: number[], periodStart: Date, periodEnd: Date): Promise<NotificationDigest | undefined> {
+    return db.transaction(async (tx) => {
+      const claimed = await tx.update(notificationSettings)
+        .set({ lastDigestAt: periodEnd })
+        .where(and(
+          eq(notificationSettings.userId, userId),
+          eq(notificationSettings.lastDigestAt, periodStart),
+        ))
+        .returning({ userId: notificationSettings.userId });
+
+      if (claimed.length === 0 || notificationIds.length === 0) {
+        return undefined;
+      }
+
+      const [digest] = await tx.insert(notificationDigests)
+        .values({ userId, notificationIds, periodStart, periodEnd })
+        .returning();
+      return digest;
+    });
+  }
+
+  async getDigests(userId: number): Promise<NotificationDigest[]> {
+    return db
+      .select()
+      .from(notificationDigests)
+      .where(eq(notificationDigests.userId, userId))
+      .orderBy(desc(notificationDigests.createdAt))
+      .limit(20);
+  }
+
+  async getDigest(userId: number, id: number): Promise<NotificationDigestWithNotifications | undefined> {
+    const [digest] = await db
+      .select()
+      .from(notificationDigests)
+      .where(and(eq(notificationDigests.id, id), eq(notificationDigests.userId, userId)));
+    if (!digest) {
+      return undefined;
+    }
+
+    const included = digest.notificationIds.length === 0 ? [] : await db
+      .select()
+      .from(notifications)
+      // Notices recalled since the digest went out are left out
+      .where(and(inArray(notifications.id, digest.notificationIds), eq(notifications.status, "sent")))
+      .orderBy(desc(sql`coalesce(${notifications.sentAt}, ${notifications.createdAt})`));
+    return { ...digest, notifications: included };
+  }
+
+  async getUsersInAudience(audience: NotificationAudience, category?: NotificationCategory): Promise<User[]> {
+    const [allUsers, mutedUserIds] = await Promise.all([
+      db.select().from(users),
+      this.getMutedUserIds(category),
+    ]);
+    return allUsers.filter(user => matchesAudience(audience, user) && !mutedUserIds.has(user.id));
+  }
+
+  async getUserIdsWithActivePush(): Promise<Set<number>> {
+    const rows = await db
+      .selectDistinct({ userId: pushSubscriptions.userId })
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.active, true));
+    return new Set(rows.map(row => row.userId));
+  }
+
+  async getKnownPorts(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ port: users.port })
+      .from(users)
+      .where(isNotNull(users.port));
+    const ports = new Set(rows.map(row => row.port!.trim()).filter(Boolean));
+    return Array.from(ports)
+      .sort((a, b) => a.localeCompare(b, 'sv', { numeric: true }));
+  }
+
+  // Published notices only, newest first. Scheduled notices count from when they went out.
   async getNotifications(): Promise<Notification[]> {
     return db
       .select()
       .from(notifications)
-      .orderBy(desc(notifications.createdAt));
+      .where(eq(notifications.status, "sent"))
+      .orderBy(desc(sql`coalesce(${notifications.sentAt}, ${notifications.createdAt})`));
+  }
+
+  async getNotificationsForUser(user: User): Promise<NotificationWithReadState[]> {
+    const [all, reads, acknowledgedIds] = await Promise.all([
+      this.getNotifications(),
+      db.select({ notificationId: notificationReads.notificationId })
+        .from(notificationReads)
+        .where(eq(notificationReads.userId, user.id)),
+      this.getAcknowledgedIds(user),
+    ]);
+    const readIds = new Set(reads.map(read => read.notificationId));
+
+    const visible = all.filter(notification => matchesAudience(notification.audience, user));
+    const attached = await this.getAttachmentsFor(visible);
+    return visible.map(notification => ({
+      ...notification,
+      read: readIds.has(notification.id),
+      acknowledged: acknowledgedIds.has(notification.id),
+      attachments: attached.get(notification.seriesId ?? notification.id) ?? [],
+    }));
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  // A single published notice, if the user was targeted by it. The board can open any of them.
+  async getNotificationForUser(user: User, id: number): Promise<NotificationWithReadState | undefined> {
+    const notification = await this.getNotification(id);
+    if (!notification || notification.status !== "sent") {
+      return undefined;
+    }
+    if (user.role === "resident" && !matchesAudience(notification.audience, user)) {
+      return undefined;
+    }
+
+    const [[read], acknowledgedIds, attached] = await Promise.all([
+      db.select()
+        .from(notificationReads)
+        .where(and(eq(notificationReads.userId, user.id), eq(notificationReads.notificationId, id))),
+      this.getAcknowledgedIds(user, id),
+      this.getAttachmentsFor([notification]),
+    ]);
+    return {
+      ...notification,
+      read: !!read,
+      acknowledged: acknowledgedIds.has(id),
+      attachments: attached.get(notification.seriesId ?? notification.id) ?? [],
+    };
+  }
+
+  async getUnreadNotificationCount(user: User): Promise<number> {
+    const visible = await this.getNotificationsForUser(user);
+    return visible.filter(notification => !notification.read).length;
+  }
+
+  // Occurrences of a recurring notice share the attachments of their series, so the map is
+  // keyed by the series id for those
+  private async getAttachmentsFor(list: Notification[]): Promise<Map<number, AttachmentInfo[]>> {
+    const ownerIds = Array.from(new Set(list.map(notification => notification.seriesId ?? notification.id)));
+    const byOwner = new Map<number, AttachmentInfo[]>();
+    if (ownerIds.length === 0) {
+      return byOwner;
+    }
+
+    const rows = await db
+      .select({
+        id: attachments.id,
+        notificationId: attachments.notificationId,
+        fileName: attachments.fileName,
+        mimeType: attachments.mimeType,
+        size: attachments.size,
+      })
+      .from(attachments)
+      .where(inArray(attachments.notificationId, ownerIds))
+      .orderBy(asc(attachments.id));
+
+    for (const row of rows) {
+      byOwner.set(row.notificationId!, [...(byOwner.get(row.notificationId!) ?? []), row]);
+    }
+    return byOwner;
+  }
+
+  async getNotificationAttachments(notification: Notification): Promise<AttachmentInfo[]> {
+    const attached = await this.getAttachmentsFor([notification]);
+    return attached.get(notification.seriesId ?? notification.id) ?? [];
+  }
+
+  async createAttachment(attachment: Omit<Attachment, "id" | "notificationId" | "createdAt">): Promise<Attachment> {
+    const [created] = await db.insert(attachments).values(attachment).returning();
+    return created;
+  }
+
+  /**
+   * An attachment the user may download: the board sees all of them, residents only those
+   * of notices they can read. Uploads not yet sent with a notice are for the uploader only.
+   */
+  async getAttachmentForUser(user: User, id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    if (!attachment) {
+      return undefined;
+    }
+    if (attachment.notificationId === null) {
+      return attachment.uploadedById === user.id ? attachment : undefined;
+    }
+    if (user.role !== "resident") {
+      return attachment;
+    }
+
+    const owner = await this.getNotification(attachment.notificationId);
+    if (!owner || !matchesAudience(owner.audience, user)) {
+      return undefined;
+    }
+    if (owner.status === "sent") {
+      return attachment;
+    }
+
+    // A recurring series stays scheduled, its sent occurrences carry the attachments
+    const [occurrence] = await db.select({ id: notifications.id })
+      .from(notifications)
+      .where(and(eq(notifications.seriesId, owner.id), eq(notifications.status, "sent")))
+      .limit(1);
+    return occurrence ? attachment : undefined;
+  }
+
+  async linkAttachments(notificationId: number, ids: number[], uploadedById: number): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const linked = await db.update(attachments)
+      .set({ notificationId })
+      .where(and(
+        inArray(attachments.id, ids),
+        isNull(attachments.notificationId),
+        eq(attachments.uploadedById, uploadedById),
+      ))
+      .returning({ id: attachments.id });
+    return linked.length;
+  }
+
+  async deleteUnlinkedAttachment(id: number, uploadedById: number): Promise<Attachment | undefined> {
+    const [deleted] = await db.delete(attachments)
+      .where(and(
+        eq(attachments.id, id),
+        isNull(attachments.notificationId),
+        eq(attachments.uploadedById, uploadedById),
+      ))
+      .returning();
+    return deleted;
+  }
+
+  async markNotificationRead(userId: number, notificationId: number): Promise<void> {
+    await db.insert(notificationReads)
+      .values({ userId, notificationId })
+      .onConflictDoNothing();
+  }
+
+  async markAllNotificationsRead(user: User): Promise<number> {
+    const unread = (await this.getNotificationsForUser(user)).filter(notification => !notification.read);
+    if (unread.length === 0) {
+      return 0;
+    }
+
+    await db.insert(notificationReads)
+      .values(unread.map(notification => ({ userId: user.id, notificationId: notification.id })))
+      .onConflictDoNothing();
+    return unread.length;
+  }
+
+  // Notices confirmed by the user or by anyone in their apartment. Apartments only count
+  // when verified through an invitation code, on both sides.
+  private async getAcknowledgedIds(user: User, notificationId?: number): Promise<Set<number>> {
+    const byUserOrApartment = user.apartmentVerified && user.apartmentNumber
+      ? or(
+        eq(notificationAcknowledgements.userId, user.id),
+        and(
+          eq(notificationAcknowledgements.apartmentNumber, apartmentKey(user.apartmentNumber)),
+          eq(users.apartmentVerified, true),
+        ),
+      )
+      : eq(notificationAcknowledgements.userId, user.id);
+
+    const rows = await db
+      .select({ notificationId: notificationAcknowledgements.notificationId })
+      .from(notificationAcknowledgements)
+      .innerJoin(users, eq(notificationAcknowledgements.userId, users.id))
+      .where(notificationId === undefined
+        ? byUserOrApartment
+        : and(byUserOrApartment, eq(notificationAcknowledgements.notificationId, notificationId)));
+    return new Set(rows.map(row => row.notificationId));
+  }
+
+  async getUnacknowledgedCriticalNotifications(user: User): Promise<Notification[]> {
+    const visible = await this.getNotificationsForUser(user);
+    return visible.filter(notification => notification.critical && !notification.acknowledged);
+  }
+
+  async acknowledgeNotification(user: User, notificationId: number): Promise<void> {
+    // A self-declared apartment could be anyone's, such a resident only confirms for themselves
+    const apartmentNumber = user.apartmentVerified && user.apartmentNumber ? apartmentKey(user.apartmentNumber) : null;
+
+    await db.transaction(async (tx) => {
+      if (apartmentNumber) {
+        // Confirmations stored before this check may hold the apartment for an unverified
+        // resident, they step aside for the apartment's verified residents
+        await tx.update(notificationAcknowledgements)
+          .set({ apartmentNumber: null })
+          .where(and(
+            eq(notificationAcknowledgements.notificationId, notificationId),
+            eq(notificationAcknowledgements.apartmentNumber, apartmentNumber),
+            inArray(
+              notificationAcknowledgements.userId,
+              tx.select({ id: users.id }).from(users).where(eq(users.apartmentVerified, false)),
+            ),
+          ));
+      }
+      // Does nothing if someone else in the apartment already confirmed. Stored normalized
+      // so "012" and "12" hit the same unique row.
+      await tx.insert(notificationAcknowledgements)
+        .values({ notificationId, userId: user.id, apartmentNumber })
+        .onConflictDoNothing();
+      // Confirming a notice obviously means it has been read
+      await tx.insert(notificationReads)
+        .values({ notificationId, userId: user.id })
+        .onConflictDoNothing();
+    });
+  }
+
+  // A notice's confirmations, oldest first, with the apartment each counts for. That is null
+  // when the resident's apartment isn't verified, whatever was stored at the time.
+  private async getNoticeAcknowledgements(notificationId: number) {
+    const rows = await db
+      .select({ ack: notificationAcknowledgements, verified: users.apartmentVerified })
+      .from(notificationAcknowledgements)
+      .innerJoin(users, eq(notificationAcknowledgements.userId, users.id))
+      .where(eq(notificationAcknowledgements.notificationId, notificationId))
+      .orderBy(asc(notificationAcknowledgements.acknowledgedAt));
+    return rows.map(({ ack, verified }) => ({
+      ...ack,
+      apartmentNumber: verified && ack.apartmentNumber ? apartmentKey(ack.apartmentNumber) : null,
+    }));
+  }
+
+  async getAcknowledgementReport(notification: Notification): Promise<AcknowledgementReport> {
+    const [audienceUsers, acknowledgements] = await Promise.all([
+      this.getUsersInAudience(notification.audience),
+      this.getNoticeAcknowledgements(notification.id),
+    ]);
+
+    // One confirmation per apartment is enough, the earliest one counts
+    const confirmed = new Map<string, Date>();
+    for (const ack of acknowledgements) {
+      const apartment = ack.apartmentNumber;
+      if (apartment && !confirmed.has(apartment)) {
+        confirmed.set(apartment, ack.acknowledgedAt);
+      }
+    }
+
+    const registered = new Set(
+      audienceUsers
+        .map(user => user.apartmentNumber && apartmentKey(user.apartmentNumber))
+        .filter((apartment): apartment is string => !!apartment)
+    );
+    const byNumber = (a: string, b: string) => a.localeCompare(b, "sv", { numeric: true });
+    const apartments = Array.from(new Set([...(audienceApartments(notification.audience) ?? []), ...Array.from(registered)]))
+      .sort(byNumber);
+
+    return {
+      notificationId: notification.id,
+      apartments: apartments.length,
+      confirmed: Array.from(confirmed.entries())
+        .sort(([a], [b]) => byNumber(a, b))
+        .map(([apartmentNumber, acknowledgedAt]) => ({ apartmentNumber, acknowledgedAt: acknowledgedAt.toISOString() })),
+      unconfirmed: apartments
+        .filter(apartment => !confirmed.has(apartment))
+        .map(apartmentNumber => ({ apartmentNumber, registered: registered.has(apartmentNumber) })),
+      remindedAt: notification.ackRemindedAt?.toISOString() ?? null,
+    };
+  }
+
+  // Sent notices that ask for confirmation, newest first
+  async getAcknowledgementSummaries(since: Date): Promise<AcknowledgementSummary[]> {
+    const pending = await db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.status, "sent"),
+        or(eq(notifications.requiresAck, true), eq(notifications.critical, true)),
+        gt(sql`coalesce(${notifications.sentAt}, ${notifications.createdAt})`, since),
+      ))
+      .orderBy(desc(sql`coalesce(${notifications.sentAt}, ${notifications.createdAt})`));
+
+    const summaries: AcknowledgementSummary[] = [];
+    for (const notification of pending) {
+      const report = await this.getAcknowledgementReport(notification);
+      summaries.push({ notification, apartments: report.apartments, confirmed: report.confirmed.length });
+    }
+    return summaries;
+  }
+
+  /**
+   * Active devices of residents whose apartment hasn't confirmed the notice yet. Residents
+   * without a verified apartment count on their own.
+   */
+  async getUnconfirmedSubscriptions(notification: Notification): Promise<PushSubscription[]> {
+    const [audienceUsers, acknowledgements] = await Promise.all([
+      this.getUsersInAudience(notification.audience),
+      this.getNoticeAcknowledgements(notification.id),
+    ]);
+
+    const confirmedApartments = new Set(acknowledgements
+      .map(ack => ack.apartmentNumber)
+      .filter(Boolean));
+    const confirmedUsers = new Set(acknowledgements.map(ack => ack.userId));
+    const userIds = audienceUsers
+      .filter(user => user.apartmentVerified && user.apartmentNumber
+        ? !confirmedApartments.has(apartmentKey(user.apartmentNumber))
+        : !confirmedUsers.has(user.id))
+      .map(user => user.id);
+
+    if (userIds.length === 0) {
+      return [];
+    }
+    return db
+      .select()
+      .from(pushSubscriptions)
+      .where(and(inArray(pushSubscriptions.userId, userIds), eq(pushSubscriptions.active, true)));
+  }
+
+  async markReminderSent(notificationId: number): Promise<void> {
+    await db.update(notifications)
+      .set({ ackRemindedAt: new Date() })
+      .where(eq(notifications.id, notificationId));
+  }
+
+  async createNotification(data: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications)
+      .values(data)
+      .returning();
+    return notification;
+  }
+
+  async getScheduledNotifications(): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.status, "scheduled"))
+      .orderBy(asc(notifications.scheduledAt));
+  }
+
+  async getDueNotifications(now: Date): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.status, "scheduled"),
+        lte(notifications.scheduledAt, now)
+      ))
+      .orderBy(asc(notifications.scheduledAt));
+  }
+
+  /**
+   * Moves a due notification on, guarded by its current scheduledAt so that two
+   * scheduler ticks (or two server processes) can't both send the same occurrence.
+   * A one-off notice becomes sent; a series moves to nextRun or completes.
+   */
+  async claimScheduledNotification(notification: Notification, nextRun: Date | null): Promise<Notification | undefined> {
+    const now = new Date();
+    const update = notification.recurrence
+      ? (nextRun ? { scheduledAt: nextRun } : { status: "completed" as const })
+      : { status: "sent" as const, sentAt: now };
+
+    const [claimed] = await db.update(notifications)
+      .set(update)
+      .where(and(
+        eq(notifications.id, notification.id),
+        eq(notifications.status, "scheduled"),
+        eq(notifications.scheduledAt, notification.scheduledAt!)
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async createOccurrence(series: Notification): Promise<Notification> {
+    return this.createNotification({
+      title: series.title,
+      body: series.body,
+      link: series.link,
+      audience: series.audience,
+      category: series.category,
+      imageUrl: series.imageUrl,
+      actions: series.actions,
+      ttlSeconds: series.ttlSeconds,
+      urgency: series.urgency,
+      topic: series.topic,
+      requiresAck: series.requiresAck,
+      createdById: series.createdById,
+      seriesId: series.id,
+      status: "sent",
+      sentAt: new Date(),
+    });
+  }
+
+  async updateScheduledNotification(id: number, data: UpdateScheduledNotification): Promise<Notification | undefined> {
+    const [notification] = await db.update(notifications)
+      .set({
+        title: data.title,
+        body: data.body,
+        link: data.link || null,
+        scheduledAt: data.scheduledAt,
+        recurrence: data.recurrence ?? null,
+        // A new first send starts the series over
+        seriesStartAt: data.recurrence ? data.scheduledAt : null,
+      })
+      .where(and(eq(notifications.id, id), eq(notifications.status, "scheduled")))
+      .returning();
+    return notification;
+  }
+
+  async cancelScheduledNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.update(notifications)
+      .set({ status: "cancelled" })
+      .where(and(eq(notifications.id, id), eq(notifications.status, "scheduled")))
+      .returning();
+    return notification;
+  }
+
+  /**
+   * Updates a sent notice and logs what it said before. A correction also bumps the
+   * revision and drops pushes of the old text that haven't gone out yet.
+   */
+  async editNotification(id: number, data: EditNotification, actorId: number): Promise<Notification | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(notifications)
+        .where(and(eq(notifications.id, id), eq(notifications.status, "sent")));
+      if (!current) {
+        return undefined;
+      }
+
+      await tx.insert(notificationAuditLog).values({
+        notificationId: id,
+        action: data.correction ? "corrected" : "edited",
+        actorId,
+        previous: { title: current.title, body: current.body, link: current.link },
+      });
+
+      if (data.correction) {
+        await tx.update(pushDeliveries)
+          .set({ status: "expired", error: "Replaced by a correction" })
+          .where(and(eq(pushDeliveries.notificationId, id), eq(pushDeliveries.status, "pending")));
+      }
+
+      const [updated] = await tx.update(notifications)
+        .set({
+          title: data.title,
+          body: data.body,
+          link: data.link || null,
+          editedAt: new Date(),
+          ...(data.correction ? { revision: current.revision + 1 } : {}),
+        })
+        .where(eq(notifications.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  /**
+   * Takes a sent notice out of the app and the delivery queue. Returns the devices
+   * it already reached, so the pushes shown there can be closed.
+   */
+  async recallNotification(id: number, actorId: number): Promise<{ notification: Notification; subscriptions: PushSubscription[] } | undefined> {
+    return db.transaction(async (tx) => {
+      const [notification] = await tx.update(notifications)
+        .set({ status: "recalled", recalledAt: new Date() })
+        .where(and(eq(notifications.id, id), eq(notifications.status, "sent")))
+        .returning();
+      if (!notification) {
+        return undefined;
+      }
+
+      await tx.insert(notificationAuditLog).values({ notificationId: id, action: "recalled", actorId });
+
+      await tx.update(pushDeliveries)
+        .set({ status: "expired", error: "Notification recalled" })
+        .where(and(eq(pushDeliveries.notificationId, id), eq(pushDeliveries.status, "pending")));
+      await tx.update(emailDeliveries)
+        .set({ status: "expired", error: "Notification recalled" })
+        .where(and(eq(emailDeliveries.notificationId, id), eq(emailDeliveries.status, "pending")));
+
+      const reached = await tx
+        .selectDistinct({ subscription: pushSubscriptions })
+        .from(pushDeliveries)
+        .innerJoin(pushSubscriptions, eq(pushDeliveries.subscriptionId, pushSubscriptions.id))
+        .where(and(
+          eq(pushDeliveries.notificationId, id),
+          eq(pushDeliveries.status, "delivered"),
+          eq(pushSubscriptions.active, true),
+        ));
+      return { notification, subscriptions: reached.map(row => row.subscription) };
+    });
+  }
+
+  async getNotificationHistory(id: number): Promise<NotificationAuditEntry[]> {
+    const rows = await db
+      .select({ entry: notificationAuditLog, displayName: users.displayName, email: users.email })
+      .from(notificationAuditLog)
+      .leftJoin(users, eq(notificationAuditLog.actorId, users.id))
+      .where(eq(notificationAuditLog.notificationId, id))
+      .orderBy(desc(notificationAuditLog.createdAt));
+    return rows.map(row => ({ ...row.entry, actorName: row.displayName || row.email }));
+  }
+
+  async enqueueDeliveries(notificationId: number, deliveries: QueuedDelivery[], revision = 0): Promise<number> {
+    if (deliveries.length === 0) {
+      return 0;
+    }
+
+    const rows = await db.insert(pushDeliveries)
+      .values(deliveries.map(({ subscription, notBefore }) => ({
+        notificationId,
+        revision,
+        subscriptionId: subscription.id,
+        platform: getPushPlatform(subscription.endpoint ?? (subscription.subscription as { endpoint?: string }).endpoint),
+        ...(notBefore ? { nextAttemptAt: notBefore } : {}),
+      })))
+      .onConflictDoNothing()
+      .returning({ id: pushDeliveries.id });
+    return rows.length;
+  }
+
+  /**
+   * Leases a batch of due deliveries by pushing their next attempt past the lease.
+   * Whatever a crashed worker had leased comes due again once the lease runs out.
+   */
+  async claimDueDeliveries(now: Date, limit: number, leaseMs: number): Promise<DeliveryJob[]> {
+    const due = db
+      .select({ id: pushDeliveries.id })
+      .from(pushDeliveries)
+      .where(and(eq(pushDeliveries.status, "pending"), lte(pushDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(pushDeliveries.nextAttemptAt))
+      .limit(limit);
+
+    const claimed = await db.update(pushDeliveries)
+      .set({
+        attempts: sql`${pushDeliveries.attempts} + 1`,
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + leaseMs),
+      })
+      .where(and(
+        inArray(pushDeliveries.id, due),
+        eq(pushDeliveries.status, "pending"),
+        lte(pushDeliveries.nextAttemptAt, now)
+      ))
+      .returning({ id: pushDeliveries.id });
+
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    return db
+      .select({ delivery: pushDeliveries, subscription: pushSubscriptions, notification: notifications })
+      .from(pushDeliveries)
+      .innerJoin(pushSubscriptions, eq(pushDeliveries.subscriptionId, pushSubscriptions.id))
+      .innerJoin(notifications, eq(pushDeliveries.notificationId, notifications.id))
+      .where(inArray(pushDeliveries.id, claimed.map(row => row.id)));
+  }
+
+  async markDeliveryDelivered(id: number, statusCode: number): Promise<void> {
+    await db.update(pushDeliveries)
+      .set({ status: "delivered", deliveredAt: new Date(), statusCode, error: null })
+      .where(eq(pushDeliveries.id, id));
+  }
+
+  async markDeliveryFinished(id: number, status: "failed" | "expired", statusCode: number | null, error: string): Promise<void> {
+    await db.update(pushDeliveries)
+      .set({ status, statusCode, error })
+      .where(eq(pushDeliveries.id, id));
+  }
+
+  async scheduleDeliveryRetry(id: number, nextAttemptAt: Date, statusCode: number | null, error: string): Promise<void> {
+    await db.update(pushDeliveries)
+      .set({ nextAttemptAt, statusCode, error })
+      .where(eq(pushDeliveries.id, id));
+  }
+
+  async enqueueEmailDeliveries(notificationId: number, recipients: User[]): Promise<number> {
+    if (recipients.length === 0) {
+      return 0;
+    }
+
+    const rows = await db.insert(emailDeliveries)
+      .values(recipients.map(user => ({ notificationId, userId: user.id, email: user.email })))
+      .onConflictDoNothing()
+      .returning({ id: emailDeliveries.id });
+    return rows.length;
+  }
+
+  // Leased the same way as push deliveries
+  async claimDueEmailDeliveries(now: Date, limit: number, leaseMs: number): Promise<EmailJob[]> {
+    const due = db
+      .select({ id: emailDeliveries.id })
+      .from(emailDeliveries)
+      .where(and(eq(emailDeliveries.status, "pending"), lte(emailDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(emailDeliveries.nextAttemptAt))
+      .limit(limit);
+
+    const claimed = await db.update(emailDeliveries)
+      .set({
+        attempts: sql`${emailDeliveries.attempts} + 1`,
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + leaseMs),
+      })
+      .where(and(
+        inArray(emailDeliveries.id, due),
+        eq(emailDeliveries.status, "pending"),
+        lte(emailDeliveries.nextAttemptAt, now)
+      ))
+      .returning({ id: emailDeliveries.id });
+
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    return db
+      .select({ delivery: emailDeliveries, notification: notifications })
+      .from(emailDeliveries)
+      .innerJoin(notifications, eq(emailDeliveries.notificationId, notifications.id))
+      .where(inArray(emailDeliveries.id, claimed.map(row => row.id)));
+  }
+
+  async markEmailDelivered(id: number): Promise<void> {
+    await db.update(emailDeliveries)
+      .set({ status: "delivered", deliveredAt: new Date(), error: null })
+      .where(eq(emailDeliveries.id, id));
+  }
+
+  async markEmailFinished(id: number, status: "failed" | "expired", error: string): Promise<void> {
+    await db.update(emailDeliveries)
+      .set({ status, error })
+      .where(eq(emailDeliveries.id, id));
+  }
+
+  async scheduleEmailRetry(id: number, nextAttemptAt: Date, error: string): Promise<void> {
+    await db.update(emailDeliveries)
+      .set({ nextAttemptAt, error })
+      .where(eq(emailDeliveries.id, id));
+  }
+
+  // Undefined when the resident already got an SMS for this notice
+  async createSmsDelivery(notificationId: number, userId: number, phoneNumber: string): Promise<SmsDelivery | undefined> {
+    const [delivery] = await db.insert(smsDeliveries)
+      .values({ notificationId, userId, phoneNumber })
+      .onConflictDoNothing()
+      .returning();
+    return delivery;
+  }
+
+  async finishSmsDelivery(id: number, result: { providerMessageId: string } | { error: string }): Promise<void> {
+    await db.update(smsDeliveries)
+      .set("error" in result
+        ? { status: "failed", error: result.error }
+        : { status: "delivered", providerMessageId: result.providerMessageId, deliveredAt: new Date() })
+      .where(eq(smsDeliveries.id, id));
+  }
+
+  async getDeliveryReport(notificationId: number): Promise<DeliveryReport> {
+    const [rows, emailRows, smsRows] = await Promise.all([
+      db
+        .select({
+          platform: pushDeliveries.platform,
+          status: pushDeliveries.status,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(pushDeliveries)
+        .where(eq(pushDeliveries.notificationId, notificationId))
+        .groupBy(pushDeliveries.platform, pushDeliveries.status),
+      db
+        .select({
+          status: emailDeliveries.status,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(emailDeliveries)
+        .where(eq(emailDeliveries.notificationId, notificationId))
+        .groupBy(emailDeliveries.status),
+      db
+        .select({
+          status: smsDeliveries.status,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(smsDeliveries)
+        .where(eq(smsDeliveries.notificationId, notificationId))
+        .groupBy(smsDeliveries.status),
+    ]);
+
+    const emptyCounts = () => Object.fromEntries(deliveryStatuses.map(status => [status, 0])) as DeliveryCounts;
+    const counts = emptyCounts();
+    const byPlatform = new Map(pushPlatforms.map(platform => [platform, emptyCounts()]));
+
+    for (const row of rows) {
+      const status = row.status as DeliveryStatus;
+      counts[status] += row.count;
+      byPlatform.get(row.platform)![status] += row.count;
+    }
+
+    const email = emptyCounts();
+    for (const row of emailRows) {
+      const status = row.status as DeliveryStatus;
+      counts[status] += row.count;
+      email[status] += row.count;
+    }
+
+    const sms = emptyCounts();
+    for (const row of smsRows) {
+      const status = row.status as DeliveryStatus;
+      counts[status] += row.count;
+      sms[status] += row.count;
+    }
+
+    return {
+      notificationId,
+      total: deliveryStatuses.reduce((sum, status) => sum + counts[status], 0),
+      counts,
+      // Only platforms the notice was actually sent to
+      platforms: pushPlatforms
+        .map(platform => ({ platform, ...byPlatform.get(platform)! }))
+        .filter(row => deliveryStatuses.some(status => row[status] > 0)),
+      email,
+      sms,
+    };
+  }
+
+  // The service worker reports taps on a push, the endpoint tells which device it was
+  async markPushOpened(notificationId: number, endpoint: string): Promise<boolean> {
+    const rows = await db.update(pushDeliveries)
+      .set({ openedAt: new Date() })
+      .where(and(
+        eq(pushDeliveries.notificationId, notificationId),
+        isNull(pushDeliveries.openedAt),
+        inArray(
+          pushDeliveries.subscriptionId,
+          db.select({ id: pushSubscriptions.id })
+            .from(pushSubscriptions)
+            // Rows from before the endpoint column only have it inside the subscription JSON
+            .where(sql`coalesce(${pushSubscriptions.endpoint}, ${pushSubscriptions.subscription}->>'endpoint') = ${endpoint}`),
+        ),
+      ))
+      .returning({ id: pushDeliveries.id });
+    return rows.length > 0;
+  }
+
+  async getPushAnalytics(days: number): Promise<PushAnalytics> {
+    const [subscriptions, recent, residents] = await Promise.all([
+      // Inactive rows without a deactivation time can't be placed in the history
+      db
+        .select({
+          userId: pushSubscriptions.userId,
+          userAgent: pushSubscriptions.userAgent,
+          active: pushSubscriptions.active,
+          createdAt: pushSubscriptions.createdAt,
+          deactivatedAt: pushSubscriptions.deactivatedAt,
+        })
+        .from(pushSubscriptions)
+        .where(or(eq(pushSubscriptions.active, true), isNotNull(pushSubscriptions.deactivatedAt))),
+      db
+        .select({ id: notifications.id, title: notifications.title, sentAt: notifications.sentAt })
+        .from(notifications)
+        .where(and(inArray(notifications.status, ["sent", "recalled"]), isNotNull(notifications.sentAt)))
+        .orderBy(desc(notifications.sentAt))
+        .limit(RECENT_NOTICES),
+      db
+        .select({ id: users.id, apartmentNumber: users.apartmentNumber })
+        .from(users)
+        .where(isNotNull(users.apartmentNumber)),
+    ]);
+
+    // Devices rather than deliveries, so a correction's second push isn't counted again
+    const rates = recent.length === 0 ? [] : await db
+      .select({
+        notificationId: pushDeliveries.notificationId,
+        devices: sql<number>`count(distinct ${pushDeliveries.subscriptionId})::int`,
+        delivered: sql<number>`(count(distinct ${pushDeliveries.subscriptionId}) filter (where ${pushDeliveries.status} = 'delivered'))::int`,
+        opened: sql<number>`(count(distinct ${pushDeliveries.subscriptionId}) filter (where ${pushDeliveries.openedAt} is not null))::int`,
+      })
+      .from(pushDeliveries)
+      .where(inArray(pushDeliveries.notificationId, recent.map(notice => notice.id)))
+      .groupBy(pushDeliveries.notificationId);
+    const ratesById = new Map(rates.map(rate => [rate.notificationId, rate]));
+
+    // A few hundred rows at most, counted per day in memory
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const subscribers = Array.from({ length: days }, (_, i) => {
+      const day = new Date(today.getTime() - (days - 1 - i) * 24 * 60 * 60 * 1000);
+      const end = day.getTime() + 24 * 60 * 60 * 1000;
+      const count = subscriptions.filter(subscription =>
+        subscription.createdAt.getTime() < end &&
+        (subscription.deactivatedAt ? subscription.deactivatedAt.getTime() >= end : subscription.active)
+      ).length;
+      return { date: day.toISOString().slice(0, 10), count };
+    });
+
+    const active = subscriptions.filter(subscription => subscription.active);
+    const byClass = new Map(deviceClasses.map(deviceClass => [deviceClass, 0]));
+    for (const subscription of active) {
+      const deviceClass = getDeviceClass(parseUserAgent(subscription.userAgent).os);
+      byClass.set(deviceClass, byClass.get(deviceClass)! + 1);
+    }
+
+    const subscribedUsers = new Set(active.map(subscription => subscription.userId));
+    const registered = new Set<string>();
+    const withPush = new Set<string>();
+    for (const resident of residents) {
+      const key = apartmentKey(resident.apartmentNumber!);
+      const number = Number(key);
+      if (!Number.isInteger(number) || number < 1 || number > MAX_APARTMENT) {
+        continue;
+      }
+      registered.add(key);
+      if (subscribedUsers.has(resident.id)) {
+        withPush.add(key);
+      }
+    }
+
+    return {
+      subscribers,
+      deviceClasses: deviceClasses.map(deviceClass => ({ deviceClass, count: byClass.get(deviceClass)! })),
+      notices: recent.map(notice => ({
+        id: notice.id,
+        title: notice.title,
+        sentAt: notice.sentAt!.toISOString(),
+        devices: ratesById.get(notice.id)?.devices ?? 0,
+        delivered: ratesById.get(notice.id)?.delivered ?? 0,
+        opened: ratesById.get(notice.id)?.opened ?? 0,
+      })),
+      apartments: { registered: registered.size, withPush: withPush.size, total: MAX_APARTMENT },
+    };
   }
 }
 
@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+import { sendDirectPush } from "./delivery-worker";
+import { isPushConfigured } from "./vapid";
+import { log } from "./vite";
+
+// Early enough that a resident who rarely opens the app still has a few days
+const WARN_BEFORE_MS = 3 * 24 * 60 * 60 * 1000;
+// The scheduler ticks every 30 seconds, expiry times don't need that
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastCheck = 0;
+
+/**
+ * Warns residents whose push subscription is about to run out. Opening the app renews the
+ * subscription, see client/src/lib/notifications.ts. Called from the scheduler tick.
+ */
+export async function warnExpiringSubscriptions(now = new Date()) {
+  if (now.getTime() - lastCheck < CHECK_INTERVAL_MS || !(await isPushConfigured())) {
+    return;
+  }
+  lastCheck = now.getTime();
+
+  const expiring = await storage.getExpiringPushSubscriptions(new Date(now.getTime() + WARN_BEFORE_MS));
+  if (expiring.length === 0) {
+    return;
+  }
+
+  const payload = JSON.stringify({
+    title: "Notiserna slutar snart fungera",
+    body: "Öppna appen så fortsätter den här enheten att få notiser från Bergakungen.",
+    url: "/settings",
+    tag: "subscription-expiry",
+    id: null,
+  });
+
+  for (const subscription of expiring) {
+    // Marked either way, a subscription the push service refused is deactivated already
+    await sendDirectPush(subscription, payload);
+    await storage.markPushSubscriptionExpiryWarned(subscription.id);
+  }
+  log(`Warned ${expiring.length} subscriptions about to expire`, "push");
+}
@@ -0,0 +1,56 @@
+/**
+ * Manages the VAPID keys pushes are signed with, for servers set up without the admin page:
+ *
+ *   npm run vapid -- show       prints the current public key and where it comes from
+ *   npm run vapid -- generate   creates the first key pair, refuses if there already is one
+ *   npm run vapid -- rotate     replaces the current key pair
+ *
+ * A running server picks up new keys within a minute, see server/vapid.ts.
+ */
+import { getVapidKeys, rotateVapidKeys } from "./vapid";
+import { pool } from "./db";
+
+async function main(command: string | undefined) {
+  switch (command) {
+    case "show": {
+      const keys = await getVapidKeys();
+      if (!keys) {
+        console.log("No VAPID keys configured. Run `npm run vapid -- generate` to create them.");
+        return;
+      }
+      console.log(`Public key: ${keys.publicKey}`);
+      console.log(`Source: ${keys.source}${keys.createdAt ? `, created ${keys.createdAt.toISOString()}` : ""}`);
+      return;
+    }
+
+    case "generate": {
+      const existing = await getVapidKeys();
+      if (existing) {
+        console.error(`VAPID keys already exist (${existing.source}). Use \`npm run vapid -- rotate\` to replace them.`);
+        process.exitCode = 1;
+        return;
+      }
+      const keys = await rotateVapidKeys(null);
+      console.log(`Generated VAPID keys. Public key: ${keys.publicKey}`);
+      return;
+    }
+
+    case "rotate": {
+      const keys = await rotateVapidKeys(null);
+      console.log(`Rotated VAPID keys. New public key: ${keys.publicKey}`);
+      console.log("Devices subscribe again with the new key the next time they open the app.");
+      return;
+    }
+
+    default:
+      console.error("Usage: npm run vapid -- <show|generate|rotate>");
+      process.exitCode = 1;
+  }
+}
+
+main(process.argv[2])
+  .catch(error => {
+    console.error('VAPID command failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,68 @@
+import webpush from "web-push";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Push services contact this address if something is wrong with our pushes
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:docenten@example.com";
+
+// Keys rotated from the command line reach a running server within this time
+const CACHE_MS = 60 * 1000;
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  source: "database" | "environment";
+  createdAt: Date | null;
+}
+
+let cached: { keys: VapidKeys | null; loadedAt: number } | null = null;
+
+/**
+ * The key pair pushes are signed with, or null when push isn't set up. Keys generated from
+ * the admin page or `npm run vapid` are stored in the database and win over
+ * VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY from the environment.
+ */
+export async function getVapidKeys(): Promise<VapidKeys | null> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_MS) {
+    return cached.keys;
+  }
+
+  const stored = await storage.getCurrentVapidKeys();
+  let keys: VapidKeys | null = null;
+  if (stored) {
+    keys = { publicKey: stored.publicKey, privateKey: stored.privateKey, source: "database", createdAt: stored.createdAt };
+  } else if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    keys = {
+      publicKey: process.env.VAPID_PUBLIC_KEY,
+      privateKey: process.env.VAPID_PRIVATE_KEY,
+      source: "environment",
+      createdAt: null,
+    };
+  }
+
+  cached = { keys, loadedAt: Date.now() };
+  return keys;
+}
+
+// Passed with every push instead of webpush.setVapidDetails, so a rotation applies at once
+export async function getVapidDetails(): Promise<webpush.RequestOptions["vapidDetails"] | null> {
+  const keys = await getVapidKeys();
+  return keys && { subject: VAPID_SUBJECT, publicKey: keys.publicKey, privateKey: keys.privateKey };
+}
+
+export async function isPushConfigured() {
+  return (await getVapidKeys()) !== null;
+}
+
+/**
+ * Generates a new key pair and makes it the current one. Every existing subscription was
+ * made with the old public key and is refused by the push services from now on; the app
+ * notices the changed key on its next start and subscribes again.
+ */
+export async function rotateVapidKeys(createdById: number | null): Promise<VapidKeys> {
+  const generated = webpush.generateVAPIDKeys();
+  const stored = await storage.createVapidKeys(generated, createdById);
+  cached = null;
+  log(`Generated new VAPID keys (${stored.publicKey.slice(0, 12)}...)`, "push");
+  return { publicKey: stored.publicKey, privateKey: stored.privateKey, source: "database", createdAt: stored.createdAt };
+}
@@ -0,0 +1,69 @@
+// Schedules, quiet hours and digests all follow the association's local time
+export const TIME_ZONE = "Europe/Stockholm";
+
+export interface WallClock {
+  year: number;
+  month: number; // 0-based, like Date
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const wallClockFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+export function toWallClock(date: Date): WallClock {
+  const parts = Object.fromEntries(
+    wallClockFormat.formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function offsetAt(utcMs: number): number {
+  const wall = toWallClock(new Date(utcMs));
+  const wallAsUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+  return wallAsUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+export function fromWallClock(wall: WallClock): Date {
+  // Date.UTC normalises overflowing days/months, e.g. March 32nd -> April 1st
+  const guess = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+  const offset = offsetAt(guess);
+  const corrected = offsetAt(guess - offset);
+  return new Date(guess - corrected);
+}
+
+export function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// "HH:MM" as stored in notification settings
+export function parseTimeOfDay(value: string): { hour: number; minute: number } {
+  const [hour, minute] = value.split(":").map(Number);
+  return { hour, minute };
+}
+
+export function minutesOfDay(wall: WallClock): number {
+  return wall.hour * 60 + wall.minute;
+}
+
+// Wall-clock weekday, 0 = Sunday like Date.getDay()
+export function weekdayOf(wall: WallClock): number {
+  return new Date(Date.UTC(wall.year, wall.month, wall.day)).getUTCDay();
+}
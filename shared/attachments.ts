@@ -0,0 +1,29 @@
+// Files the board can attach to a notice: PDFs such as a stämmokallelse, and photos
+export const attachmentMimeTypes = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+] as const;
+export type AttachmentMimeType = typeof attachmentMimeTypes[number];
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_NOTICE = 5;
+
+export function isAttachmentMimeType(value: string): value is AttachmentMimeType {
+  return (attachmentMimeTypes as readonly string[]).includes(value);
+}
+
+export function attachmentUrl(id: number) {
+  return `/api/attachments/${id}`;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} kB`;
+  }
+  return `${(bytes / (1024 * 1024)).toLocaleString("sv-SE", { maximumFractionDigits: 1 })} MB`;
+}
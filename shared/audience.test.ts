@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { matchesAudience, parseApartmentList, type AudienceMember } from "./audience";
+
+const resident: AudienceMember = { apartmentNumber: "12", port: "B", role: "resident" };
+
+describe("matchesAudience", () => {
+  it("reaches everyone without an audience or with the whole association", () => {
+    expect(matchesAudience(null, resident)).toBe(true);
+    expect(matchesAudience(undefined, resident)).toBe(true);
+    expect(matchesAudience({ type: "all" }, resident)).toBe(true);
+  });
+
+  it("compares ports loosely", () => {
+    expect(matchesAudience({ type: "port", ports: [" b "] }, resident)).toBe(true);
+    expect(matchesAudience({ type: "port", ports: ["A", "C"] }, resident)).toBe(false);
+  });
+
+  it("leaves out residents without a port from port notices", () => {
+    expect(matchesAudience({ type: "port", ports: ["B"] }, { ...resident, port: null })).toBe(false);
+  });
+
+  it("treats apartment numbers with leading zeros as the same apartment", () => {
+    expect(matchesAudience({ type: "apartments", apartments: ["12"] }, { ...resident, apartmentNumber: "012" })).toBe(true);
+    expect(matchesAudience({ type: "apartments", apartments: ["13"] }, resident)).toBe(false);
+    expect(matchesAudience({ type: "apartments", apartments: ["12"] }, { ...resident, apartmentNumber: null })).toBe(false);
+  });
+
+  it("matches on role", () => {
+    expect(matchesAudience({ type: "role", roles: ["board", "admin"] }, resident)).toBe(false);
+    expect(matchesAudience({ type: "role", roles: ["board", "admin"] }, { ...resident, role: "board" })).toBe(true);
+  });
+});
+
+describe("parseApartmentList", () => {
+  it("expands ranges and drops duplicates", () => {
+    expect(parseApartmentList("3-5, 1, 4")).toEqual(["1", "3", "4", "5"]);
+  });
+
+  it("rejects malformed parts and apartments outside the association", () => {
+    expect(parseApartmentList("1, abc")).toBeNull();
+    expect(parseApartmentList("5-3")).toBeNull();
+    expect(parseApartmentList("160-166")).toBeNull();
+    expect(parseApartmentList("0")).toBeNull();
+  });
+});
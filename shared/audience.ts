@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { userRoles, type UserRole } from "./schema";
+
+export const MAX_APARTMENT = 165;
+
+export const audienceSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("all") }),
+  z.object({
+    type: z.literal("port"),
+    ports: z.array(z.string().trim().min(1)).min(1, "Välj minst en port"),
+  }),
+  z.object({
+    type: z.literal("apartments"),
+    apartments: z.array(z.string().trim().min(1)).min(1, "Ange minst en lägenhet"),
+  }),
+  z.object({
+    type: z.literal("role"),
+    roles: z.array(z.enum(userRoles)).min(1, "Välj minst en roll"),
+  }),
+]);
+
+export type NotificationAudience = z.infer<typeof audienceSchema>;
+
+export const ALL_RESIDENTS: NotificationAudience = { type: "all" };
+
+export interface AudienceMember {
+  apartmentNumber: string | null;
+  port: string | null;
+  role: UserRole;
+}
+
+/**
+ * Parses an apartment list such as "1-12, 40, 101-104" into apartment numbers.
+ * Returns null if any part is malformed or outside 1–165.
+ */
+export function parseApartmentList(input: string): string[] | null {
+  const apartments = new Set<number>();
+
+  for (const part of input.split(",").map(p => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)\s*(?:-\s*(\d+))?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to > MAX_APARTMENT || from > to) {
+      return null;
+    }
+
+    for (let apartment = from; apartment <= to; apartment++) {
+      apartments.add(apartment);
+    }
+  }
+
+  return Array.from(apartments).sort((a, b) => a - b).map(String);
+}
+
+// Collapses ["1", "2", "3", "7"] back into "1-3, 7"
+export function formatApartmentList(apartments: string[]): string {
+  const numbers = apartments.map(Number).sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  for (let i = 0; i < numbers.length; i++) {
+    const start = numbers[i];
+    while (i + 1 < numbers.length && numbers[i + 1] === numbers[i] + 1) {
+      i++;
+    }
+    parts.push(start === numbers[i] ? String(start) : `${start}-${numbers[i]}`);
+  }
+
+  return parts.join(", ");
+}
+
+/**
+ * The apartment numbers an audience covers on its own, or null when that depends on who
+ * lives where (ports and roles).
+ */
+export function audienceApartments(audience: NotificationAudience | null | undefined): string[] | null {
+  if (!audience || audience.type === "all") {
+    return Array.from({ length: MAX_APARTMENT }, (_, index) => String(index + 1));
+  }
+  if (audience.type === "apartments") {
+    return audience.apartments.map(apartment => String(Number(apartment)));
+  }
+  return null;
+}
+
+// Ports are typed in by residents, so compare them loosely
+function normalizePort(port: string) {
+  return port.trim().toLowerCase();
+}
+
+export function matchesAudience(audience: NotificationAudience | null | undefined, member: AudienceMember): boolean {
+  if (!audience) {
+    return true;
+  }
+
+  switch (audience.type) {
+    case "all":
+      return true;
+    case "port":
+      return !!member.port && audience.ports.map(normalizePort).includes(normalizePort(member.port));
+    case "apartments":
+      return !!member.apartmentNumber &&
+        audience.apartments.map(Number).includes(Number(member.apartmentNumber));
+    case "role":
+      return audience.roles.includes(member.role);
+  }
+}
+
+const roleNames: Record<UserRole, string> = {
+  resident: "boende",
+  board: "styrelsen",
+  admin: "administratörer",
+};
+
+export function describeAudience(audience: NotificationAudience | null | undefined): string {
+  if (!audience) {
+    return "Alla boende";
+  }
+
+  switch (audience.type) {
+    case "all":
+      return "Alla boende";
+    case "port":
+      return `Port ${audience.ports.join(", ")}`;
+    case "apartments":
+      return `Lägenhet ${formatApartmentList(audience.apartments)}`;
+    case "role":
+      return `Roll: ${audience.roles.map(role => roleNames[role]).join(", ")}`;
+  }
+}
@@ -0,0 +1,25 @@
+import { notificationCategories, type NotificationCategory, type NotificationPreferences } from "./schema";
+
+export const categoryLabels: Record<NotificationCategory, string> = {
+  urgent: "Akut",
+  maintenance: "Underhåll",
+  events: "Evenemang",
+  laundry: "Tvättstuga",
+  board: "Styrelsen",
+};
+
+export const categoryDescriptions: Record<NotificationCategory, string> = {
+  urgent: "Vattenavstängningar, brand och annat som inte kan vänta",
+  maintenance: "Planerade arbeten, hiss, trapphusstädning",
+  events: "Städdagar, fester och andra aktiviteter",
+  laundry: "Bokningar och driftstörningar i tvättstugan",
+  board: "Nyheter och information från styrelsen",
+};
+
+export function isMutableCategory(category: NotificationCategory) {
+  return category !== "urgent";
+}
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = Object.fromEntries(
+  notificationCategories.map(category => [category, true])
+) as NotificationPreferences;
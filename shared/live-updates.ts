@@ -0,0 +1,17 @@
+import type { Notification, NotificationWithReadState } from "./schema";
+
+/**
+ * Events streamed to open tabs over /api/live. Notice events also reach board members
+ * outside the audience, for the admin list; `listed` says whether the notice is in the
+ * user's own list.
+ */
+export type LiveUpdate =
+  | { type: "notification.created"; notification: NotificationWithReadState; listed: boolean }
+  | { type: "notification.updated"; notification: Notification; listed: boolean }
+  | { type: "notification.removed"; id: number; listed: boolean }
+  // Someone in the user's apartment confirmed the notice
+  | { type: "notification.acknowledged"; id: number }
+  // `read` is what was just marked as read, in another tab or on another device
+  | { type: "unread-count"; count: number; read?: number[] | "all" }
+  // Sent when missed events can't be replayed, the client refetches instead
+  | { type: "resync" };
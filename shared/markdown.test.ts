@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { isSafeLink, safeLink, sanitizeMarkdown } from "./markdown";
+
+describe("isSafeLink", () => {
+  it("allows web pages, mail and phone numbers", () => {
+    expect(isSafeLink("https://bergakungen.se")).toBe(true);
+    expect(isSafeLink("HTTP://bergakungen.se")).toBe(true);
+    expect(isSafeLink("  mailto:styrelsen@bergakungen.se")).toBe(true);
+    expect(isSafeLink("tel:+46701234567")).toBe(true);
+  });
+
+  it("refuses scripts, data and relative links", () => {
+    expect(isSafeLink("javascript:alert(1)")).toBe(false);
+    expect(isSafeLink(" JavaScript:alert(1)")).toBe(false);
+    expect(isSafeLink("data:text/html,<script>alert(1)</script>")).toBe(false);
+    expect(isSafeLink("//evil.example")).toBe(false);
+  });
+});
+
+describe("safeLink", () => {
+  it("trims safe links and drops the rest", () => {
+    expect(safeLink(" https://bergakungen.se ")).toBe("https://bergakungen.se");
+    expect(safeLink("javascript:alert(1)")).toBeNull();
+    expect(safeLink(null)).toBeNull();
+  });
+});
+
+describe("sanitizeMarkdown", () => {
+  it("drops HTML tags and control characters", () => {
+    expect(sanitizeMarkdown("<script>alert(1)</script>Hej")).toBe("alert(1)Hej");
+    expect(sanitizeMarkdown("<b>fet</b> text")).toBe("fet text");
+    expect(sanitizeMarkdown("a\u0000b\u0007c")).toBe("abc");
+  });
+
+  it("keeps the text of unsafe links but not the link", () => {
+    expect(sanitizeMarkdown("[klicka](javascript:alert(1))")).toBe("klicka");
+  });
+
+  it("keeps safe links, with one level of parentheses", () => {
+    expect(sanitizeMarkdown("[Läs mer](https://example.com/a_(b))")).toBe("[Läs mer](https://example.com/a_(b))");
+  });
+
+  it("writes lists back in the supported subset", () => {
+    expect(sanitizeMarkdown("Hej **du**\n- ett\n- två\n\n1. a\n2. b")).toBe("Hej **du**\n\n- ett\n- två\n\n1. a\n2. b");
+    expect(sanitizeMarkdown("* punkt\n• punkt2")).toBe("- punkt\n- punkt2");
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * The small Markdown subset notice bodies are written in: **fetstil**, bullet and numbered
+ * lists, [länkar](https://...) and line breaks. Anything else is kept as plain text. Shared
+ * so the server, the admin preview and the notice views all read a body the same way.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "bold"; text: string }
+  | { type: "link"; text: string; href: string };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; lines: MarkdownInline[][] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] };
+
+// Links may only point at web pages, mail and phone numbers, never javascript: or data:
+const SAFE_LINK = /^(https?:\/\/|mailto:|tel:)/i;
+
+const BULLET_ITEM = /^\s*[-*•]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+// Link targets may contain one level of parentheses, as in Wikipedia addresses
+const INLINE = /\*\*(.+?)\*\*|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g;
+
+export function isSafeLink(href: string) {
+  return SAFE_LINK.test(href.trim());
+}
+
+// Notice links stored before they were validated are checked again wherever they are used
+export function safeLink(href: string | null | undefined): string | null {
+  return href && isSafeLink(href) ? href.trim() : null;
+}
+
+export function parseInline(line: string): MarkdownInline[] {
+  const result: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of Array.from(line.matchAll(INLINE))) {
+    if (match.index! > last) {
+      result.push({ type: "text", text: line.slice(last, match.index) });
+    }
+    if (match[1] !== undefined) {
+      result.push({ type: "bold", text: match[1] });
+    } else if (isSafeLink(match[3])) {
+      result.push({ type: "link", text: match[2], href: match[3] });
+    } else {
+      // An unsafe link keeps its text but loses the target
+      result.push({ type: "text", text: match[2] });
+    }
+    last = match.index! + match[0].length;
+  }
+
+  if (last < line.length) {
+    result.push({ type: "text", text: line.slice(last) });
+  }
+  return result;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let current: MarkdownBlock | null = null;
+
+  for (const line of source.replace(/\r\n?/g, "\n").split("\n")) {
+    const bullet = line.match(BULLET_ITEM);
+    const ordered = line.match(ORDERED_ITEM);
+    const item = bullet ?? ordered;
+
+    if (item) {
+      const isOrdered = !bullet;
+      if (current?.type !== "list" || current.ordered !== isOrdered) {
+        current = { type: "list", ordered: isOrdered, items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseInline(item[1]));
+    } else if (line.trim() === "") {
+      // A blank line ends the paragraph or list
+      current = null;
+    } else {
+      if (current?.type !== "paragraph") {
+        current = { type: "paragraph", lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(parseInline(line.trim()));
+    }
+  }
+
+  return blocks;
+}
+
+function inlineToMarkdown(inline: MarkdownInline[]) {
+  return inline.map(part => {
+    switch (part.type) {
+      case "bold":
+        return `**${part.text}**`;
+      case "link":
+        return `[${part.text}](${part.href})`;
+      default:
+        return part.text;
+    }
+  }).join("");
+}
+
+/**
+ * Cleans a body before it is stored: drops HTML tags, control characters and unsafe links
+ * and writes the rest back in the supported subset.
+ */
+export function sanitizeMarkdown(source: string): string {
+  const cleaned = source
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    // Control characters except tabs and newlines
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, "");
+
+  return parseMarkdown(cleaned).map(block => block.type === "paragraph"
+    ? block.lines.map(inlineToMarkdown).join("\n")
+    : block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : "-"} ${inlineToMarkdown(item)}`).join("\n")
+  ).join("\n\n");
+}
+
+// Plain text for places that can't show formatting: push notifications, SMS and email text parts
+export function markdownToPlainText(source: string): string {
+  const inlineText = (inline: MarkdownInline[]) => inline.map(part =>
+    part.type === "link" && part.text !== part.href ? `${part.text} (${part.href})` : part.text
+  ).join("");
+
+  return parseMarkdown(source).map(block => block.type === "paragraph"
+    ? block.lines.map(inlineText).join("\n")
+    : block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : "•"} ${inlineText(item)}`).join("\n")
+  ).join("\n\n");
+}
@@ -0,0 +1,31 @@
+/**
+ * Normalises a phone number to E.164, reading numbers without a country code as Swedish.
+ * Accepts the common ways residents write them: "070-123 45 67", "+46 (0)70 123 45 67",
+ * "0046701234567". Returns null if it can't be a valid number.
+ */
+export function normalizePhoneNumber(input: string): string | null {
+  let number = input.trim().replace(/[\s\-().\/]/g, "");
+
+  if (number.startsWith("00")) {
+    number = `+${number.slice(2)}`;
+  }
+
+  if (number.startsWith("+46")) {
+    // The trunk zero is often written after the country code, "+46 (0)70..."
+    number = number.slice(3).replace(/^0/, "");
+  } else if (number.startsWith("+")) {
+    return /^\+[1-9]\d{6,14}$/.test(number) ? number : null;
+  } else if (number.startsWith("0")) {
+    number = number.slice(1);
+  } else {
+    return null;
+  }
+
+  // Swedish numbers are 7 to 9 digits after the trunk zero
+  return /^[1-9]\d{6,8}$/.test(number) ? `+46${number}` : null;
+}
+
+// Swedish mobile numbers start with 07, landlines can't receive SMS
+export function isSmsCapable(e164: string): boolean {
+  return !e164.startsWith("+46") || /^\+467[02369]\d{7}$/.test(e164);
+}
@@ -0,0 +1,141 @@
+export const pushPlatforms = ["apple", "google", "mozilla", "microsoft", "other"] as const;
+export type PushPlatform = typeof pushPlatforms[number];
+
+export const pushPlatformLabels: Record<PushPlatform, string> = {
+  apple: "Apple (iPhone, iPad, Safari)",
+  google: "Google (Chrome, Android)",
+  mozilla: "Mozilla (Firefox)",
+  microsoft: "Microsoft (Edge)",
+  other: "Övriga",
+};
+
+/**
+ * Each browser vendor runs its own push service, so the endpoint host tells
+ * which kind of device a subscription belongs to.
+ */
+export function getPushPlatform(endpoint: string | null | undefined): PushPlatform {
+  if (!endpoint) {
+    return "other";
+  }
+
+  let host: string;
+  try {
+    host = new URL(endpoint).hostname;
+  } catch {
+    return "other";
+  }
+
+  if (host.endsWith("push.apple.com")) {
+    return "apple";
+  }
+  if (host.endsWith("googleapis.com")) {
+    return "google";
+  }
+  if (host.endsWith("mozilla.com") || host.endsWith("mozaws.net")) {
+    return "mozilla";
+  }
+  if (host.endsWith("notify.windows.com")) {
+    return "microsoft";
+  }
+  return "other";
+}
+
+/**
+ * Browser and operating system from a User-Agent header, enough for residents to tell
+ * their own devices apart. iPads on iPadOS 13 and later claim to be Macs.
+ */
+export function parseUserAgent(userAgent: string | null | undefined): { browser: string | null; os: string | null } {
+  if (!userAgent) {
+    return { browser: null, os: null };
+  }
+
+  // Order matters, most browsers also claim to be Chrome and Safari
+  const browsers: Array<[RegExp, string]> = [
+    [/Edg(A|iOS)?\//, "Edge"],
+    [/SamsungBrowser\//, "Samsung Internet"],
+    [/OPR\/|Opera/, "Opera"],
+    [/Firefox\/|FxiOS\//, "Firefox"],
+    [/Chrome\/|CriOS\//, "Chrome"],
+    [/Safari\//, "Safari"],
+  ];
+  const systems: Array<[RegExp, string]> = [
+    [/iPhone/, "iPhone"],
+    [/iPad/, "iPad"],
+    [/Android/, "Android"],
+    [/Windows/, "Windows"],
+    [/CrOS/, "ChromeOS"],
+    [/Mac OS X|Macintosh/, "Mac"],
+    [/Linux/, "Linux"],
+  ];
+
+  return {
+    browser: browsers.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null,
+    os: systems.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null,
+  };
+}
+
+// "Safari på iPhone", for devices the resident hasn't named
+export function defaultDeviceName(browser: string | null, os: string | null, platform: PushPlatform): string {
+  if (browser && os) {
+    return `${browser} på ${os}`;
+  }
+  return browser ?? os ?? pushPlatformLabels[platform];
+}
+
+// Rougher than the operating system, for the platform share in the statistics
+export const deviceClasses = ["ios", "android", "desktop", "unknown"] as const;
+export type DeviceClass = typeof deviceClasses[number];
+
+export const deviceClassLabels: Record<DeviceClass, string> = {
+  ios: "iOS",
+  android: "Android",
+  desktop: "Dator",
+  unknown: "Okänd",
+};
+
+export function getDeviceClass(os: string | null): DeviceClass {
+  switch (os) {
+    case "iPhone":
+    case "iPad":
+      return "ios";
+    case "Android":
+      return "android";
+    case null:
+      return "unknown";
+    default:
+      return "desktop";
+  }
+}
+
+// Buttons a notice can show on the push, at most two fit on most platforms
+export const pushActions = ["open_link", "mark_read"] as const;
+export type PushAction = typeof pushActions[number];
+export const MAX_PUSH_ACTIONS = 2;
+
+export const pushActionLabels: Record<PushAction, string> = {
+  open_link: "Öppna länk",
+  mark_read: "Markera som läst",
+};
+
+// RFC 8030 urgency, low urgencies may be held back while the device saves battery
+export const pushUrgencies = ["very-low", "low", "normal", "high"] as const;
+export type PushUrgency = typeof pushUrgencies[number];
+
+export const pushUrgencyLabels: Record<PushUrgency, string> = {
+  "very-low": "Mycket låg",
+  low: "Låg",
+  normal: "Normal",
+  high: "Hög",
+};
+
+// How long the push service keeps trying to reach an offline device
+export const pushTtlOptions = [
+  { seconds: 60 * 60, label: "1 timme" },
+  { seconds: 24 * 60 * 60, label: "1 dygn" },
+  { seconds: 7 * 24 * 60 * 60, label: "1 vecka" },
+  { seconds: 28 * 24 * 60 * 60, label: "4 veckor" },
+] as const;
+export const DEFAULT_PUSH_TTL = 28 * 24 * 60 * 60;
+
+// The Topic header allows at most 32 characters from the URL-safe base64 alphabet
+export const PUSH_TOPIC_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
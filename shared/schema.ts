@@ -1,6 +1,14 @@
-import { pgTable, text, serial, jsonb, boolean, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, jsonb, boolean, timestamp, varchar, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { NotificationAudience } from "./audience";
+import { pushActions, pushUrgencies, MAX_PUSH_ACTIONS, DEFAULT_PUSH_TTL, PUSH_TOPIC_PATTERN, type PushPlatform, type DeviceClass, type PushAction, type PushUrgency } from "./push";
+import { normalizePhoneNumber } from "./phone";
+import { isSafeLink, sanitizeMarkdown } from "./markdown";
+import { MAX_ATTACHMENTS_PER_NOTICE, type AttachmentMimeType } from "./attachments";
+
+export const userRoles = ["resident", "board", "admin"] as const;
+export type UserRole = typeof userRoles[number];
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -10,24 +18,287 @@ export const users = pgTable("users", {
   apartmentNumber: varchar("apartment_number", { length: 10 }),
   port: varchar("port", { length: 10 }),
   phoneNumber: varchar("phone_number", { length: 20 }),
+  // Board members may broadcast notices, admins may additionally manage roles
+  role: varchar("role", { length: 20 }).$type<UserRole>().notNull().default("resident"),
+  // Set when the apartment number was bound through an invitation code
+  apartmentVerified: boolean("apartment_verified").notNull().default(false),
   // Store additional offline-capable profile data as JSON
   offlineData: jsonb("offline_data").$type<Record<string, any>>().default({}),
+  // Bumped when the password changes, sessions holding an older value are logged out
+  sessionVersion: integer("session_version").notNull().default(0),
+});
+
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  // Only a SHA-256 digest of the token is stored, never the token itself
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const invitationCodes = pgTable("invitation_codes", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 16 }).notNull().unique(),
+  apartmentNumber: varchar("apartment_number", { length: 10 }).notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  usedById: integer("used_by_id").references(() => users.id),
+  usedAt: timestamp("used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// "completed" marks a recurring series whose last occurrence has gone out,
+// "recalled" a sent notice the board has taken back
+export const notificationStatuses = ["scheduled", "sent", "cancelled", "completed", "recalled"] as const;
+export type NotificationStatus = typeof notificationStatuses[number];
+
+// Urgent notices (water shut-offs, fire alarms) always get through, the rest can be muted
+export const notificationCategories = ["urgent", "maintenance", "events", "laundry", "board"] as const;
+export type NotificationCategory = typeof notificationCategories[number];
+export const DEFAULT_CATEGORY: NotificationCategory = "board";
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(["daily", "weekly", "monthly"]),
+  // Every n days/weeks/months, e.g. { frequency: "weekly", interval: 2 } for every other week
+  interval: z.number().int().min(1).max(12),
+  until: z.coerce.date().optional(),
 });
 
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   body: text("body"), // Added body field to store the message content
   link: text("link"),
+  // Who the notice is addressed to, see shared/audience.ts
+  audience: jsonb("audience").$type<NotificationAudience>().notNull().default({ type: "all" }),
+  category: varchar("category", { length: 20 }).$type<NotificationCategory>().notNull().default(DEFAULT_CATEGORY),
+  // Emergency alerts (fire, flooding, elevator entrapment) ignore mutes and stay on screen until acknowledged
+  critical: boolean("critical").notNull().default(false),
+  // Each apartment is asked to confirm with "Jag har läst", always set for critical alerts
+  requiresAck: boolean("requires_ack").notNull().default(false),
+  ackRemindedAt: timestamp("ack_reminded_at"),
+  // Rich push options, see shared/push.ts
+  imageUrl: text("image_url"),
+  actions: jsonb("actions").$type<PushAction[]>().notNull().default([]),
+  ttlSeconds: integer("ttl_seconds"),
+  urgency: varchar("urgency", { length: 10 }).$type<PushUrgency>().notNull().default("normal"),
+  // Pushes with the same topic replace each other on the lock screen and in the push service
+  topic: varchar("topic", { length: 32 }),
+  // Bumped by each correction, pushes of a later revision are sent as "Rättelse"
+  revision: integer("revision").notNull().default(0),
+  editedAt: timestamp("edited_at"),
+  recalledAt: timestamp("recalled_at"),
+  // Scheduled rows are pending sends picked up by server/scheduler.ts. A recurring row
+  // stays scheduled and each occurrence is inserted as a sent copy pointing back at it.
+  status: varchar("status", { length: 20 }).$type<NotificationStatus>().notNull().default("sent"),
+  scheduledAt: timestamp("scheduled_at"),
+  recurrence: jsonb("recurrence").$type<Recurrence>(),
+  // The series' first send. scheduledAt moves on with every occurrence, a monthly series
+  // on the 31st keeps its day from here after passing a shorter month.
+  seriesStartAt: timestamp("series_start_at"),
+  seriesId: integer("series_id").references((): AnyPgColumn => notifications.id),
+  sentAt: timestamp("sent_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   createdById: serial("created_by_id").references(() => users.id),
 });
 
+// One row per user and notice they have opened, anything without a row counts as unread
+export const notificationReads = pgTable("notification_reads", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at").notNull().defaultNow(),
+}, (table) => ({
+  notificationUser: unique().on(table.notificationId, table.userId),
+}));
+
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: serial("id").primaryKey(),
   userId: serial("user_id").references(() => users.id),
+  // One row per browser, resubscribing the same device updates it in place.
+  // Rows from before this column existed have it null until the device subscribes again.
+  endpoint: text("endpoint").unique(),
   subscription: jsonb("subscription").notNull(),
   active: boolean("active").notNull().default(true),
+  // PushSubscription.expirationTime, most browsers leave it unset
+  expiresAt: timestamp("expires_at"),
+  // Set once the user has been told the subscription is about to expire, cleared on renewal
+  expiryWarnedAt: timestamp("expiry_warned_at"),
+  // Name the resident gave the device under "Mina enheter"
+  name: varchar("name", { length: 60 }),
+  // Browser the device subscribed from, used to name it until the resident does
+  userAgent: text("user_agent"),
+  // Last push the push service accepted for the device, queued or direct
+  lastDeliveredAt: timestamp("last_delivered_at"),
+  // When the device stopped getting pushes, for the subscriber history in the statistics.
+  // Rows deactivated before this column existed have it null.
+  deactivatedAt: timestamp("deactivated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Residents confirming they have seen an emergency alert or a notice that asks for
+// confirmation. One confirmation counts for the whole apartment. The apartment is copied at
+// the time of confirming so the board's overview doesn't shift if a profile changes later.
+export const notificationAcknowledgements = pgTable("notification_acknowledgements", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  apartmentNumber: text("apartment_number"),
+  acknowledgedAt: timestamp("acknowledged_at").notNull().defaultNow(),
+}, (table) => ({
+  notificationUser: unique().on(table.notificationId, table.userId),
+  notificationApartment: unique().on(table.notificationId, table.apartmentNumber),
+}));
+
+export const notificationAuditActions = ["edited", "corrected", "recalled"] as const;
+export type NotificationAuditAction = typeof notificationAuditActions[number];
+
+// Who changed a sent notice and what it said before, the edit history shown to the board
+export const notificationAuditLog = pgTable("notification_audit_log", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  action: varchar("action", { length: 20 }).$type<NotificationAuditAction>().notNull(),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  // Title, body and link before an edit, null for recalls
+  previous: jsonb("previous").$type<{ title: string; body: string | null; link: string | null }>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Files uploaded for a notice. They are uploaded before the notice is sent, so notificationId
+// stays null until the notice is saved. The file itself lives on disk, see server/attachments.ts.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").references(() => notifications.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).$type<AttachmentMimeType>().notNull(),
+  size: integer("size").notNull(),
+  storageKey: varchar("storage_key", { length: 64 }).notNull().unique(),
+  uploadedById: integer("uploaded_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Only categories a user has switched off are stored, no row means the category is on
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  category: varchar("category", { length: 20 }).$type<NotificationCategory>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  userCategory: unique().on(table.userId, table.category),
+}));
+
+export const deliveryModes = ["immediate", "daily", "weekly"] as const;
+export type DeliveryMode = typeof deliveryModes[number];
+
+// "fallback" emails residents who have no working push subscription
+export const emailDeliveryModes = ["off", "fallback", "always"] as const;
+export type EmailDeliveryMode = typeof emailDeliveryModes[number];
+
+// Per-resident push timing. Times are "HH:MM" on the association's wall clock (Europe/Stockholm).
+// No row means immediate delivery without quiet hours.
+export const notificationSettings = pgTable("notification_settings", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  quietHoursEnabled: boolean("quiet_hours_enabled").notNull().default(false),
+  quietHoursStart: varchar("quiet_hours_start", { length: 5 }).notNull().default("22:00"),
+  quietHoursEnd: varchar("quiet_hours_end", { length: 5 }).notNull().default("07:00"),
+  deliveryMode: varchar("delivery_mode", { length: 20 }).$type<DeliveryMode>().notNull().default("immediate"),
+  digestTime: varchar("digest_time", { length: 5 }).notNull().default("08:00"),
+  // 0 = Sunday, like Date.getDay(). Only used for weekly digests.
+  digestDay: integer("digest_day").notNull().default(1),
+  emailDelivery: varchar("email_delivery", { length: 20 }).$type<EmailDeliveryMode>().notNull().default("fallback"),
+  // Explicit opt-in for SMS, only used for critical alerts to residents without push
+  smsConsent: boolean("sms_consent").notNull().default(false),
+  smsConsentAt: timestamp("sms_consent_at"),
+  // End of the period covered by the latest digest, the next one picks up from here
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One row per digest push, so the push can open the notices it summarised
+export const notificationDigests = pgTable("notification_digests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  notificationIds: jsonb("notification_ids").$type<number[]>().notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const deliveryStatuses = ["pending", "delivered", "failed", "expired"] as const;
+export type DeliveryStatus = typeof deliveryStatuses[number];
+
+// Outbound queue worked through by server/delivery-worker.ts, one row per notice and device.
+// Rows stay after delivery and make up the per-notice delivery report.
+export const pushDeliveries = pgTable("push_deliveries", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  subscriptionId: integer("subscription_id").notNull().references(() => pushSubscriptions.id, { onDelete: "cascade" }),
+  platform: varchar("platform", { length: 20 }).$type<PushPlatform>().notNull(),
+  // The notice revision the push was for, a correction queues a new row per device
+  revision: integer("revision").notNull().default(0),
+  status: varchar("status", { length: 20 }).$type<DeliveryStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  // The resident tapped the push, reported by the service worker's notificationclick
+  openedAt: timestamp("opened_at"),
+  statusCode: integer("status_code"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  notificationSubscription: unique().on(table.notificationId, table.subscriptionId, table.revision),
+}));
+
+// Email counterpart of push_deliveries, worked through by server/email-delivery.ts.
+// The address is copied so the report shows where the notice went.
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  status: varchar("status", { length: 20 }).$type<DeliveryStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  notificationUser: unique().on(table.notificationId, table.userId),
+}));
+
+// SMS sent for critical alerts. Sent straight away by server/sms-delivery.ts, the row
+// records the outcome for the delivery report.
+export const smsDeliveries = pgTable("sms_deliveries", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  phoneNumber: varchar("phone_number", { length: 20 }).notNull(),
+  status: varchar("status", { length: 20 }).$type<DeliveryStatus>().notNull().default("pending"),
+  providerMessageId: text("provider_message_id"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => ({
+  notificationUser: unique().on(table.notificationId, table.userId),
+}));
+
+// Key pairs pushes are signed with, generated from the admin page or `npm run vapid`. The
+// newest row is used, older ones are kept to show when the keys were rotated.
+export const vapidKeys = pgTable("vapid_keys", {
+  id: serial("id").primaryKey(),
+  publicKey: text("public_key").notNull().unique(),
+  privateKey: text("private_key").notNull(),
+  // Null when generated from the command line
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -35,16 +306,143 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 }).extend({
   email: z.string().email("Ogiltig e-postadress"),
-  // We don't validate password since it's pre-filled
+  password: z.string().min(8, "Lösenordet måste vara minst 8 tecken"),
+});
+
+// Registration additionally requires a one-time code handed out by the board per apartment
+export const registerSchema = insertUserSchema.extend({
+  // Printed codes are grouped as XXXX-XXXX, accept them with or without separators
+  invitationCode: z.string().trim().min(1, "Inbjudningskod måste anges")
+    .transform(val => val.toUpperCase().replace(/[^A-Z0-9]/g, "")),
+});
+
+// No length rule on the password, the check at login is whether it matches
+export const loginSchema = z.object({
+  email: z.string().email("Ogiltig e-postadress"),
+  password: z.string().min(1, "Lösenord måste anges"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Nuvarande lösenord måste anges"),
+  newPassword: z.string().min(8, "Lösenordet måste vara minst 8 tecken"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Ogiltig e-postadress"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Återställningskod saknas"),
+  password: z.string().min(8, "Lösenordet måste vara minst 8 tecken"),
 });
 
 export const updateProfileSchema = z.object({
-  displayName: z.string().min(1, "Namn måste anges"),
-  apartmentNumber: z.string()
-    .refine(val => !val || (Number(val) >= 1 && Number(val) <= 165), 
+  displayName: z.string().trim().min(1, "Namn måste anges").max(100, "Namnet får vara högst 100 tecken"),
+  apartmentNumber: z.string().trim()
+    .refine(val => !val || (/^\d+$/.test(val) && Number(val) >= 1 && Number(val) <= 165),
       "Lägenhetsnummer måste vara mellan 1 och 165"),
-  port: z.string().optional(),
-  phoneNumber: z.string().optional(),
+  port: z.string().trim().max(10, "Porten får vara högst 10 tecken")
+    .regex(/^[a-zA-ZåäöÅÄÖ\d]*$/, "Porten får bara innehålla bokstäver och siffror")
+    .optional(),
+  phoneNumber: z.string().optional()
+    .refine(val => !val || normalizePhoneNumber(val) !== null, "Ogiltigt telefonnummer"),
+});
+
+export const generateInvitationsSchema = z.object({
+  fromApartment: z.coerce.number().int().min(1, "Lägenhetsnummer måste vara mellan 1 och 165").max(165, "Lägenhetsnummer måste vara mellan 1 och 165"),
+  toApartment: z.coerce.number().int().min(1, "Lägenhetsnummer måste vara mellan 1 och 165").max(165, "Lägenhetsnummer måste vara mellan 1 och 165"),
+}).refine(data => data.fromApartment <= data.toApartment, {
+  message: "Första lägenheten måste vara lägre än den sista",
+  path: ["toApartment"],
+});
+
+export const updateRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const categorySchema = z.enum(notificationCategories);
+
+export const notificationPreferencesSchema = z.record(categorySchema, z.boolean())
+  .refine(prefs => prefs.urgent !== false, {
+    message: "Akuta notiser kan inte stängas av",
+  });
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Ange tid som TT:MM");
+
+export const notificationSettingsSchema = z.object({
+  quietHoursEnabled: z.boolean(),
+  quietHoursStart: timeOfDaySchema,
+  quietHoursEnd: timeOfDaySchema,
+  deliveryMode: z.enum(deliveryModes),
+  digestTime: timeOfDaySchema,
+  digestDay: z.number().int().min(0).max(6),
+  emailDelivery: z.enum(emailDeliveryModes),
+  smsConsent: z.boolean(),
+}).refine(data => !data.quietHoursEnabled || data.quietHoursStart !== data.quietHoursEnd, {
+  message: "Tysta timmar måste börja och sluta vid olika tider",
+  path: ["quietHoursEnd"],
+});
+
+export const richPushSchema = z.object({
+  imageUrl: z.string()
+    .refine(val => val.startsWith("/") || /^https:\/\//.test(val), "Bilden måste vara en https-adress")
+    .nullable().optional(),
+  actions: z.array(z.enum(pushActions)).max(MAX_PUSH_ACTIONS, `Högst ${MAX_PUSH_ACTIONS} knappar`).optional(),
+  ttlSeconds: z.number().int().min(0).max(DEFAULT_PUSH_TTL).nullable().optional(),
+  urgency: z.enum(pushUrgencies).optional(),
+  topic: z.string().regex(PUSH_TOPIC_PATTERN, "Ämnet får bara innehålla bokstäver a-z, siffror, - och _ (högst 32 tecken)").nullable().optional(),
+});
+
+// Uploaded through POST /api/attachments before the notice is sent
+export const attachmentIdsSchema = z.array(z.number().int().positive())
+  .max(MAX_ATTACHMENTS_PER_NOTICE, `Högst ${MAX_ATTACHMENTS_PER_NOTICE} bilagor per notis`)
+  .default([]);
+
+export const scheduleSchema = z.object({
+  scheduledAt: z.coerce.date().nullable().optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+}).refine(data => !data.recurrence || data.scheduledAt, {
+  message: "Återkommande notiser behöver ett första utskick",
+  path: ["scheduledAt"],
+});
+
+export const notificationTitleSchema = z.string({ required_error: "Titel måste anges" })
+  .trim()
+  .min(1, "Titel måste anges");
+
+// Links end up in href attributes and window.open, so javascript: and data: are refused.
+// An empty link means no link.
+export const noticeLinkSchema = z.string()
+  .trim()
+  .refine(val => !val || isSafeLink(val), "Länken måste börja med https://, http://, mailto: eller tel:")
+  .transform(val => val || null)
+  .nullable()
+  .optional();
+
+// A long notice is a page of text. The bound also keeps the per-character work on the body
+// (sanitizing, SMS truncation) cheap inside the send request.
+export const MAX_NOTICE_BODY_LENGTH = 5000;
+
+// Bodies are stored in the Markdown subset from shared/markdown.ts, cleaned on the way in
+export const notificationBodySchema = z.string()
+  .max(MAX_NOTICE_BODY_LENGTH, `Meddelandet får vara högst ${MAX_NOTICE_BODY_LENGTH} tecken`)
+  .transform(sanitizeMarkdown)
+  .pipe(z.string().min(1, "Meddelande måste anges"));
+
+export const updateScheduledNotificationSchema = z.object({
+  title: notificationTitleSchema,
+  body: notificationBodySchema,
+  link: noticeLinkSchema,
+  scheduledAt: z.coerce.date(),
+  recurrence: recurrenceSchema.nullable().optional(),
+});
+
+export const editNotificationSchema = z.object({
+  title: notificationTitleSchema,
+  body: notificationBodySchema,
+  link: noticeLinkSchema,
+  // Pushes the edited notice again as a correction that replaces the original on the lock screen
+  correction: z.boolean().default(false),
 });
 
 export const insertNotificationSchema = createInsertSchema(notifications).pick({
@@ -54,13 +452,126 @@ export const insertNotificationSchema = createInsertSchema(notifications).pick({
   createdById: true,
 });
 
-export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).pick({
-  userId: true,
-  subscription: true,
+// PushSubscription.toJSON() as sent by the browser
+export const webPushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export const subscribeSchema = z.object({
+  subscription: webPushSubscriptionSchema,
+});
+
+export const unsubscribeSchema = z.object({
+  endpoint: z.string().url(),
+});
+
+export const renameDeviceSchema = z.object({
+  // Empty goes back to the name worked out from the browser
+  name: z.string().trim().max(60, "Namnet får vara högst 60 tecken")
+    .transform(val => val || null)
+    .nullable(),
+});
+
+// Sent by the service worker when the browser replaced a subscription on its own
+export const subscriptionChangeSchema = z.object({
+  oldEndpoint: z.string().url(),
+  subscription: webPushSubscriptionSchema,
+});
+
+export const pushOpenedSchema = z.object({
+  endpoint: z.string().url(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Register = z.infer<typeof registerSchema>;
 export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type UpdateRole = z.infer<typeof updateRoleSchema>;
+export type RenameDevice = z.infer<typeof renameDeviceSchema>;
+export type UpdateScheduledNotification = z.infer<typeof updateScheduledNotificationSchema>;
+export type EditNotification = z.infer<typeof editNotificationSchema>;
+export type GenerateInvitations = z.infer<typeof generateInvitationsSchema>;
+export type WebPushSubscription = z.infer<typeof webPushSubscriptionSchema>;
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
 export type User = typeof users.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
-export type PushSubscription = typeof pushSubscriptions.$inferSelect;
\ No newline at end of file
+export type Attachment = typeof attachments.$inferSelect;
+// What clients get to see of an attachment, the file's location on disk stays on the server
+export type AttachmentInfo = Pick<Attachment, "id" | "notificationId" | "fileName" | "mimeType" | "size">;
+export type NotificationWithReadState = Notification & {
+  read: boolean;
+  // Confirmed by the user or someone else in their apartment
+  acknowledged: boolean;
+  attachments: AttachmentInfo[];
+};
+export type NotificationSettings = Omit<typeof notificationSettings.$inferSelect, "updatedAt">;
+export type UpdateNotificationSettings = z.infer<typeof notificationSettingsSchema>;
+export type NotificationDigest = typeof notificationDigests.$inferSelect;
+export type NotificationDigestWithNotifications = NotificationDigest & { notifications: Notification[] };
+export type InsertNotification = typeof notifications.$inferInsert;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type VapidKeyPair = typeof vapidKeys.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InvitationCode = typeof invitationCodes.$inferSelect;
+export type PushDelivery = typeof pushDeliveries.$inferSelect;
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type SmsDelivery = typeof smsDeliveries.$inferSelect;
+export type NotificationAcknowledgement = typeof notificationAcknowledgements.$inferSelect;
+export type NotificationAuditEntry = typeof notificationAuditLog.$inferSelect & { actorName: string | null };
+
+export interface AcknowledgementReport {
+  notificationId: number;
+  // Apartments the notice is for: every listed apartment (all 165 for the whole house),
+  // for port and role audiences those with a resident in it
+  apartments: number;
+  confirmed: Array<{ apartmentNumber: string; acknowledgedAt: string }>;
+  // Apartments without a registered resident can't confirm or be reminded in the app
+  unconfirmed: Array<{ apartmentNumber: string; registered: boolean }>;
+  remindedAt: string | null;
+}
+
+export interface AcknowledgementSummary {
+  notification: Notification;
+  apartments: number;
+  confirmed: number;
+}
+
+export type DeliveryCounts = Record<DeliveryStatus, number>;
+// One of the user's own push subscriptions, listed under "Mina enheter"
+export interface PushDevice {
+  id: number;
+  name: string;
+  // Whether the resident named it, otherwise the name is worked out from the browser
+  named: boolean;
+  platform: PushPlatform;
+  browser: string | null;
+  os: string | null;
+  // Lets the app recognise the device it is running on
+  endpoint: string | null;
+  createdAt: string;
+  lastDeliveredAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface DeliveryReport {
+  notificationId: number;
+  total: number;
+  counts: DeliveryCounts;
+  platforms: Array<{ platform: PushPlatform } & DeliveryCounts>;
+  email: DeliveryCounts;
+  sms: DeliveryCounts;
+}
+
+// The statistics on the admin page. Notice counts are devices, a corrected notice isn't counted twice.
+export interface PushAnalytics {
+  subscribers: Array<{ date: string; count: number }>;
+  deviceClasses: Array<{ deviceClass: DeviceClass; count: number }>;
+  notices: Array<{ id: number; title: string; sentAt: string; devices: number; delivered: number; opened: number }>;
+  apartments: { registered: number; withPush: number; total: number };
+}
\ No newline at end of file